@@ -5,12 +5,63 @@ import { useEffect, useMemo, useState } from "react";
 type Overview = {
   ok: boolean;
   organization: { id: string; name: string } | null;
-  wallet: { balance: number; currency: string } | null;
+  wallet: {
+    balance: number;
+    reserved: number;
+    available: number;
+    currency: string;
+    holds: { id: string; amount: number; requestId: string; expiresAt: string }[];
+  } | null;
   subscription: { status: string; planCode: string; seats: number; monthlyCredits: number } | null;
   membersCount: number;
   ledger: { id: string; delta: number; reason: string; requestId: string | null; createdAt: string }[];
 };
 
+type PlanOption = {
+  code: string;
+  name: string;
+  seats: number;
+  monthlyCredits: number;
+  rateLimit: { limit: number; window: string };
+  modes: string[];
+  priceCents: number;
+  currency: string;
+};
+
+type PlanPreview = {
+  fromPlan: string;
+  toPlan: string;
+  direction: "upgrade" | "downgrade";
+  remainingFraction: number;
+  creditDelta: number;
+  priceDeltaCents: number;
+  periodEnd: string;
+};
+
+type Reconciliation = {
+  checkedAt: string;
+  wallets: number;
+  drifted: number;
+  items: {
+    walletId: string;
+    balance: number;
+    ledgerBalance: number;
+    drift: number;
+    reserved: number;
+    heldTotal: number;
+    reservedDrift: number;
+    ledgerEntries: number;
+  }[];
+};
+
+type CreditPack = { code: string; name: string; credits: number; priceCents: number; currency: string };
+
+type AlertRule = { kind: "absolute" | "percent"; threshold: number; triggeredAt?: string | null };
+
+function formatPrice(cents: number, currency: string) {
+  return `${(cents / 100).toFixed(2)} ${currency.toUpperCase()}`;
+}
+
 export default function BillingPanel() {
   const [loading, setLoading] = useState(true);
   const [overview, setOverview] = useState<Overview | null>(null);
@@ -19,6 +70,168 @@ export default function BillingPanel() {
   const [busy, setBusy] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const [plans, setPlans] = useState<PlanOption[]>([]);
+  const [currentPlanCode, setCurrentPlanCode] = useState<string | null>(null);
+  const [preview, setPreview] = useState<PlanPreview | null>(null);
+  const [creditPacks, setCreditPacks] = useState<CreditPack[]>([]);
+  const [checkoutResult, setCheckoutResult] = useState<string | null>(null);
+
+  async function loadCreditPacks() {
+    try {
+      const res = await fetch("/api/admin/billing/checkout", { cache: "no-store" });
+      const data = await res.json();
+      if (res.ok) setCreditPacks(data.creditPacks ?? []);
+    } catch {
+      // purchases are optional
+    }
+  }
+
+  /** Hosted checkout; credits/plan update when the provider's webhook arrives. */
+  async function checkout(kind: "credits" | "subscription", code: string) {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/billing/checkout", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ kind, code }),
+      });
+      const data = await res.json();
+      if (!res.ok) setError(data?.error ?? "Checkout failed");
+      else window.location.href = data.url;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Checkout failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function loadPlans() {
+    try {
+      const res = await fetch("/api/admin/billing/plans", { cache: "no-store" });
+      const data = await res.json();
+      if (res.ok) {
+        setPlans(data.plans ?? []);
+        setCurrentPlanCode(data.currentPlanCode ?? null);
+      }
+    } catch {
+      // plan list is optional; the overview error (if any) is shown instead
+    }
+  }
+
+  async function previewPlan(planCode: string) {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/billing/plans?preview=${encodeURIComponent(planCode)}`, { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) setError(data?.error ?? "Preview failed");
+      else setPreview(data.preview);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Preview failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function confirmPlanChange() {
+    if (!preview) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/billing/plans", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ planCode: preview.toPlan }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data?.error ?? "Plan change failed");
+      } else {
+        setPreview(null);
+        await Promise.all([load(), loadPlans()]);
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Plan change failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const [reconciliation, setReconciliation] = useState<Reconciliation | null>(null);
+  const [exportFrom, setExportFrom] = useState("");
+  const [exportTo, setExportTo] = useState("");
+  const [exportReason, setExportReason] = useState("");
+
+  const exportHref = useMemo(() => {
+    const params = new URLSearchParams({ format: "csv" });
+    if (exportFrom) params.set("from", exportFrom);
+    if (exportTo) params.set("to", exportTo);
+    if (exportReason) params.set("reason", exportReason);
+    return `/api/admin/billing/ledger?${params.toString()}`;
+  }, [exportFrom, exportTo, exportReason]);
+
+  async function reconcile() {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/billing/reconciliation", { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) setError(data?.error ?? "Reconciliation failed");
+      else setReconciliation(data as Reconciliation);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Reconciliation failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const [alertRules, setAlertRules] = useState<AlertRule[]>([]);
+  const [alertWebhook, setAlertWebhook] = useState("");
+  const [alertEmails, setAlertEmails] = useState("");
+  const [alertsSaved, setAlertsSaved] = useState<string | null>(null);
+
+  async function loadAlerts() {
+    try {
+      const res = await fetch("/api/admin/alerts", { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) return;
+      setAlertRules(data.rules ?? []);
+      setAlertWebhook(data.webhookUrl ?? "");
+      setAlertEmails((data.emails ?? []).join(", "));
+    } catch {
+      // Alerts section stays empty
+    }
+  }
+
+  async function saveAlerts() {
+    setBusy(true);
+    setError(null);
+    setAlertsSaved(null);
+    try {
+      const res = await fetch("/api/admin/alerts", {
+        method: "PUT",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          rules: alertRules.map((r) => ({ kind: r.kind, threshold: r.threshold })),
+          webhookUrl: alertWebhook.trim() || null,
+          emails: alertEmails.split(",").map((e) => e.trim()).filter(Boolean),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data?.error ?? "Saving alerts failed");
+      } else {
+        setAlertRules(data.rules ?? []);
+        setAlertsSaved(data.check?.fired ? `Saved · ${data.check.fired} alert(s) fired` : "Saved");
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Saving alerts failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
   async function load() {
     setLoading(true);
     setError(null);
@@ -65,6 +278,10 @@ export default function BillingPanel() {
 
   useEffect(() => {
     load();
+    loadPlans();
+    loadAlerts();
+    loadCreditPacks();
+    setCheckoutResult(new URLSearchParams(window.location.search).get("checkout"));
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
@@ -81,6 +298,12 @@ export default function BillingPanel() {
         <p style={{ marginTop: 12 }}><b>Error:</b> {error}</p>
       ) : null}
 
+      {checkoutResult === "success" ? (
+        <p style={{ marginTop: 12 }}>Payment received — credits appear once the provider confirms it.</p>
+      ) : checkoutResult === "canceled" ? (
+        <p style={{ marginTop: 12 }}>Checkout canceled.</p>
+      ) : null}
+
       {loading ? (
         <p style={{ marginTop: 12 }}>Loading…</p>
       ) : (
@@ -90,6 +313,10 @@ export default function BillingPanel() {
             <div><b>Plan:</b> {overview?.subscription?.planCode ?? "—"} ({overview?.subscription?.status ?? "—"})</div>
             <div><b>Seats:</b> {seatsText}</div>
             <div><b>Credits:</b> {overview?.wallet?.balance ?? 0}</div>
+            <div>
+              <b>Available:</b> {overview?.wallet?.available ?? 0} · <b>Reserved:</b> {overview?.wallet?.reserved ?? 0}
+              {(overview?.wallet?.holds?.length ?? 0) > 0 ? ` (${overview?.wallet?.holds.length} active holds)` : ""}
+            </div>
           </div>
 
           <div style={{ marginTop: 14, display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
@@ -112,6 +339,171 @@ export default function BillingPanel() {
             </button>
           </div>
 
+          {plans.length > 0 ? (
+            <>
+              <h3 style={{ marginTop: 16 }}>Plans</h3>
+              <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                {plans.map((p) => (
+                  <div key={p.code} style={{ border: "1px solid #333", borderRadius: 8, padding: 10, minWidth: 180 }}>
+                    <div><b>{p.name}</b> · {formatPrice(p.priceCents, p.currency)}/mo</div>
+                    <div style={{ fontSize: 13, opacity: 0.8, lineHeight: 1.5 }}>
+                      {p.seats} seats · {p.monthlyCredits} credits/mo
+                      <br />
+                      {p.rateLimit.limit} req / {p.rateLimit.window} · {p.modes.join(" + ")}
+                    </div>
+                    {p.code === currentPlanCode ? (
+                      <div style={{ marginTop: 6, fontSize: 13 }}>Current plan</div>
+                    ) : (
+                      <button style={{ marginTop: 6 }} onClick={() => previewPlan(p.code)} disabled={busy || loading}>
+                        Preview change
+                      </button>
+                    )}
+                    <button
+                      style={{ marginTop: 6, marginLeft: 6 }}
+                      onClick={() => checkout("subscription", p.code)}
+                      disabled={busy || loading}
+                    >
+                      Subscribe
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              {preview ? (
+                <div style={{ marginTop: 10, lineHeight: 1.6 }}>
+                  <div>
+                    <b>{preview.direction === "upgrade" ? "Upgrade" : "Downgrade"}:</b> {preview.fromPlan} → {preview.toPlan}
+                    {" "}({Math.round(preview.remainingFraction * 100)}% of the period left, ends{" "}
+                    {new Date(preview.periodEnd).toLocaleDateString()})
+                  </div>
+                  <div>
+                    <b>Credit adjustment:</b> {preview.creditDelta > 0 ? `+${preview.creditDelta}` : preview.creditDelta} ·{" "}
+                    <b>Prorated price:</b> {formatPrice(preview.priceDeltaCents, "usd")}
+                  </div>
+                  <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
+                    <button onClick={confirmPlanChange} disabled={busy}>
+                      {busy ? "Changing…" : "Confirm plan change"}
+                    </button>
+                    <button onClick={() => setPreview(null)} disabled={busy}>
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : null}
+            </>
+          ) : null}
+
+          {creditPacks.length > 0 ? (
+            <>
+              <h3 style={{ marginTop: 16 }}>Buy credits</h3>
+              <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                {creditPacks.map((pack) => (
+                  <button key={pack.code} onClick={() => checkout("credits", pack.code)} disabled={busy || loading}>
+                    {pack.name} · {formatPrice(pack.priceCents, pack.currency)}
+                  </button>
+                ))}
+              </div>
+            </>
+          ) : null}
+
+          <h3 style={{ marginTop: 16 }}>Low-balance alerts</h3>
+          <div style={{ display: "grid", gap: 6 }}>
+            {alertRules.map((r, i) => (
+              <div key={i} style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                <select
+                  value={r.kind}
+                  onChange={(e) =>
+                    setAlertRules((prev) => prev.map((x, j) => (j === i ? { ...x, kind: e.target.value as AlertRule["kind"] } : x)))
+                  }
+                >
+                  <option value="absolute">credits</option>
+                  <option value="percent">% of monthly credits</option>
+                </select>
+                <input
+                  type="number"
+                  min={0}
+                  value={r.threshold}
+                  onChange={(e) =>
+                    setAlertRules((prev) =>
+                      prev.map((x, j) => (j === i ? { ...x, threshold: Math.max(0, parseInt(e.target.value || "0", 10)) } : x))
+                    )
+                  }
+                  style={{ width: 120 }}
+                />
+                {r.triggeredAt ? <span style={{ fontSize: 13 }}>triggered</span> : null}
+                <button onClick={() => setAlertRules((prev) => prev.filter((_, j) => j !== i))} disabled={busy}>
+                  Remove
+                </button>
+              </div>
+            ))}
+            <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+              <button
+                onClick={() => setAlertRules((prev) => [...prev, { kind: "percent", threshold: 20 }])}
+                disabled={busy || alertRules.length >= 5}
+              >
+                Add rule
+              </button>
+              <input
+                type="text"
+                placeholder="webhook URL (optional)"
+                value={alertWebhook}
+                onChange={(e) => setAlertWebhook(e.target.value)}
+                style={{ width: 260 }}
+              />
+              <input
+                type="text"
+                placeholder="emails, comma separated"
+                value={alertEmails}
+                onChange={(e) => setAlertEmails(e.target.value)}
+                style={{ width: 260 }}
+              />
+              <button onClick={saveAlerts} disabled={busy || loading}>
+                Save alerts
+              </button>
+              {alertsSaved ? <span style={{ fontSize: 13 }}>{alertsSaved}</span> : null}
+            </div>
+          </div>
+
+          <h3 style={{ marginTop: 16 }}>Ledger export &amp; reconciliation</h3>
+          <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+            <label>
+              From <input type="date" value={exportFrom} onChange={(e) => setExportFrom(e.target.value)} />
+            </label>
+            <label>
+              To <input type="date" value={exportTo} onChange={(e) => setExportTo(e.target.value)} />
+            </label>
+            <select value={exportReason} onChange={(e) => setExportReason(e.target.value)}>
+              <option value="">All reasons</option>
+              <option value="chat_usage">chat_usage</option>
+              <option value="monthly_topup">monthly_topup</option>
+              <option value="admin_adjust">admin_adjust</option>
+              <option value="plan_change">plan_change</option>
+              <option value="credit_purchase">credit_purchase</option>
+            </select>
+            <a href={exportHref} style={{ textDecoration: "underline" }}>
+              Export CSV
+            </a>
+            <button onClick={reconcile} disabled={busy || loading}>
+              Run reconciliation
+            </button>
+          </div>
+
+          {reconciliation ? (
+            <div style={{ marginTop: 10, lineHeight: 1.6 }}>
+              {reconciliation.items.map((w) => (
+                <div key={w.walletId}>
+                  <b>{w.drift === 0 && w.reservedDrift === 0 ? "OK" : "Drift detected"}:</b> balance {w.balance} vs
+                  ledger {w.ledgerBalance} (drift {w.drift}, {w.ledgerEntries} entries) · reserved {w.reserved} vs
+                  held {w.heldTotal} (drift {w.reservedDrift})
+                </div>
+              ))}
+              {reconciliation.items.length === 0 ? <div>No wallet yet.</div> : null}
+              <div style={{ fontSize: 12, opacity: 0.7 }}>
+                Checked {new Date(reconciliation.checkedAt).toLocaleString()}
+              </div>
+            </div>
+          ) : null}
+
           <h3 style={{ marginTop: 16 }}>Recent ledger</h3>
           <div style={{ overflowX: "auto" }}>
             <table style={{ width: "100%", borderCollapse: "collapse" }}>
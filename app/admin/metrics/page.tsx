@@ -4,6 +4,16 @@ import { useEffect, useMemo, useState } from "react";
 import BillingPanel from "./BillingPanel";
 
 
+type Percentiles = { p50: number; p90: number; p95: number; p99: number };
+
+type UsageCounters = {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  credits: number;
+};
+
 type MetricsResponse =
   | {
       ok: true;
@@ -16,8 +26,13 @@ type MetricsResponse =
         status: Record<string, number>;
         rateLimited: number;
         avgLatencyMs: number;
+        latency: Percentiles & { byMode: Record<"coach" | "review" | "unknown", Percentiles> };
+        usage: UsageCounters & {
+          byMode: Record<"coach" | "review" | "unknown", UsageCounters>;
+          byModel: Array<UsageCounters & { model: string }>;
+        };
       };
-      series: Array<{
+      series: Array<Percentiles & {
         bucketSeconds: number;
         total: number;
         coach: number;
@@ -28,20 +43,65 @@ type MetricsResponse =
         status500: number;
         rateLimited: number;
         avgLatencyMs: number;
+        promptTokens: number;
+        completionTokens: number;
+        totalTokens: number;
+        credits: number;
       }>;
     }
   | { ok: false; error: string };
 
-function formatBucket(tsSeconds: number) {
-  // Local time label: HH:MM
+/** /api/admin/metrics/history (Postgres rollups). */
+type HistoryResponse =
+  | {
+      ok: true;
+      granularity: "hour" | "day";
+      totals: Extract<MetricsResponse, { ok: true }>["totals"];
+      series: Array<Omit<Extract<MetricsResponse, { ok: true }>["series"][number], "bucketSeconds"> & { bucketStart: string }>;
+    }
+  | { ok: false; error: string };
+
+type Range = "1h" | "24h" | "7d" | "30d";
+
+const RANGE_LABELS: Record<Range, string> = {
+  "1h": "last 60 minutes",
+  "24h": "last 24 hours",
+  "7d": "last 7 days",
+  "30d": "last 30 days",
+};
+
+function formatBucket(tsSeconds: number, range: Range) {
   const d = new Date(tsSeconds * 1000);
-  return d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  // Local time label: HH:MM (live), date + hour (hourly history), date (daily history)
+  if (range === "1h" || range === "24h") return d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  if (range === "7d") return d.toLocaleString([], { month: "short", day: "numeric", hour: "2-digit" });
+  return d.toLocaleDateString([], { month: "short", day: "numeric" });
+}
+
+/** The live hour comes from Redis; longer ranges from the rollup history (same row shape). */
+async function loadMetrics(range: Range): Promise<MetricsResponse> {
+  if (range === "1h") {
+    const res = await fetch("/api/admin/metrics", { cache: "no-store" });
+    return (await res.json()) as MetricsResponse;
+  }
+
+  const res = await fetch(`/api/admin/metrics/history?range=${range}`, { cache: "no-store" });
+  const json = (await res.json()) as HistoryResponse;
+  if (!json.ok) return json;
+
+  return {
+    ok: true,
+    windowMinutes: 0,
+    totals: json.totals,
+    series: json.series.map(({ bucketStart, ...row }) => ({ ...row, bucketSeconds: Date.parse(bucketStart) / 1000 })),
+  };
 }
 
 <BillingPanel/>
 export default function AdminMetricsPage() {
   const [data, setData] = useState<MetricsResponse | null>(null);
   const [loading, setLoading] = useState(true);
+  const [range, setRange] = useState<Range>("1h");
 
   useEffect(() => {
     let cancelled = false;
@@ -50,11 +110,7 @@ export default function AdminMetricsPage() {
       try {
         setLoading(true);
 
-        // IMPORTANT: this must match your route handler path
-        // app/api/admin/metrics/route.ts => /api/admin/metrics
-        const res = await fetch("/api/admin/metrics", { cache: "no-store" });
-        const json = (await res.json()) as MetricsResponse;
-
+        const json = await loadMetrics(range);
         if (!cancelled) setData(json);
       } catch {
         if (!cancelled) setData({ ok: false, error: "Failed to load metrics" });
@@ -66,13 +122,13 @@ export default function AdminMetricsPage() {
     return () => {
       cancelled = true;
     };
-  }, []);
+  }, [range]);
 
   const title = useMemo(() => {
     if (!data) return "Admin Metrics";
     if (!data.ok) return "Admin Metrics";
-    return `Admin Metrics (last ${data.windowMinutes} minutes)`;
-  }, [data]);
+    return `Admin Metrics (${RANGE_LABELS[range]})`;
+  }, [data, range]);
 
   return (
       <main
@@ -104,8 +160,28 @@ export default function AdminMetricsPage() {
         <BillingPanel/>
       </div>
 
-      <div style={{ marginTop: 12, color: "#444", fontSize: 13 }}>
-        Admin-only endpoint: <code>/api/admin/metrics</code>
+      <div style={{ marginTop: 12, display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+        {(Object.keys(RANGE_LABELS) as Range[]).map((r) => (
+          <button
+            key={r}
+            onClick={() => setRange(r)}
+            disabled={loading}
+            style={{
+              padding: "6px 10px",
+              borderRadius: 10,
+              border: "1px solid #111",
+              background: r === range ? "#111" : "#fff",
+              color: r === range ? "#fff" : "#111",
+              fontWeight: 800,
+              cursor: loading ? "not-allowed" : "pointer",
+            }}
+          >
+            {r}
+          </button>
+        ))}
+        <span style={{ color: "#444", fontSize: 13 }}>
+          Admin-only endpoint: <code>{range === "1h" ? "/api/admin/metrics" : `/api/admin/metrics/history?range=${range}`}</code>
+        </span>
       </div>
 
       {loading && <div style={{ marginTop: 16, fontSize: 13, color: "#444" }}>Loading…</div>}
@@ -150,6 +226,18 @@ export default function AdminMetricsPage() {
               <Stat label="Avg latency (ms)" value={data.totals.avgLatencyMs} />
             </div>
 
+            <div style={{ marginTop: 12, display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 10 }}>
+              <Stat label="p50 latency (ms)" value={data.totals.latency.p50} />
+              <Stat label="p90 latency (ms)" value={data.totals.latency.p90} />
+              <Stat label="p95 latency (ms)" value={data.totals.latency.p95} />
+              <Stat label="p99 latency (ms)" value={data.totals.latency.p99} />
+            </div>
+
+            <div style={{ marginTop: 12, display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 10 }}>
+              <Stat label="Coach p95 (ms)" value={data.totals.latency.byMode.coach.p95} />
+              <Stat label="Review p95 (ms)" value={data.totals.latency.byMode.review.p95} />
+            </div>
+
             <div style={{ marginTop: 12, display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 10 }}>
               <Stat label="Rate limited (429)" value={data.totals.rateLimited} />
               <Stat label="403 Forbidden" value={Number(data.totals.status["403"] ?? 0)} />
@@ -158,9 +246,85 @@ export default function AdminMetricsPage() {
             </div>
           </div>
 
+          {/* Usage */}
+          <div
+            style={{
+              marginTop: 16,
+              border: "1px solid #ddd",
+              borderRadius: 14,
+              padding: 14,
+              background: "#fff",
+            }}
+          >
+            <div style={{ fontSize: 14, fontWeight: 900, marginBottom: 10 }}>Tokens &amp; credits</div>
+
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 10 }}>
+              <Stat label="Credits charged" value={data.totals.usage.credits} />
+              <Stat label="Prompt tokens" value={data.totals.usage.promptTokens} />
+              <Stat label="Completion tokens" value={data.totals.usage.completionTokens} />
+              <Stat label="Total tokens" value={data.totals.usage.totalTokens} />
+            </div>
+
+            <div style={{ marginTop: 12, display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 10 }}>
+              <Stat label="Coach credits" value={data.totals.usage.byMode.coach.credits} />
+              <Stat label="Review credits" value={data.totals.usage.byMode.review.credits} />
+              <Stat label="Coach tokens" value={data.totals.usage.byMode.coach.totalTokens} />
+              <Stat label="Review tokens" value={data.totals.usage.byMode.review.totalTokens} />
+            </div>
+
+            {data.totals.usage.byModel.length > 0 && (
+              <div style={{ marginTop: 12, overflowX: "auto", border: "1px solid #eee", borderRadius: 12 }}>
+                <table style={{ width: "100%", borderCollapse: "collapse", background: "#fff" }}>
+                  <thead>
+                    <tr style={{ background: "#fafafa" }}>
+                      <Th>Model</Th>
+                      <Th>Requests</Th>
+                      <Th>Prompt</Th>
+                      <Th>Completion</Th>
+                      <Th>Credits</Th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.totals.usage.byModel.map((m) => (
+                      <tr key={m.model}>
+                        <Td>{m.model}</Td>
+                        <Td>{m.requests}</Td>
+                        <Td>{m.promptTokens}</Td>
+                        <Td>{m.completionTokens}</Td>
+                        <Td>{m.credits}</Td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Latency chart */}
+          <div
+            style={{
+              marginTop: 16,
+              border: "1px solid #ddd",
+              borderRadius: 14,
+              padding: 14,
+              background: "#fff",
+            }}
+          >
+            <div style={{ fontSize: 14, fontWeight: 900, marginBottom: 10 }}>Latency: average vs p95 (ms)</div>
+            <LatencyChart
+              points={data.series.map((row) => ({
+                label: formatBucket(row.bucketSeconds, range),
+                avg: row.avgLatencyMs,
+                p95: row.p95,
+              }))}
+            />
+          </div>
+
           {/* Series table */}
           <div style={{ marginTop: 16 }}>
-            <div style={{ fontSize: 14, fontWeight: 900, marginBottom: 10 }}>Series (5-min buckets)</div>
+            <div style={{ fontSize: 14, fontWeight: 900, marginBottom: 10 }}>
+              Series ({range === "1h" ? "5-min" : range === "30d" ? "daily" : "hourly"} buckets)
+            </div>
 
             <div style={{ overflowX: "auto", border: "1px solid #ddd", borderRadius: 14 }}>
               <table style={{ width: "100%", borderCollapse: "collapse", background: "#fff" }}>
@@ -175,12 +339,15 @@ export default function AdminMetricsPage() {
                     <Th>429</Th>
                     <Th>500</Th>
                     <Th>Avg ms</Th>
+                    <Th>p95 ms</Th>
+                    <Th>Tokens</Th>
+                    <Th>Credits</Th>
                   </tr>
                 </thead>
                 <tbody>
                   {data.series.map((row) => (
                     <tr key={row.bucketSeconds}>
-                      <Td>{formatBucket(row.bucketSeconds)}</Td>
+                      <Td>{formatBucket(row.bucketSeconds, range)}</Td>
                       <Td>{row.total}</Td>
                       <Td>{row.coach}</Td>
                       <Td>{row.review}</Td>
@@ -189,6 +356,9 @@ export default function AdminMetricsPage() {
                       <Td>{row.status429}</Td>
                       <Td>{row.status500}</Td>
                       <Td>{row.avgLatencyMs}</Td>
+                      <Td>{row.p95}</Td>
+                      <Td>{row.totalTokens}</Td>
+                      <Td>{row.credits}</Td>
                     </tr>
                   ))}
                 </tbody>
@@ -201,6 +371,36 @@ export default function AdminMetricsPage() {
   );
 }
 
+const CHART_W = 1000;
+const CHART_H = 180;
+
+/** Two lines over the series (no chart dependency): average in grey, p95 in red. */
+function LatencyChart({ points }: { points: { label: string; avg: number; p95: number }[] }) {
+  const max = Math.max(1, ...points.map((p) => Math.max(p.avg, p.p95)));
+  const x = (i: number) => (points.length > 1 ? (i / (points.length - 1)) * CHART_W : CHART_W / 2);
+  const y = (v: number) => CHART_H - (v / max) * (CHART_H - 10);
+  const line = (key: "avg" | "p95") => points.map((p, i) => `${x(i)},${y(p[key])}`).join(" ");
+
+  if (points.length === 0) return <div style={{ fontSize: 13, color: "#666" }}>No data.</div>;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} style={{ width: "100%", height: 180 }} preserveAspectRatio="none">
+        <polyline points={line("avg")} fill="none" stroke="#888" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        <polyline points={line("p95")} fill="none" stroke="#d33" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div style={{ display: "flex", justifyContent: "space-between", fontSize: 12, color: "#666" }}>
+        <span>{points[0].label}</span>
+        <span>
+          <span style={{ color: "#888", fontWeight: 800 }}>avg</span> ·{" "}
+          <span style={{ color: "#d33", fontWeight: 800 }}>p95</span> · max {max} ms
+        </span>
+        <span>{points[points.length - 1].label}</span>
+      </div>
+    </div>
+  );
+}
+
 function Stat({ label, value }: { label: string; value: number }) {
   return (
     <div style={{ border: "1px solid #eee", borderRadius: 12, padding: 12, background: "#fafafa" }}>
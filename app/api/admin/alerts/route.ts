@@ -0,0 +1,88 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+
+import { requirePermission } from "@/lib/auth/permissions";
+import { log } from "@/lib/logger";
+import {
+  checkBalanceAlerts,
+  getAlertSettings,
+  parseAlertSettings,
+  updateAlertSettings,
+} from "@/lib/billing/balanceAlerts";
+import { traced } from "@/lib/telemetry/tracing";
+
+function headers(requestId: string) {
+  return { "X-Request-Id": requestId };
+}
+
+/** GET /api/admin/alerts — low-balance rules + delivery targets of the active org. */
+export const GET = traced("GET /api/admin/alerts", async (req: Request) => {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  try {
+    const access = await requirePermission(req, "billing:read", { requireOrg: true });
+    if (!access.ok) {
+      return NextResponse.json({ ok: false, error: access.error }, { status: access.status, headers: headers(requestId) });
+    }
+
+    const settings = await getAlertSettings(access.organizationId);
+    return NextResponse.json({ ok: true, ...settings }, { status: 200, headers: headers(requestId) });
+  } catch (e: unknown) {
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "admin_error", error: errMsg, meta: { path: "/api/admin/alerts" } });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+});
+
+/**
+ * PUT /api/admin/alerts { rules: [{ kind: "absolute"|"percent", threshold }], webhookUrl, emails }
+ * Replaces the settings, then evaluates them against the current balance right away.
+ */
+export const PUT = traced("PUT /api/admin/alerts", async (req: Request) => {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  try {
+    const access = await requirePermission(req, "billing:manage", { requireOrg: true });
+    if (!access.ok) {
+      return NextResponse.json({ ok: false, error: access.error }, { status: access.status, headers: headers(requestId) });
+    }
+
+    const parsed = parseAlertSettings(await req.json().catch(() => null));
+    if (!parsed.ok) {
+      return NextResponse.json({ ok: false, error: parsed.error }, { status: 400, headers: headers(requestId) });
+    }
+
+    await updateAlertSettings(access.organizationId, parsed.settings);
+    const check = await checkBalanceAlerts(access.organizationId);
+    const settings = await getAlertSettings(access.organizationId);
+
+    log("info", {
+      requestId,
+      event: "alert_settings_updated",
+      userId: access.auth0Sub,
+      meta: {
+        rules: parsed.settings.rules.length,
+        webhook: Boolean(parsed.settings.webhookUrl),
+        emails: parsed.settings.emails.length,
+        fired: check.fired,
+      },
+    });
+
+    return NextResponse.json({ ok: true, ...settings, check }, { status: 200, headers: headers(requestId) });
+  } catch (e: unknown) {
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "admin_error", error: errMsg, meta: { path: "/api/admin/alerts" } });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+});
@@ -0,0 +1,104 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+
+import { requirePermission } from "@/lib/auth/permissions";
+import { log } from "@/lib/logger";
+import { CREDIT_PACKS } from "@/lib/billing/plans";
+import { CheckoutError, startCheckout } from "@/lib/billing/payments";
+import { PaymentProviderError } from "@/lib/payments/provider";
+import { traced } from "@/lib/telemetry/tracing";
+
+function headers(requestId: string) {
+  return { "X-Request-Id": requestId };
+}
+
+type Body = {
+  kind?: "credits" | "subscription";
+  code?: string; // credit pack code or plan code
+};
+
+/** GET /api/admin/billing/checkout — credit packs that can be bought. */
+export const GET = traced("GET /api/admin/billing/checkout", async (req: Request) => {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  try {
+    const access = await requirePermission(req, "billing:read", { requireOrg: true });
+    if (!access.ok) {
+      return NextResponse.json({ ok: false, error: access.error }, { status: access.status, headers: headers(requestId) });
+    }
+
+    return NextResponse.json({ ok: true, creditPacks: CREDIT_PACKS }, { status: 200, headers: headers(requestId) });
+  } catch (e: unknown) {
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "admin_error", error: errMsg, meta: { path: "/api/admin/billing/checkout" } });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+});
+
+/**
+ * POST /api/admin/billing/checkout { kind: "credits" | "subscription", code }
+ * Returns the provider's hosted checkout URL; credits/subscription change once its webhook arrives.
+ */
+export const POST = traced("POST /api/admin/billing/checkout", async (req: Request) => {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  try {
+    const access = await requirePermission(req, "billing:manage", { requireOrg: true });
+    if (!access.ok) {
+      return NextResponse.json({ ok: false, error: access.error }, { status: access.status, headers: headers(requestId) });
+    }
+
+    const body = (await req.json().catch(() => null)) as Body | null;
+    if ((body?.kind !== "credits" && body?.kind !== "subscription") || typeof body.code !== "string" || !body.code) {
+      return NextResponse.json(
+        { ok: false, error: 'kind ("credits" | "subscription") and code are required' },
+        { status: 400, headers: headers(requestId) }
+      );
+    }
+
+    const checkout = await startCheckout({
+      organizationId: access.organizationId,
+      kind: body.kind,
+      code: body.code,
+      baseUrl: process.env.APP_BASE_URL || new URL(req.url).origin,
+      requestId,
+    });
+
+    log("info", {
+      requestId,
+      event: "checkout_started",
+      userId: access.auth0Sub,
+      meta: { kind: body.kind, code: body.code, sessionId: checkout.sessionId },
+    });
+
+    return NextResponse.json({ ok: true, ...checkout }, { status: 200, headers: headers(requestId) });
+  } catch (e: unknown) {
+    if (e instanceof CheckoutError) {
+      return NextResponse.json(
+        { ok: false, error: e.message, code: e.code },
+        { status: e.code === "unknown_item" ? 400 : 409, headers: headers(requestId) }
+      );
+    }
+    if (e instanceof PaymentProviderError) {
+      log("error", { requestId, event: "admin_error", error: e.message, meta: { path: "/api/admin/billing/checkout" } });
+      return NextResponse.json(
+        { ok: false, error: e.code === "not_configured" ? "Payments are not configured" : "Payment provider error" },
+        { status: e.code === "not_configured" ? 503 : 502, headers: headers(requestId) }
+      );
+    }
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "admin_error", error: errMsg, meta: { path: "/api/admin/billing/checkout" } });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+});
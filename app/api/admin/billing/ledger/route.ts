@@ -0,0 +1,83 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+
+import { requirePermission } from "@/lib/auth/permissions";
+import { log } from "@/lib/logger";
+import { ledgerCsv, listLedger } from "@/lib/billing/ledger";
+import { traced } from "@/lib/telemetry/tracing";
+
+function headers(requestId: string) {
+  return { "X-Request-Id": requestId };
+}
+
+function parseDate(v: string | null) {
+  if (!v) return undefined;
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+/**
+ * GET /api/admin/billing/ledger?format=json|csv&from=&to=&reason=&userId=&cursor=&limit=
+ * - json (default): one page (newest first) + totals for the whole filtered range
+ * - csv: every matching row, streamed as a download
+ * - from/to: ISO dates (to is exclusive); reason: e.g. chat_usage, monthly_topup, admin_adjust
+ */
+export const GET = traced("GET /api/admin/billing/ledger", async (req: Request) => {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  try {
+    const access = await requirePermission(req, "billing:read", { requireOrg: true });
+    if (!access.ok) {
+      return NextResponse.json({ ok: false, error: access.error }, { status: access.status, headers: headers(requestId) });
+    }
+
+    const url = new URL(req.url);
+    const format = url.searchParams.get("format") === "csv" ? "csv" : "json";
+
+    const from = parseDate(url.searchParams.get("from"));
+    const to = parseDate(url.searchParams.get("to"));
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid from/to (expected ISO date)" },
+        { status: 400, headers: headers(requestId) }
+      );
+    }
+
+    const filter = {
+      organizationId: access.organizationId,
+      from,
+      to,
+      reason: url.searchParams.get("reason") || undefined,
+      auth0Sub: url.searchParams.get("userId") || undefined,
+    };
+
+    if (format === "csv") {
+      const filename = `ledger-${access.organizationId}-${new Date().toISOString().slice(0, 10)}.csv`;
+      return new Response(ledgerCsv(filter), {
+        status: 200,
+        headers: {
+          ...headers(requestId),
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    const limit = Math.min(Math.max(Number(url.searchParams.get("limit") ?? 100) || 100, 1), 1000);
+    const result = await listLedger({ ...filter, cursor: url.searchParams.get("cursor"), limit });
+
+    return NextResponse.json({ ok: true, ...result }, { status: 200, headers: headers(requestId) });
+  } catch (e: unknown) {
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "admin_error", error: errMsg, meta: { path: "/api/admin/billing/ledger" } });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+});
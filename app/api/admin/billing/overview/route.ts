@@ -4,56 +4,62 @@ export const dynamic = "force-dynamic";
 import { NextResponse } from "next/server";
 import { randomUUID } from "crypto";
 
-import { auth0 } from "@/lib/auth0";
-import { isAdminFromAccessToken } from "@/lib/auth/rbac";
+import { requirePermission } from "@/lib/auth/permissions";
 import { prisma } from "@/lib/prisma";
 import { log } from "@/lib/logger";
+import { sweepStaleHolds } from "@/lib/billing/creditHolds";
+import { traced } from "@/lib/telemetry/tracing";
 
 function headers(requestId: string) {
   return { "X-Request-Id": requestId };
 }
 
-export async function GET(req: Request) {
+export const GET = traced("GET /api/admin/billing/overview", async (req: Request) => {
   const inbound = req.headers.get("x-request-id");
   const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
 
   try {
-    const session = await auth0.getSession();
-    if (!session?.user?.sub) {
-      return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401, headers: headers(requestId) });
+    // billing:read in the active org (header/cookie, validated against membership)
+    const access = await requirePermission(req, "billing:read");
+    if (!access.ok) {
+      return NextResponse.json({ ok: false, error: access.error }, { status: access.status, headers: headers(requestId) });
     }
 
-    const isAdmin = await isAdminFromAccessToken();
-    if (!isAdmin) {
-      return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403, headers: headers(requestId) });
-    }
-
-    const auth0Sub = session.user.sub as string;
-
-    // Find org for this admin (MVP: single org membership)
-    const member = await prisma.orgMember.findFirst({
-      where: { auth0Sub },
-      select: { organizationId: true, role: true },
-    });
+    const organizationId = access.organizationId;
 
-    if (!member) {
+    if (!organizationId) {
       return NextResponse.json(
         { ok: true, organization: null, wallet: null, subscription: null, membersCount: 0, ledger: [] },
         { status: 200, headers: headers(requestId) }
       );
     }
 
+    await sweepStaleHolds(organizationId);
+
     const [org, wallet, subscription, membersCount, ledger] = await Promise.all([
       prisma.organization.findUnique({
-        where: { id: member.organizationId },
+        where: { id: organizationId },
         select: { id: true, name: true, createdAt: true },
       }),
       prisma.creditWallet.findUnique({
-        where: { organizationId_currency: { organizationId: member.organizationId, currency: "credits" } },
-        select: { id: true, balance: true, currency: true, updatedAt: true, createdAt: true },
+        where: { organizationId_currency: { organizationId, currency: "credits" } },
+        select: {
+          id: true,
+          balance: true,
+          reserved: true,
+          currency: true,
+          updatedAt: true,
+          createdAt: true,
+          holds: {
+            where: { status: "held" },
+            orderBy: { createdAt: "desc" },
+            take: 20,
+            select: { id: true, amount: true, auth0Sub: true, requestId: true, expiresAt: true, createdAt: true },
+          },
+        },
       }),
       prisma.subscription.findFirst({
-        where: { organizationId: member.organizationId },
+        where: { organizationId },
         orderBy: { createdAt: "desc" },
         select: {
           id: true,
@@ -66,9 +72,9 @@ export async function GET(req: Request) {
           createdAt: true,
         },
       }),
-      prisma.orgMember.count({ where: { organizationId: member.organizationId } }),
+      prisma.orgMember.count({ where: { organizationId } }),
       prisma.creditLedger.findMany({
-        where: { wallet: { organizationId: member.organizationId } },
+        where: { wallet: { organizationId } },
         orderBy: { createdAt: "desc" },
         take: 50,
         select: {
@@ -77,6 +83,9 @@ export async function GET(req: Request) {
           reason: true,
           auth0Sub: true,
           requestId: true,
+          model: true,
+          promptTokens: true,
+          completionTokens: true,
           createdAt: true,
         },
       }),
@@ -86,20 +95,20 @@ export async function GET(req: Request) {
       {
         ok: true,
         organization: org,
-        wallet,
+        wallet: wallet ? { ...wallet, available: wallet.balance - wallet.reserved } : null,
         subscription,
         membersCount,
-        role: member.role,
+        role: access.orgRole,
         ledger,
       },
       { status: 200, headers: headers(requestId) }
     );
   } catch (e: unknown) {
     const errMsg = e instanceof Error ? e.message : "Unknown error";
-    log("error", { requestId, event: "chat_error", error: errMsg });
+    log("error", { requestId, event: "admin_error", error: errMsg, meta: { path: "/api/admin/billing/overview" } });
     return NextResponse.json(
       { ok: false, error: "Server error", details: errMsg },
       { status: 500, headers: headers(requestId) }
     );
   }
-}
+});
@@ -0,0 +1,116 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+
+import { requirePermission } from "@/lib/auth/permissions";
+import { prisma } from "@/lib/prisma";
+import { log } from "@/lib/logger";
+import { PLANS } from "@/lib/billing/plans";
+import { scheduleBalanceAlertCheck } from "@/lib/billing/balanceAlerts";
+import {
+  activePlanForOrg,
+  changePlan,
+  PlanChangeError,
+  planChangeErrorStatus,
+  previewPlanChange,
+} from "@/lib/billing/planChange";
+import { traced } from "@/lib/telemetry/tracing";
+
+function headers(requestId: string) {
+  return { "X-Request-Id": requestId };
+}
+
+type Body = {
+  planCode: string;
+};
+
+/** Plan catalog + the org's current plan; `?preview=<planCode>` adds the proration preview. */
+export const GET = traced("GET /api/admin/billing/plans", async (req: Request) => {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  try {
+    const access = await requirePermission(req, "billing:read", { requireOrg: true });
+    if (!access.ok) {
+      return NextResponse.json({ ok: false, error: access.error }, { status: access.status, headers: headers(requestId) });
+    }
+
+    const previewCode = new URL(req.url).searchParams.get("preview");
+
+    const [current, preview] = await Promise.all([
+      activePlanForOrg(prisma, access.organizationId),
+      previewCode ? previewPlanChange({ organizationId: access.organizationId, planCode: previewCode }) : null,
+    ]);
+
+    return NextResponse.json(
+      { ok: true, plans: PLANS, currentPlanCode: current.code, preview },
+      { status: 200, headers: headers(requestId) }
+    );
+  } catch (e: unknown) {
+    if (e instanceof PlanChangeError) {
+      return NextResponse.json(
+        { ok: false, error: e.message, code: e.code },
+        { status: planChangeErrorStatus(e), headers: headers(requestId) }
+      );
+    }
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "admin_error", error: errMsg });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+});
+
+/**
+ * Change plan now (mid-period); the prorated credit delta is posted to the ledger.
+ * Paid upgrades need checkout (POST /api/admin/billing/checkout) unless the caller has billing:topup.
+ */
+export const POST = traced("POST /api/admin/billing/plans", async (req: Request) => {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  try {
+    const access = await requirePermission(req, "billing:manage", { requireOrg: true });
+    if (!access.ok) {
+      return NextResponse.json({ ok: false, error: access.error }, { status: access.status, headers: headers(requestId) });
+    }
+
+    const body = (await req.json().catch(() => null)) as Body | null;
+    if (typeof body?.planCode !== "string" || !body.planCode) {
+      return NextResponse.json({ ok: false, error: "planCode is required" }, { status: 400, headers: headers(requestId) });
+    }
+
+    const change = await changePlan({
+      organizationId: access.organizationId,
+      planCode: body.planCode,
+      auth0Sub: access.auth0Sub,
+      allowUnpaidUpgrade: access.permissions.includes("billing:topup"),
+    });
+
+    log("info", {
+      requestId,
+      event: "plan_changed",
+      userId: access.auth0Sub,
+      meta: { from: change.fromPlan, to: change.toPlan, creditDelta: change.creditDelta },
+    });
+    scheduleBalanceAlertCheck(access.organizationId, requestId);
+
+    return NextResponse.json({ ok: true, change }, { status: 200, headers: headers(requestId) });
+  } catch (e: unknown) {
+    if (e instanceof PlanChangeError) {
+      return NextResponse.json(
+        { ok: false, error: e.message, code: e.code },
+        { status: planChangeErrorStatus(e), headers: headers(requestId) }
+      );
+    }
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "admin_error", error: errMsg });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+});
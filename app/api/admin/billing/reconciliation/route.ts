@@ -0,0 +1,64 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+
+import { requirePermission } from "@/lib/auth/permissions";
+import { log } from "@/lib/logger";
+import { reconcileWallets } from "@/lib/billing/ledger";
+import { traced } from "@/lib/telemetry/tracing";
+
+function headers(requestId: string) {
+  return { "X-Request-Id": requestId };
+}
+
+/**
+ * GET /api/admin/billing/reconciliation?scope=org|all
+ * - org (default): the active org's wallet (billing:read)
+ * - all: every wallet (billing:audit, platform admins)
+ */
+export const GET = traced("GET /api/admin/billing/reconciliation", async (req: Request) => {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  try {
+    const scope = new URL(req.url).searchParams.get("scope") === "all" ? "all" : "org";
+
+    const access =
+      scope === "all"
+        ? await requirePermission(req, "billing:audit")
+        : await requirePermission(req, "billing:read", { requireOrg: true });
+    if (!access.ok) {
+      return NextResponse.json({ ok: false, error: access.error }, { status: access.status, headers: headers(requestId) });
+    }
+
+    const report = await reconcileWallets({
+      organizationId: scope === "org" ? (access.organizationId ?? undefined) : undefined,
+    });
+
+    if (report.drifted > 0) {
+      log("warn", {
+        requestId,
+        event: "ledger_drift",
+        userId: access.auth0Sub,
+        meta: {
+          scope,
+          drifted: report.items
+            .filter((i) => i.drift !== 0 || i.reservedDrift !== 0)
+            .slice(0, 20)
+            .map((i) => ({ walletId: i.walletId, drift: i.drift, reservedDrift: i.reservedDrift })),
+        },
+      });
+    }
+
+    return NextResponse.json({ ok: true, scope, ...report }, { status: 200, headers: headers(requestId) });
+  } catch (e: unknown) {
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "admin_error", error: errMsg, meta: { path: "/api/admin/billing/reconciliation" } });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+});
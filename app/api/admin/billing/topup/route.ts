@@ -4,11 +4,12 @@ export const dynamic = "force-dynamic";
 import { NextResponse } from "next/server";
 import { randomUUID } from "crypto";
 
-import { auth0 } from "@/lib/auth0";
-import { isAdminFromAccessToken } from "@/lib/auth/rbac";
+import { requirePermission } from "@/lib/auth/permissions";
 import { prisma } from "@/lib/prisma";
 import { log } from "@/lib/logger";
 import { Prisma } from "@/generated/prisma/client";
+import { scheduleBalanceAlertCheck } from "@/lib/billing/balanceAlerts";
+import { traced } from "@/lib/telemetry/tracing";
 
 function headers(requestId: string) {
   return { "X-Request-Id": requestId };
@@ -16,26 +17,21 @@ function headers(requestId: string) {
 
 type Body = {
   amount: number;              // required, positive integer
-  organizationId?: string;     // optional, defaults to admin’s org
+  organizationId?: string;     // optional, defaults to admin’s active org
   note?: string;               // optional, stored in reason suffix
 };
 
-export async function POST(req: Request) {
+export const POST = traced("POST /api/admin/billing/topup", async (req: Request) => {
   const inbound = req.headers.get("x-request-id");
   const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
 
   try {
-    const session = await auth0.getSession();
-    if (!session?.user?.sub) {
-      return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401, headers: headers(requestId) });
+    const access = await requirePermission(req, "billing:topup");
+    if (!access.ok) {
+      return NextResponse.json({ ok: false, error: access.error }, { status: access.status, headers: headers(requestId) });
     }
 
-    const isAdmin = await isAdminFromAccessToken();
-    if (!isAdmin) {
-      return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403, headers: headers(requestId) });
-    }
-
-    const auth0Sub = session.user.sub as string;
+    const auth0Sub = access.auth0Sub;
 
     const body = (await req.json()) as Body;
     const amountRaw = body?.amount;
@@ -59,17 +55,13 @@ export async function POST(req: Request) {
     let organizationId = body?.organizationId;
 
     if (!organizationId) {
-      const member = await prisma.orgMember.findFirst({
-        where: { auth0Sub },
-        select: { organizationId: true },
-      });
-      if (!member) {
+      if (!access.organizationId) {
         return NextResponse.json(
           { ok: false, error: "Admin has no organization" },
           { status: 400, headers: headers(requestId) }
         );
       }
-      organizationId = member.organizationId;
+      organizationId = access.organizationId;
     }
 
     const reason = body?.note?.trim()
@@ -107,16 +99,18 @@ const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) =>
       return { walletId: wallet.id, balance: updated.balance };
     });
 
+    scheduleBalanceAlertCheck(organizationId, requestId);
+
     return NextResponse.json(
       { ok: true, organizationId, amount, balance: result.balance },
       { status: 200, headers: headers(requestId) }
     );
   } catch (e: unknown) {
     const errMsg = e instanceof Error ? e.message : "Unknown error";
-    log("error", { requestId, event: "chat_error", error: errMsg });
+    log("error", { requestId, event: "admin_error", error: errMsg, meta: { path: "/api/admin/billing/topup" } });
     return NextResponse.json(
       { ok: false, error: "Server error", details: errMsg },
       { status: 500, headers: headers(requestId) }
     );
   }
-}
+});
@@ -0,0 +1,55 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+
+import { requirePermission } from "@/lib/auth/permissions";
+import { log } from "@/lib/logger";
+import { revokeInvitation } from "@/lib/org/invitations";
+import { MembershipError, membershipErrorStatus } from "@/lib/org/members";
+import { traced } from "@/lib/telemetry/tracing";
+
+function headers(requestId: string) {
+  return { "X-Request-Id": requestId };
+}
+
+type Ctx = { params: Promise<{ invitationId: string }> };
+
+/** Revoke a pending invitation (frees its seat). */
+export const DELETE = traced("DELETE /api/admin/invitations/[invitationId]", async (req: Request, ctx: Ctx) => {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  try {
+    const access = await requirePermission(req, "members:manage", { requireOrg: true });
+    if (!access.ok) {
+      return NextResponse.json({ ok: false, error: access.error }, { status: access.status, headers: headers(requestId) });
+    }
+
+    const { invitationId } = await ctx.params;
+    await revokeInvitation({ organizationId: access.organizationId, invitationId });
+
+    log("info", {
+      requestId,
+      event: "org_member_changed",
+      userId: access.auth0Sub,
+      meta: { invitationId, revoked: true },
+    });
+
+    return NextResponse.json({ ok: true }, { status: 200, headers: headers(requestId) });
+  } catch (e: unknown) {
+    if (e instanceof MembershipError) {
+      return NextResponse.json(
+        { ok: false, error: e.message, code: e.code },
+        { status: membershipErrorStatus(e), headers: headers(requestId) }
+      );
+    }
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "admin_error", error: errMsg });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+});
@@ -0,0 +1,85 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+
+import { requirePermission } from "@/lib/auth/permissions";
+import { log } from "@/lib/logger";
+import { createInvitation, invitationPath, isValidEmail, normalizeEmail } from "@/lib/org/invitations";
+import { isOrgRole, ORG_ROLES, SeatLimitError } from "@/lib/org/members";
+import { traced } from "@/lib/telemetry/tracing";
+
+function headers(requestId: string) {
+  return { "X-Request-Id": requestId };
+}
+
+type Body = {
+  email: string;
+  role?: string; // default "member"
+};
+
+/**
+ * Invite by email. There is no mail delivery yet, so the response carries the
+ * single-use accept link for the admin to share (it is not retrievable later).
+ */
+export const POST = traced("POST /api/admin/invitations", async (req: Request) => {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  try {
+    const access = await requirePermission(req, "members:manage", { requireOrg: true });
+    if (!access.ok) {
+      return NextResponse.json({ ok: false, error: access.error }, { status: access.status, headers: headers(requestId) });
+    }
+
+    const body = (await req.json().catch(() => null)) as Body | null;
+
+    const email = typeof body?.email === "string" ? normalizeEmail(body.email) : "";
+    if (!isValidEmail(email)) {
+      return NextResponse.json({ ok: false, error: "Invalid email" }, { status: 400, headers: headers(requestId) });
+    }
+
+    const role = body?.role ?? "member";
+    if (!isOrgRole(role)) {
+      return NextResponse.json(
+        { ok: false, error: `Invalid role (one of: ${ORG_ROLES.join(", ")})` },
+        { status: 400, headers: headers(requestId) }
+      );
+    }
+
+    const { invitation, token } = await createInvitation({
+      organizationId: access.organizationId,
+      email,
+      role,
+      invitedBy: access.auth0Sub,
+    });
+
+    const origin = process.env.APP_BASE_URL ?? new URL(req.url).origin;
+
+    log("info", {
+      requestId,
+      event: "org_member_changed",
+      userId: access.auth0Sub,
+      meta: { invitationId: invitation.id, role, invited: true },
+    });
+
+    return NextResponse.json(
+      { ok: true, invitation, acceptUrl: new URL(invitationPath(token), origin).toString() },
+      { status: 201, headers: headers(requestId) }
+    );
+  } catch (e: unknown) {
+    if (e instanceof SeatLimitError) {
+      return NextResponse.json(
+        { ok: false, error: e.message, seats: e.seats },
+        { status: 409, headers: headers(requestId) }
+      );
+    }
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "admin_error", error: errMsg });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+});
@@ -0,0 +1,134 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+
+import { requirePermission } from "@/lib/auth/permissions";
+import { log } from "@/lib/logger";
+import {
+  isOrgRole,
+  MembershipError,
+  membershipErrorStatus,
+  ORG_ROLES,
+  removeMember,
+  updateMember,
+} from "@/lib/org/members";
+import { MEMBER_BUDGET_MAX, parseBudget } from "@/lib/billing/memberBudgets";
+import { traced } from "@/lib/telemetry/tracing";
+
+function headers(requestId: string) {
+  return { "X-Request-Id": requestId };
+}
+
+type Ctx = { params: Promise<{ memberId: string }> };
+
+type Body = {
+  role?: string; // "admin" | "member"
+  creditBudget?: number | null; // per-period cap; null = org default
+};
+
+export const PATCH = traced("PATCH /api/admin/members/[memberId]", async (req: Request, ctx: Ctx) => {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  try {
+    const access = await requirePermission(req, "members:manage", { requireOrg: true });
+    if (!access.ok) {
+      return NextResponse.json({ ok: false, error: access.error }, { status: access.status, headers: headers(requestId) });
+    }
+
+    const { memberId } = await ctx.params;
+    const body = (await req.json().catch(() => null)) as Body | null;
+
+    const hasRole = body?.role !== undefined;
+    const hasBudget = body?.creditBudget !== undefined;
+    if (!body || (!hasRole && !hasBudget)) {
+      return NextResponse.json(
+        { ok: false, error: "Nothing to update (role and/or creditBudget)" },
+        { status: 400, headers: headers(requestId) }
+      );
+    }
+
+    if (hasRole && !isOrgRole(body.role)) {
+      return NextResponse.json(
+        { ok: false, error: `Invalid role (one of: ${ORG_ROLES.join(", ")})` },
+        { status: 400, headers: headers(requestId) }
+      );
+    }
+
+    const creditBudget = hasBudget ? parseBudget(body.creditBudget) : null;
+    if (creditBudget === undefined) {
+      return NextResponse.json(
+        { ok: false, error: `Invalid creditBudget (integer 0-${MEMBER_BUDGET_MAX}, or null for the org default)` },
+        { status: 400, headers: headers(requestId) }
+      );
+    }
+
+    const member = await updateMember({
+      organizationId: access.organizationId,
+      memberId,
+      ...(isOrgRole(body.role) ? { role: body.role } : {}),
+      ...(hasBudget ? { creditBudget } : {}),
+    });
+
+    log("info", {
+      requestId,
+      event: "org_member_changed",
+      userId: access.auth0Sub,
+      meta: { memberId, ...(hasRole ? { role: member.role } : {}), ...(hasBudget ? { creditBudget } : {}) },
+    });
+
+    return NextResponse.json({ ok: true, member }, { status: 200, headers: headers(requestId) });
+  } catch (e: unknown) {
+    if (e instanceof MembershipError) {
+      return NextResponse.json(
+        { ok: false, error: e.message, code: e.code },
+        { status: membershipErrorStatus(e), headers: headers(requestId) }
+      );
+    }
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "admin_error", error: errMsg });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+});
+
+export const DELETE = traced("DELETE /api/admin/members/[memberId]", async (req: Request, ctx: Ctx) => {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  try {
+    const access = await requirePermission(req, "members:manage", { requireOrg: true });
+    if (!access.ok) {
+      return NextResponse.json({ ok: false, error: access.error }, { status: access.status, headers: headers(requestId) });
+    }
+
+    const { memberId } = await ctx.params;
+    const removed = await removeMember({ organizationId: access.organizationId, memberId });
+
+    log("info", {
+      requestId,
+      event: "org_member_changed",
+      userId: access.auth0Sub,
+      meta: { memberId, removed: removed.auth0Sub },
+    });
+
+    return NextResponse.json({ ok: true }, { status: 200, headers: headers(requestId) });
+  } catch (e: unknown) {
+    if (e instanceof MembershipError) {
+      return NextResponse.json(
+        { ok: false, error: e.message, code: e.code },
+        { status: membershipErrorStatus(e), headers: headers(requestId) }
+      );
+    }
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "admin_error", error: errMsg });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+});
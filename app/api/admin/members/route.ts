@@ -0,0 +1,109 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+
+import { requirePermission } from "@/lib/auth/permissions";
+import { prisma } from "@/lib/prisma";
+import { log } from "@/lib/logger";
+import { listMembers, seatUsage } from "@/lib/org/members";
+import { listPendingInvitations } from "@/lib/org/invitations";
+import { MEMBER_BUDGET_MAX, memberBudgetUsage, parseBudget, setDefaultMemberBudget } from "@/lib/billing/memberBudgets";
+import { traced } from "@/lib/telemetry/tracing";
+
+function headers(requestId: string) {
+  return { "X-Request-Id": requestId };
+}
+
+type Body = {
+  defaultMemberBudget: number | null; // credits per member per period; null = unlimited
+};
+
+/** Members (with budget usage this period), pending invitations and seat usage for the admin's org. */
+export const GET = traced("GET /api/admin/members", async (req: Request) => {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  try {
+    const access = await requirePermission(req, "members:manage", { requireOrg: true });
+    if (!access.ok) {
+      return NextResponse.json({ ok: false, error: access.error }, { status: access.status, headers: headers(requestId) });
+    }
+
+    const [members, invitations, seats, usage, org] = await Promise.all([
+      listMembers(access.organizationId),
+      listPendingInvitations(access.organizationId),
+      seatUsage(prisma, access.organizationId),
+      memberBudgetUsage(access.organizationId),
+      prisma.organization.findUniqueOrThrow({
+        where: { id: access.organizationId },
+        select: { defaultMemberBudget: true },
+      }),
+    ]);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        organizationId: access.organizationId,
+        defaultMemberBudget: org.defaultMemberBudget,
+        budgetPeriod: usage.period,
+        members: members.map((m) => ({
+          ...m,
+          creditsUsed: usage.usedBySub.get(m.auth0Sub) ?? 0,
+          effectiveBudget: m.creditBudget ?? org.defaultMemberBudget,
+        })),
+        invitations,
+        seats,
+      },
+      { status: 200, headers: headers(requestId) }
+    );
+  } catch (e: unknown) {
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "admin_error", error: errMsg });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+});
+
+/** Org-wide default budget (applies to members without their own creditBudget). */
+export const PATCH = traced("PATCH /api/admin/members", async (req: Request) => {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  try {
+    const access = await requirePermission(req, "members:manage", { requireOrg: true });
+    if (!access.ok) {
+      return NextResponse.json({ ok: false, error: access.error }, { status: access.status, headers: headers(requestId) });
+    }
+
+    const body = (await req.json().catch(() => null)) as Body | null;
+    const budget = parseBudget(body?.defaultMemberBudget);
+    if (budget === undefined) {
+      return NextResponse.json(
+        { ok: false, error: `Invalid defaultMemberBudget (integer 0-${MEMBER_BUDGET_MAX}, or null for unlimited)` },
+        { status: 400, headers: headers(requestId) }
+      );
+    }
+
+    const org = await setDefaultMemberBudget({ organizationId: access.organizationId, budget });
+
+    log("info", {
+      requestId,
+      event: "org_member_changed",
+      userId: access.auth0Sub,
+      meta: { defaultMemberBudget: org.defaultMemberBudget },
+    });
+
+    return NextResponse.json({ ok: true, ...org }, { status: 200, headers: headers(requestId) });
+  } catch (e: unknown) {
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "admin_error", error: errMsg });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+});
@@ -0,0 +1,97 @@
+// app/api/admin/metrics/history/route.ts
+/**
+ * Metrics history from the Postgres rollups (lib/metrics/rollup.ts).
+ *
+ * GET /api/admin/metrics/history?range=24h|7d|30d
+ * GET /api/admin/metrics/history?from=<ISO>&to=<ISO>&granularity=hour|day
+ * - range presets: 24h → hourly, 7d → hourly, 30d → daily (granularity can still override)
+ * - at most MAX_HISTORY_POINTS buckets per request
+ * The current hour lags by up to one rollup run (15 minutes); /api/admin/metrics has the live hour.
+ */
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+
+import { requirePermission } from "@/lib/auth/permissions";
+import { log } from "@/lib/logger";
+import { MAX_HISTORY_POINTS, historyPoints, readMetricsHistory, type MetricGranularity } from "@/lib/metrics/rollup";
+import { traced } from "@/lib/telemetry/tracing";
+
+function headers(requestId: string) {
+  return { "X-Request-Id": requestId };
+}
+
+const RANGES: Record<string, { ms: number; granularity: MetricGranularity }> = {
+  "24h": { ms: 24 * 60 * 60 * 1000, granularity: "hour" },
+  "7d": { ms: 7 * 24 * 60 * 60 * 1000, granularity: "hour" },
+  "30d": { ms: 30 * 24 * 60 * 60 * 1000, granularity: "day" },
+};
+
+function parseDate(v: string | null) {
+  if (!v) return undefined;
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+export const GET = traced("GET /api/admin/metrics/history", async (req: Request) => {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  try {
+    const access = await requirePermission(req, "metrics:read");
+    if (!access.ok) {
+      return NextResponse.json({ ok: false, error: access.error }, { status: access.status, headers: headers(requestId) });
+    }
+
+    const url = new URL(req.url);
+    const rangeParam = url.searchParams.get("range");
+    const granularityParam = url.searchParams.get("granularity");
+
+    const preset = rangeParam ? RANGES[rangeParam] : undefined;
+    if (rangeParam && !preset) {
+      return NextResponse.json(
+        { ok: false, error: `Invalid range (${Object.keys(RANGES).join(", ")})` },
+        { status: 400, headers: headers(requestId) }
+      );
+    }
+    if (granularityParam && granularityParam !== "hour" && granularityParam !== "day") {
+      return NextResponse.json({ ok: false, error: "Invalid granularity (hour, day)" }, { status: 400, headers: headers(requestId) });
+    }
+
+    const from = parseDate(url.searchParams.get("from"));
+    const to = parseDate(url.searchParams.get("to"));
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid from/to (expected ISO date)" },
+        { status: 400, headers: headers(requestId) }
+      );
+    }
+
+    const end = to ?? new Date();
+    const start = from ?? new Date(end.getTime() - (preset ?? RANGES["24h"]).ms);
+    const granularity = (granularityParam as MetricGranularity | null) ?? preset?.granularity ?? "hour";
+
+    if (start >= end) {
+      return NextResponse.json({ ok: false, error: "from must be before to" }, { status: 400, headers: headers(requestId) });
+    }
+    if (historyPoints(start, end, granularity) > MAX_HISTORY_POINTS) {
+      return NextResponse.json(
+        { ok: false, error: `Range too large for ${granularity} granularity (max ${MAX_HISTORY_POINTS} points)` },
+        { status: 400, headers: headers(requestId) }
+      );
+    }
+
+    const history = await readMetricsHistory({ from: start, to: end, granularity });
+    return NextResponse.json({ ok: true, ...history }, { status: 200, headers: headers(requestId) });
+  } catch (e: unknown) {
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "admin_error", error: errMsg, meta: { path: "/api/admin/metrics/history" } });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+});
@@ -4,8 +4,9 @@
  * Reads Redis bucket counters written by /api/chat.
  *
  * Output:
- * - totals: aggregate stats over last 60 minutes
- * - series: 12 points (5-min buckets)
+ * - totals: aggregate stats over last 60 minutes (latency: p50/p90/p95/p99 overall + per mode;
+ *   usage: tokens/credits overall, per mode and per model)
+ * - series: 12 points (5-min buckets), each with its own percentiles and token/credit totals
  */
 
 export const runtime = "nodejs";
@@ -15,8 +16,17 @@ import { NextResponse } from "next/server";
 import { Redis } from "@upstash/redis";
 import { randomUUID } from "crypto";
 
-import { auth0 } from "@/lib/auth0";
-import { isAdminFromAccessToken } from "@/lib/auth/rbac";
+import { requirePermission } from "@/lib/auth/permissions";
+import {
+  addHistograms,
+  combinedHistogram,
+  emptyHistograms,
+  histogramsFromHash,
+  latencySummary,
+  percentiles,
+} from "@/lib/metrics/latency";
+import { addUsage, emptyUsage, usageFromHash, usageSummary, usageTotals } from "@/lib/metrics/usage";
+import { traced } from "@/lib/telemetry/tracing";
 
 const redis = Redis.fromEnv();
 
@@ -28,29 +38,20 @@ function bucketKey(bucketSeconds: number) {
   return `metrics:chat:bucket:${bucketSeconds}`;
 }
 
-export async function GET(req: Request) {
+export const GET = traced("GET /api/admin/metrics", async (req: Request) => {
   const inbound = req.headers.get("x-request-id");
   const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
 
-  // 1) Require session
-  const session = await auth0.getSession();
-  if (!session?.user) {
+  // 1) Session + metrics:read (platform admins)
+  const access = await requirePermission(req, "metrics:read");
+  if (!access.ok) {
     return NextResponse.json(
-      { ok: false, error: "Unauthorized" },
-      { status: 401, headers: headersWithRequestId(requestId) }
+      { ok: false, error: access.error },
+      { status: access.status, headers: headersWithRequestId(requestId) }
     );
   }
 
-  // 2) Admin-only
-  const isAdmin = await isAdminFromAccessToken();
-  if (!isAdmin) {
-    return NextResponse.json(
-      { ok: false, error: "Forbidden" },
-      { status: 403, headers: headersWithRequestId(requestId) }
-    );
-  }
-
-  // 3) Read last 60 minutes (5-min buckets => 12 buckets)
+  // 2) Read last 60 minutes (5-min buckets => 12 buckets)
   const nowSec = Math.floor(Date.now() / 1000);
   const currentBucket = Math.floor(nowSec / 300) * 300;
 
@@ -61,7 +62,7 @@ export async function GET(req: Request) {
   for (const b of buckets) pipeline.hgetall(bucketKey(b));
   const rows = await pipeline.exec();
 
-  // 4) Aggregate totals
+  // 3) Aggregate totals
   const totals = {
     total: 0,
     mode_coach: 0,
@@ -77,6 +78,8 @@ export async function GET(req: Request) {
     latency_sum_ms: 0,
     latency_count: 0,
   };
+  const latencyHistograms = emptyHistograms();
+  const usage = emptyUsage();
 
   const series = buckets
     .slice()
@@ -84,6 +87,11 @@ export async function GET(req: Request) {
     .map((bucketSeconds, idx) => {
       const raw = (rows?.[idx] as Record<string, unknown>) || {};
       const get = (k: keyof typeof totals) => Number(raw[k] ?? 0) || 0;
+      const histograms = histogramsFromHash(raw);
+      addHistograms(latencyHistograms, histograms);
+      const bucketUsage = usageFromHash(raw);
+      addUsage(usage, bucketUsage);
+      const { promptTokens, completionTokens, totalTokens, credits } = usageTotals(bucketUsage);
 
       const point = {
         bucketSeconds,
@@ -98,6 +106,11 @@ export async function GET(req: Request) {
         avgLatencyMs: get("latency_count") > 0
           ? Math.round(get("latency_sum_ms") / get("latency_count"))
           : 0,
+        ...percentiles(combinedHistogram(histograms)),
+        promptTokens,
+        completionTokens,
+        totalTokens,
+        credits,
       };
 
       totals.total += get("total");
@@ -141,9 +154,11 @@ export async function GET(req: Request) {
         },
         rateLimited: totals.rate_limited,
         avgLatencyMs,
+        latency: latencySummary(latencyHistograms),
+        usage: usageSummary(usage),
       },
       series,
     },
     { status: 200, headers: headersWithRequestId(requestId) }
   );
-}
+});
@@ -0,0 +1,133 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+
+import { requirePermission } from "@/lib/auth/permissions";
+import { log } from "@/lib/logger";
+import { parseRubricCriteria, RUBRIC_LIMITS } from "@/lib/framework/rubric";
+import { archiveRubric, RubricConflictError, RubricNotFoundError, updateRubric } from "@/lib/framework/rubricStore";
+import { traced } from "@/lib/telemetry/tracing";
+
+function headers(requestId: string) {
+  return { "X-Request-Id": requestId };
+}
+
+type Ctx = { params: Promise<{ rubricId: string }> };
+
+type Body = {
+  name?: string;
+  description?: string | null;
+  criteria?: unknown; // replaces the criteria → new version
+  isDefault?: boolean;
+};
+
+/** Update name/description/default; new criteria create the next version. */
+export const PATCH = traced("PATCH /api/admin/rubrics/[rubricId]", async (req: Request, ctx: Ctx) => {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  try {
+    const access = await requirePermission(req, "rubrics:manage", { requireOrg: true });
+    if (!access.ok) {
+      return NextResponse.json({ ok: false, error: access.error }, { status: access.status, headers: headers(requestId) });
+    }
+
+    const { rubricId } = await ctx.params;
+    const body = (await req.json().catch(() => null)) as Body | null;
+    if (!body) {
+      return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400, headers: headers(requestId) });
+    }
+
+    let name: string | undefined;
+    if (body.name !== undefined) {
+      name = typeof body.name === "string" ? body.name.trim() : "";
+      if (!name || name.length > RUBRIC_LIMITS.nameChars) {
+        return NextResponse.json(
+          { ok: false, error: `Invalid name (1-${RUBRIC_LIMITS.nameChars} chars)` },
+          { status: 400, headers: headers(requestId) }
+        );
+      }
+    }
+
+    let criteria;
+    if (body.criteria !== undefined) {
+      const parsed = parseRubricCriteria(body.criteria);
+      if (!parsed.ok) {
+        return NextResponse.json(
+          { ok: false, error: "Invalid criteria", errors: parsed.errors },
+          { status: 400, headers: headers(requestId) }
+        );
+      }
+      criteria = parsed.criteria;
+    }
+
+    const rubric = await updateRubric({
+      organizationId: access.organizationId,
+      rubricId,
+      name,
+      description:
+        body.description === undefined
+          ? undefined
+          : typeof body.description === "string"
+            ? body.description.trim().slice(0, 500)
+            : null,
+      criteria,
+      isDefault: typeof body.isDefault === "boolean" ? body.isDefault : undefined,
+      updatedBy: access.auth0Sub,
+    });
+
+    log("info", {
+      requestId,
+      event: "rubric_updated",
+      userId: access.auth0Sub,
+      meta: { rubricId, version: rubric.currentVersion, newVersion: Boolean(criteria) },
+    });
+
+    return NextResponse.json({ ok: true, rubric }, { status: 200, headers: headers(requestId) });
+  } catch (e: unknown) {
+    if (e instanceof RubricNotFoundError) {
+      return NextResponse.json({ ok: false, error: "Not found" }, { status: 404, headers: headers(requestId) });
+    }
+    if (e instanceof RubricConflictError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: 409, headers: headers(requestId) });
+    }
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "admin_error", error: errMsg });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+});
+
+/** Archive (soft delete): stored reviews keep pointing at their version. */
+export const DELETE = traced("DELETE /api/admin/rubrics/[rubricId]", async (req: Request, ctx: Ctx) => {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  try {
+    const access = await requirePermission(req, "rubrics:manage", { requireOrg: true });
+    if (!access.ok) {
+      return NextResponse.json({ ok: false, error: access.error }, { status: access.status, headers: headers(requestId) });
+    }
+
+    const { rubricId } = await ctx.params;
+    await archiveRubric({ organizationId: access.organizationId, rubricId });
+
+    log("info", { requestId, event: "rubric_updated", userId: access.auth0Sub, meta: { rubricId, archived: true } });
+
+    return NextResponse.json({ ok: true }, { status: 200, headers: headers(requestId) });
+  } catch (e: unknown) {
+    if (e instanceof RubricNotFoundError) {
+      return NextResponse.json({ ok: false, error: "Not found" }, { status: 404, headers: headers(requestId) });
+    }
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "admin_error", error: errMsg });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+});
@@ -0,0 +1,104 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+
+import { requirePermission } from "@/lib/auth/permissions";
+import { log } from "@/lib/logger";
+import { BUILTIN_RUBRIC, parseRubricCriteria, RUBRIC_LIMITS, rubricSummary } from "@/lib/framework/rubric";
+import { createRubric, listRubrics } from "@/lib/framework/rubricStore";
+import { traced } from "@/lib/telemetry/tracing";
+
+function headers(requestId: string) {
+  return { "X-Request-Id": requestId };
+}
+
+type Body = {
+  name: string;
+  description?: string | null;
+  criteria: unknown; // RubricCriterion[] (weight defaults to maxPoints)
+  isDefault?: boolean;
+};
+
+export const GET = traced("GET /api/admin/rubrics", async (req: Request) => {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  try {
+    // Review users pick a rubric; org admins list what they manage
+    const access = await requirePermission(req, ["chat:review", "rubrics:manage"], { requireOrg: true });
+    if (!access.ok) {
+      return NextResponse.json({ ok: false, error: access.error }, { status: access.status, headers: headers(requestId) });
+    }
+
+    const rubrics = await listRubrics(access.organizationId);
+
+    return NextResponse.json(
+      { ok: true, builtin: rubricSummary(BUILTIN_RUBRIC), rubrics },
+      { status: 200, headers: headers(requestId) }
+    );
+  } catch (e: unknown) {
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "admin_error", error: errMsg });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+});
+
+export const POST = traced("POST /api/admin/rubrics", async (req: Request) => {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  try {
+    const access = await requirePermission(req, "rubrics:manage", { requireOrg: true });
+    if (!access.ok) {
+      return NextResponse.json({ ok: false, error: access.error }, { status: access.status, headers: headers(requestId) });
+    }
+
+    const body = (await req.json().catch(() => null)) as Body | null;
+
+    const name = typeof body?.name === "string" ? body.name.trim() : "";
+    if (!name || name.length > RUBRIC_LIMITS.nameChars) {
+      return NextResponse.json(
+        { ok: false, error: `Invalid name (1-${RUBRIC_LIMITS.nameChars} chars)` },
+        { status: 400, headers: headers(requestId) }
+      );
+    }
+
+    const criteria = parseRubricCriteria(body?.criteria);
+    if (!criteria.ok) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid criteria", errors: criteria.errors },
+        { status: 400, headers: headers(requestId) }
+      );
+    }
+
+    const rubric = await createRubric({
+      organizationId: access.organizationId,
+      name,
+      description: typeof body?.description === "string" ? body.description.trim().slice(0, 500) : null,
+      criteria: criteria.criteria,
+      isDefault: body?.isDefault === true,
+      createdBy: access.auth0Sub,
+    });
+
+    log("info", {
+      requestId,
+      event: "rubric_updated",
+      userId: access.auth0Sub,
+      meta: { rubricId: rubric.id, version: rubric.currentVersion, created: true },
+    });
+
+    return NextResponse.json({ ok: true, rubric }, { status: 201, headers: headers(requestId) });
+  } catch (e: unknown) {
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "admin_error", error: errMsg });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+});
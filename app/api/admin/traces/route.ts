@@ -0,0 +1,58 @@
+// app/api/admin/traces/route.ts
+/**
+ * Recent spans from the in-memory trace exporter (OTEL_TRACES_EXPORTER=memory), for local testing.
+ *
+ * GET /api/admin/traces?requestId=<X-Request-Id>  → every span of the trace(s) that request belongs to
+ * GET /api/admin/traces?traceId=<hex>             → one trace
+ * GET /api/admin/traces                           → the last 100 spans
+ * Spans are oldest first; the exporter keeps the last 500 per server instance.
+ * Not traced itself, so polling doesn't push request spans out of that buffer.
+ */
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+
+import { requirePermission } from "@/lib/auth/permissions";
+import { recentSpans } from "@/lib/telemetry/register";
+import { ATTR_REQUEST_ID } from "@/lib/telemetry/tracing";
+
+const DEFAULT_LIMIT = 100;
+
+function headers(requestId: string) {
+  return { "X-Request-Id": requestId };
+}
+
+export async function GET(req: Request) {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  const access = await requirePermission(req, "metrics:read");
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status, headers: headers(requestId) });
+  }
+
+  const spans = recentSpans();
+  if (!spans) {
+    return NextResponse.json(
+      { ok: false, error: "In-memory trace exporter is not enabled (set OTEL_TRACES_EXPORTER=memory)" },
+      { status: 404, headers: headers(requestId) }
+    );
+  }
+
+  const url = new URL(req.url);
+  const byRequest = url.searchParams.get("requestId");
+  const byTrace = url.searchParams.get("traceId");
+
+  let selected = spans.slice(-DEFAULT_LIMIT);
+  if (byRequest || byTrace) {
+    const traceIds = new Set(
+      byTrace ? [byTrace] : spans.filter((s) => s.attributes[ATTR_REQUEST_ID] === byRequest).map((s) => s.traceId)
+    );
+    selected = spans.filter((s) => traceIds.has(s.traceId));
+  }
+
+  return NextResponse.json({ ok: true, spans: selected }, { status: 200, headers: headers(requestId) });
+}
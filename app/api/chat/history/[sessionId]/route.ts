@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth0 } from "@/lib/auth0";
 import { prisma } from "@/lib/prisma";
+import { rubricSummary } from "@/lib/framework/rubric";
+import { activeOrgIdForRequest, sessionOrgWhere } from "@/lib/org/activeOrg";
+import { rubricFromVersion, RUBRIC_VERSION_SELECT } from "@/lib/framework/rubricStore";
+import { traced } from "@/lib/telemetry/tracing";
 
 export const runtime = "nodejs";
 
@@ -8,7 +12,7 @@ type Ctx =
   | { params: { sessionId: string } }
   | { params: Promise<{ sessionId: string }> };
 
-export async function GET(req: NextRequest, ctx: Ctx) {
+export const GET = traced("GET /api/chat/history/[sessionId]", async (req: NextRequest, ctx: Ctx) => {
   const authSession = await auth0.getSession();
   const sub = authSession?.user?.sub;
   if (!sub) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
@@ -23,8 +27,9 @@ export async function GET(req: NextRequest, ctx: Ctx) {
     );
   }
 
+  const organizationId = await activeOrgIdForRequest(req, sub);
   const session = await prisma.chatSession.findFirst({
-    where: { id: sessionId, auth0Sub: sub },
+    where: { id: sessionId, auth0Sub: sub, ...sessionOrgWhere(organizationId) },
     select: { id: true },
   });
   if (!session) return NextResponse.json({ error: "Not found" }, { status: 404 });
@@ -38,7 +43,14 @@ export async function GET(req: NextRequest, ctx: Ctx) {
     orderBy: { createdAt: "desc" },
     take: limit + 1,
     ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
-    select: { id: true, role: true, content: true, createdAt: true },
+    select: {
+      id: true,
+      role: true,
+      content: true,
+      aborted: true,
+      createdAt: true,
+      rubricVersion: { select: RUBRIC_VERSION_SELECT },
+    },
   });
 
   const hasMore = rows.length > limit;
@@ -48,10 +60,13 @@ export async function GET(req: NextRequest, ctx: Ctx) {
     id: m.id,
     role: m.role,
     content: m.content,
+    aborted: m.aborted, // partial reply from a cut-off stream
     createdAt: m.createdAt,
+    // review replies scored with an org rubric (null = built-in)
+    rubric: m.rubricVersion ? rubricSummary(rubricFromVersion(m.rubricVersion)) : null,
   }));
 
   const nextCursor = hasMore ? page[page.length - 1].id : null;
 
   return NextResponse.json({ items, nextCursor });
-}
+});
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth0 } from "@/lib/auth0";
 import { prisma } from "@/lib/prisma";
+import { traced } from "@/lib/telemetry/tracing";
 
 export const runtime = "nodejs";
 
@@ -8,7 +9,7 @@ type Ctx =
   | { params: { sessionId: string } }
   | { params: Promise<{ sessionId: string }> };
 
-export async function PATCH(req: NextRequest, ctx: Ctx) {
+export const PATCH = traced("PATCH /api/chat/history/[sessionId]/title", async (req: NextRequest, ctx: Ctx) => {
   try {
     const authSession = await auth0.getSession();
     const sub = authSession?.user?.sub;
@@ -58,4 +59,4 @@ export async function PATCH(req: NextRequest, ctx: Ctx) {
       { status: 500 }
     );
   }
-}
+});
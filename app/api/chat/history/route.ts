@@ -1,11 +1,13 @@
 import { NextResponse } from "next/server";
 import { auth0 } from "@/lib/auth0";
 import { prisma } from "@/lib/prisma";
+import { activeOrgIdForRequest, sessionOrgWhere } from "@/lib/org/activeOrg";
+import { traced } from "@/lib/telemetry/tracing";
 
 export const runtime = "nodejs";
 
 // GET /api/chat/history?cursor=...&limit=20
-export async function GET(req: Request) {
+export const GET = traced("GET /api/chat/history", async (req: Request) => {
   const authSession = await auth0.getSession();
   const sub = authSession?.user?.sub;
   if (!sub) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
@@ -14,9 +16,10 @@ export async function GET(req: Request) {
   const limit = Math.min(Number(url.searchParams.get("limit") ?? 20), 50);
   const cursor = url.searchParams.get("cursor");
 
-  // 1) Pull sessions first (cursor pagination)
+  // 1) Pull sessions first (cursor pagination), scoped to the active org
+  const organizationId = await activeOrgIdForRequest(req, sub);
   const sessions = await prisma.chatSession.findMany({
-    where: { auth0Sub: sub },
+    where: { auth0Sub: sub, ...sessionOrgWhere(organizationId) },
     orderBy: { createdAt: "desc" },
     take: limit + 1,
     ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
@@ -64,4 +67,4 @@ export async function GET(req: Request) {
     }),
     nextCursor: hasMore ? page[page.length - 1].id : null,
   });
-}
+});
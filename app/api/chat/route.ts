@@ -6,36 +6,82 @@ import { Ratelimit } from "@upstash/ratelimit";
 import { Redis } from "@upstash/redis";
 import { randomUUID } from "crypto";
 
-import OpenAI from "openai";
 import { NextResponse } from "next/server";
 
 import { auth0 } from "@/lib/auth0";
 import { log } from "@/lib/logger";
 import { QA_SYSTEM_PROMPT } from "@/lib/framework/systemPrompt";
-import { isReviewResult } from "@/lib/framework/reviewSchema";
-import { isAdminFromAccessToken } from "@/lib/auth/rbac";
+import { parseReviewReply, reviewJsonSchema } from "@/lib/framework/reviewSchema";
+import { BUILTIN_RUBRIC, reviewModeInstruction, rubricSummary, type Rubric } from "@/lib/framework/rubric";
+import { loadRubricVersion, resolveRubricForOrg, RubricNotFoundError } from "@/lib/framework/rubricStore";
+import { reviewRecordCreate } from "@/lib/framework/reviewRecords";
+import { ActiveOrgError, requestedOrg, sessionOrgWhere } from "@/lib/org/activeOrg";
+import {
+  repairAccounting,
+  repairBillingPolicy,
+  resolveReview,
+  REVIEW_REPAIR_MAX_TOKENS,
+} from "@/lib/framework/reviewRepair";
+import { requirePermission } from "@/lib/auth/permissions";
 import { recordChatMetric, type ChatMetricMode } from "@/lib/metrics/chatMetrics";
 
 import { prisma } from "@/lib/prisma";
 import { ensureOrgForUser } from "@/lib/billing/ensureOrgForUser";
-import { chargeCredits, InsufficientCreditsError } from "@/lib/billing/chargeCredits";
+import {
+  InsufficientCreditsError,
+  releaseCreditHold,
+  reserveCredits,
+  settleCreditHold,
+} from "@/lib/billing/creditHolds";
+import { scheduleBalanceAlertCheck } from "@/lib/billing/balanceAlerts";
+import { MemberBudgetExceededError } from "@/lib/billing/memberBudgets";
+import { tokensToCredits, worstCaseCredits } from "@/lib/billing/pricing";
+import type { Plan } from "@/lib/billing/plans";
+import { sseEvent, wantsEventStream } from "@/lib/chat/sse";
+import { estimateTokens } from "@/lib/chat/tokens";
+import { buildConversationContext } from "@/lib/chat/history";
+import {
+  acquireRequestLock,
+  findStoredChatResponse,
+  releaseRequestLock,
+  type StoredChatResponse,
+} from "@/lib/chat/idempotency";
+import { getLlmProvider, type LlmMessage, type LlmRequest, type LlmUsage } from "@/lib/llm";
+import {
+  annotateRequest,
+  endSpan,
+  runInSpan,
+  setRequestId,
+  startSpan,
+  traced,
+  withSpan,
+} from "@/lib/telemetry/tracing";
 
 const redis = Redis.fromEnv();
 
-const RATE_LIMIT = {
-  limit: 20,
-  window: "60 s" as const,
-  prefix: "stefans-mvp:chat",
-} as const;
-
-const ratelimit = new Ratelimit({
-  redis,
-  limiter: Ratelimit.slidingWindow(RATE_LIMIT.limit, RATE_LIMIT.window),
-  analytics: true,
-  prefix: RATE_LIMIT.prefix,
-});
+const RATE_LIMIT_PREFIX = "stefans-mvp:chat";
+
+/** One limiter per plan (limits come from the plan catalog). */
+const ratelimits = new Map<string, Ratelimit>();
+
+function ratelimitForPlan(plan: Plan) {
+  let limiter = ratelimits.get(plan.code);
+  if (!limiter) {
+    limiter = new Ratelimit({
+      redis,
+      limiter: Ratelimit.slidingWindow(plan.rateLimit.limit, plan.rateLimit.window),
+      analytics: true,
+      prefix: `${RATE_LIMIT_PREFIX}:${plan.code}`,
+    });
+    ratelimits.set(plan.code, limiter);
+  }
+  return limiter;
+}
+
+const llm = getLlmProvider();
 
-const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+/** Upper bound for one model call; the credit hold is released if it's exceeded. */
+const MODEL_TIMEOUT_MS = 90_000;
 
 type Mode = "coach" | "review";
 
@@ -50,6 +96,8 @@ type ChatBody = {
   mode?: Mode;
   sessionId?: string; // NEW: reuse session
   title?: string;     // optional (UI can set)
+  stream?: boolean;   // opt-in SSE (or send Accept: text/event-stream)
+  rubricId?: string;  // review: org rubric to score with (default: org default, then built-in)
 };
 
 function getIpIdentifier(req: Request): string {
@@ -76,25 +124,83 @@ function responseHeaders(requestId: string, meta?: RateMeta, retryAfterSec?: num
   return headers;
 }
 
-// Simple credit model: 1 credit per 1000 tokens (rounded up)
-function tokensToCredits(totalTokens: number) {
-  if (!Number.isFinite(totalTokens) || totalTokens <= 0) return 0;
-  return Math.max(1, Math.ceil(totalTokens / 1000));
+/** Replay a stored response for a repeated X-Request-Id (JSON or SSE, matching the request). */
+async function replayResponse(params: {
+  req: Request;
+  streamFlag: unknown;
+  requestId: string;
+  mode: Mode;
+  stored: StoredChatResponse;
+}) {
+  const { req, streamFlag, requestId, mode, stored } = params;
+
+  const base = {
+    mode,
+    sessionId: stored.sessionId,
+    creditsCharged: stored.creditsCharged,
+    creditsRemaining: stored.creditsRemaining,
+    usage: stored.usage,
+    rate: null,
+    replayed: true,
+    aborted: stored.aborted,
+  };
+
+  let payload: Record<string, unknown> = { ok: !stored.aborted, ...base, reply: stored.reply };
+  // Aborted streams replay as they ended: partial text, no review parse
+  if (mode === "review" && !stored.aborted) {
+    const rubric = await loadRubricVersion(stored.rubricVersionId);
+    const outcome = parseReviewReply(stored.reply, rubric);
+    payload = outcome.ok
+      ? { ok: true, ...base, review: outcome.review, rubric: rubricSummary(rubric) }
+      : {
+          ok: false,
+          ...base,
+          error: outcome.error,
+          errors: outcome.errors,
+          normalized: outcome.normalized,
+          rubric: rubricSummary(rubric),
+          raw: stored.reply,
+        };
+  }
+
+  const headers = { ...responseHeaders(requestId), "Idempotent-Replayed": "true" };
+
+  if (wantsEventStream(req, streamFlag)) {
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        if (mode !== "review" && stored.reply) controller.enqueue(sseEvent("delta", { text: stored.reply }));
+        controller.enqueue(sseEvent("done", payload));
+        controller.close();
+      },
+    });
+    return new Response(body, {
+      status: 200,
+      headers: { ...headers, "Content-Type": "text/event-stream; charset=utf-8", "Cache-Control": "no-cache" },
+    });
+  }
+
+  return NextResponse.json(payload, { status: 200, headers });
 }
 
-export async function POST(req: Request) {
+export const POST = traced("POST /api/chat", async (req: Request) => {
   const inbound = req.headers.get("x-request-id");
   const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+  // Only client-supplied ids are idempotency keys (generated ones can't repeat)
+  const idempotent = Boolean(inbound && inbound.length < 200);
+  setRequestId(requestId);
 
   const startTime = Date.now();
 
   let userId: string | undefined;
   let modeForLog: ChatMetricMode = "unknown";
   let rateMeta: RateMeta | null = null;
+  let holdId: string | null = null;
+  let lockedAs: string | null = null; // auth0Sub holding the idempotency lock
+  let lockOwnedByStream = false;
 
   try {
     // 0) Require Auth0 session
-    const session = await auth0.getSession();
+    const session = await withSpan("auth0.getSession", () => auth0.getSession());
     if (!session?.user) {
       log("warn", { requestId, event: "unauthorized", mode: modeForLog, meta: { path: "/api/chat" } });
 
@@ -112,6 +218,7 @@ export async function POST(req: Request) {
     }
 
     userId = (session.user.sub as string | undefined) ?? "unknown";
+    const auth0Sub = userId; // narrowed copy for the stage-span callbacks
     const identifier = userId !== "unknown" ? `user:${userId}` : getIpIdentifier(req);
 
     // 1) Parse request
@@ -119,6 +226,7 @@ export async function POST(req: Request) {
     const message = body?.message;
     const mode: Mode = body?.mode === "review" ? "review" : "coach";
     modeForLog = mode;
+    annotateRequest({ "enduser.id": userId, "chat.mode": mode });
 
     log("info", {
       requestId,
@@ -128,9 +236,10 @@ export async function POST(req: Request) {
       meta: { messageChars: typeof message === "string" ? message.length : 0 },
     });
 
-    // 2) Ensure OpenAI key exists
-    if (!process.env.OPENAI_API_KEY) {
-      log("error", { requestId, event: "chat_error", userId, mode, error: "OPENAI_API_KEY is not set" });
+    // 2) Ensure LLM provider is configured
+    const llmConfigError = llm.configError();
+    if (llmConfigError) {
+      log("error", { requestId, event: "chat_error", userId, mode, error: llmConfigError, meta: { provider: llm.name } });
 
       await recordChatMetric({
         nowMs: Date.now(),
@@ -140,7 +249,7 @@ export async function POST(req: Request) {
       });
 
       return NextResponse.json(
-        { ok: false, error: "OPENAI_API_KEY is not set (check env vars)" },
+        { ok: false, error: `${llmConfigError} (check env vars)` },
         { status: 500, headers: responseHeaders(requestId) }
       );
     }
@@ -174,32 +283,93 @@ export async function POST(req: Request) {
       );
     }
 
-    // 4) RBAC: review is admin-only
+    // 4) Permissions: review needs chat:review (Auth0 admins only)
     if (mode === "review") {
-      const isAdmin = await isAdminFromAccessToken();
-      if (!isAdmin) {
+      const access = await withSpan("requirePermission", () => requirePermission(req, "chat:review"));
+      if (!access.ok) {
         log("warn", { requestId, event: "forbidden_review_access", userId, mode });
 
         await recordChatMetric({
           nowMs: Date.now(),
           mode,
-          status: 403,
+          status: access.status,
           latencyMs: Date.now() - startTime,
         });
 
         return NextResponse.json(
-          { ok: false, mode, error: "Forbidden" },
-          { status: 403, headers: responseHeaders(requestId) }
+          { ok: false, mode, error: access.error },
+          { status: access.status, headers: responseHeaders(requestId) }
         );
       }
     }
 
-    // 4.5) Ensure org + wallet exist; optionally enforce "must have credits to chat"
-    const orgState = await ensureOrgForUser({
-      auth0Sub: userId,
-      name: (session.user.name as string | undefined) ?? null,
-      email: (session.user.email as string | undefined) ?? null,
-    });
+    // 4.2) Idempotency: replay stored response, or 409 while the same id is in flight
+    let retrySessionId: string | null = null;
+
+    if (idempotent) {
+      const acquired = await withSpan("acquireRequestLock", () => acquireRequestLock(auth0Sub, requestId));
+      if (!acquired) {
+        log("warn", { requestId, event: "chat_duplicate_in_flight", userId, mode });
+
+        await recordChatMetric({
+          nowMs: Date.now(),
+          mode,
+          status: 409,
+          latencyMs: Date.now() - startTime,
+        });
+
+        return NextResponse.json(
+          { ok: false, mode, error: "Request with this X-Request-Id is already in progress" },
+          { status: 409, headers: responseHeaders(requestId) }
+        );
+      }
+      lockedAs = userId;
+
+      const previous = await withSpan("findStoredChatResponse", () =>
+        findStoredChatResponse({ auth0Sub, requestId })
+      );
+
+      if (previous.status === "complete") {
+        log("info", { requestId, event: "chat_replayed", userId, mode, latencyMs: Date.now() - startTime });
+
+        await recordChatMetric({
+          nowMs: Date.now(),
+          mode,
+          status: 200,
+          latencyMs: Date.now() - startTime,
+        });
+
+        return replayResponse({ req, streamFlag: body?.stream, requestId, mode, stored: previous.response });
+      }
+
+      if (previous.status === "incomplete") retrySessionId = previous.sessionId;
+    }
+
+    // 4.5) Ensure org + wallet exist (active org from X-Org-Id / cookie); optionally enforce "must have credits to chat"
+    let orgState: Awaited<ReturnType<typeof ensureOrgForUser>>;
+    try {
+      orgState = await withSpan("ensureOrgForUser", () => ensureOrgForUser({
+        auth0Sub,
+        name: (session.user.name as string | undefined) ?? null,
+        email: (session.user.email as string | undefined) ?? null,
+        emailVerified: session.user.email_verified === true,
+        requestedOrg: requestedOrg(req),
+      }));
+    } catch (e) {
+      if (!(e instanceof ActiveOrgError)) throw e;
+
+      await recordChatMetric({
+        nowMs: Date.now(),
+        mode,
+        status: 403,
+        latencyMs: Date.now() - startTime,
+      });
+
+      return NextResponse.json(
+        { ok: false, mode, error: e.message },
+        { status: 403, headers: responseHeaders(requestId) }
+      );
+    }
 
     if (!orgState.wallet || orgState.wallet.balance <= 0) {
       // MVP behavior: block if no credits.
@@ -222,14 +392,62 @@ export async function POST(req: Request) {
       );
     }
 
-    // 5) Rate limit (Upstash)
-    const { success, remaining, reset } = await ratelimit.limit(identifier);
+    // 4.55) Plan: enabled modes
+    if (!orgState.plan.modes.includes(mode)) {
+      await recordChatMetric({
+        nowMs: Date.now(),
+        mode,
+        status: 403,
+        latencyMs: Date.now() - startTime,
+      });
+
+      return NextResponse.json(
+        { ok: false, mode, error: `${mode} mode is not included in the ${orgState.plan.name} plan` },
+        { status: 403, headers: responseHeaders(requestId) }
+      );
+    }
+
+    // 4.6) Review rubric: explicit rubricId → org default → built-in
+    let rubric: Rubric = BUILTIN_RUBRIC;
+    if (mode === "review") {
+      try {
+        rubric = await withSpan("resolveRubricForOrg", () => resolveRubricForOrg({
+          organizationId: orgState.organizationId,
+          rubricId: typeof body?.rubricId === "string" ? body.rubricId : null,
+        }));
+      } catch (e) {
+        if (!(e instanceof RubricNotFoundError)) throw e;
+
+        await recordChatMetric({
+          nowMs: Date.now(),
+          mode,
+          status: 400,
+          latencyMs: Date.now() - startTime,
+        });
+
+        return NextResponse.json(
+          { ok: false, mode, error: "Unknown rubricId" },
+          { status: 400, headers: responseHeaders(requestId) }
+        );
+      }
+    }
+
+    // 5) Rate limit (Upstash, per plan)
+    const { success, remaining, reset } = await withSpan(
+      "ratelimit.limit",
+      async (span) => {
+        const result = await ratelimitForPlan(orgState.plan).limit(identifier);
+        span.setAttribute("ratelimit.success", result.success);
+        return result;
+      },
+      { "ratelimit.plan": orgState.plan.code }
+    );
 
     const resetSeconds =
       typeof reset === "number" ? Math.max(1, Math.ceil((reset - Date.now()) / 1000)) : 60;
 
     rateMeta = {
-      limit: RATE_LIMIT.limit,
+      limit: orgState.plan.rateLimit.limit,
       remaining: typeof remaining === "number" ? remaining : 0,
       resetSeconds,
     };
@@ -259,62 +477,37 @@ export async function POST(req: Request) {
       );
     }
 
-    // 5.5) Create or reuse ChatSession
-    let sessionId = body?.sessionId;
+    // 5.5) Create or reuse ChatSession (a retried request stays in its original session)
+    let sessionId = retrySessionId ?? body?.sessionId;
 
     if (sessionId) {
-      const existing = await prisma.chatSession.findFirst({
-        where: { id: sessionId, auth0Sub: userId },
+      const existing = await withSpan("prisma.chatSession.findFirst", () => prisma.chatSession.findFirst({
+        where: { id: sessionId, auth0Sub, ...sessionOrgWhere(orgState.organizationId) },
         select: { id: true },
-      });
+      }));
       if (!existing) sessionId = undefined;
     }
 
     if (!sessionId) {
-      const created = await prisma.chatSession.create({
-        data: { auth0Sub: userId, mode, title: body?.title ?? null },
+      const created = await withSpan("prisma.chatSession.create", () => prisma.chatSession.create({
+        data: { auth0Sub, organizationId: orgState.organizationId, mode, title: body?.title ?? null },
         select: { id: true },
-      });
+      }));
       sessionId = created.id;
     }
 
-    // Store user message
-    await prisma.chatMessage.create({
-      data: {
-        sessionId,
-        auth0Sub: userId,
-        role: "user",
-        content: message,
-        requestId,
-      },
-    });
+    // Prior turns (loaded before the current message is stored)
+    const context = await withSpan("buildConversationContext", () => buildConversationContext({
+      sessionId,
+      auth0Sub,
+      excludeRequestId: retrySessionId ? requestId : undefined,
+    }));
+    const historyUsage = { historyTurns: context.turnsUsed, historyTokens: context.tokensUsed };
 
     // 6) Mode-specific prompt
     const modeInstruction =
       mode === "review"
-        ? [
-            "MODE: REVIEW & SCORING",
-            "Return ONLY valid JSON. No markdown. No prose outside JSON.",
-            "Schema:",
-            "{",
-            '  "score": number (0-100),',
-            '  "verdict": string,',
-            '  "breakdown": {',
-            '    "businessRelevance": number (0-25),',
-            '    "riskCoverage": number (0-25),',
-            '    "designQuality": number (0-20),',
-            '    "levelAndScope": number (0-15),',
-            '    "diagnosticValue": number (0-15)',
-            "  },",
-            '  "riskGaps": string[],',
-            '  "antiPatterns": string[],',
-            '  "improvements": string[]',
-            "}",
-            "Rules:",
-            "- Ensure breakdown sums to score OR is consistent with score.",
-            "- riskGaps and improvements must be actionable and specific.",
-            "- Keep each list <= 6 items.",
-          ].join("\n")
+        ? reviewModeInstruction(rubric)
         : [
             "MODE: COACH",
             "If requirements are vague: ask up to 6 clarifying questions first.",
@@ -322,49 +515,52 @@ export async function POST(req: Request) {
             "Prefer unit/API over UI when appropriate.",
           ].join("\n");
 
-    // 7) Call model
-    const completion = await client.chat.completions.create({
-      model: "gpt-4.1-mini",
+    // 7) Build model request
+    const modelMessages: LlmMessage[] = [
+      { role: "system", content: QA_SYSTEM_PROMPT },
+      { role: "system", content: modeInstruction },
+      ...(context.summary
+        ? [{ role: "system" as const, content: `Summary of earlier conversation:\n${context.summary}` }]
+        : []),
+      ...context.messages,
+      { role: "user", content: message },
+    ];
+    const llmRequest: LlmRequest = {
+      messages: modelMessages,
+      maxTokens: mode === "review" ? 500 : 700,
       temperature: 0.2,
-      max_tokens: mode === "review" ? 500 : 700,
-      messages: [
-        { role: "system", content: QA_SYSTEM_PROMPT },
-        { role: "system", content: modeInstruction },
-        { role: "user", content: message },
-      ],
-    });
-
-    const reply = completion.choices[0]?.message?.content ?? "No reply returned";
-
-    // Usage → credits
-    const promptTokens = completion.usage?.prompt_tokens ?? 0;
-    const completionTokens = completion.usage?.completion_tokens ?? 0;
-    const totalTokens = completion.usage?.total_tokens ?? promptTokens + completionTokens;
-    const creditsCharged = tokensToCredits(totalTokens);
+      responseFormat:
+        mode === "review" ? { type: "json_schema", name: "review_result", schema: reviewJsonSchema(rubric) } : "text",
+    };
 
-    // Store assistant message (raw text; review JSON is stored as text too)
-    await prisma.chatMessage.create({
-      data: {
-        sessionId,
-        auth0Sub: userId,
-        role: "assistant",
-        content: reply,
-        tokensIn: promptTokens,
-        tokensOut: completionTokens,
-        requestId,
-      },
+    // 7.5) Authorize: hold worst-case credits before the provider spends tokens
+    const estimatedPromptTokens = estimateTokens(modelMessages.map((m) => m.content).join("\n"));
+    let creditsHeld = worstCaseCredits({
+      model: llm.model,
+      estimatedPromptTokens,
+      maxCompletionTokens: llmRequest.maxTokens,
     });
+    // A billed review repair replays the prompt plus the first reply
+    if (mode === "review" && repairBillingPolicy() === "bill") {
+      creditsHeld += worstCaseCredits({
+        model: llm.model,
+        estimatedPromptTokens: estimatedPromptTokens + llmRequest.maxTokens,
+        maxCompletionTokens: REVIEW_REPAIR_MAX_TOKENS,
+      });
+    }
 
-    // Charge credits (transactional)
-    let creditsRemaining: number | null = null;
     try {
-      creditsRemaining = await chargeCredits({
-        auth0Sub: userId,
-        credits: creditsCharged,
+      const hold = await withSpan("reserveCredits", () => reserveCredits({
+        auth0Sub,
+        organizationId: orgState.organizationId,
+        credits: creditsHeld,
         requestId,
-      });
+      }));
+      holdId = hold.holdId;
     } catch (e) {
-      if (e instanceof InsufficientCreditsError) {
+      if (e instanceof MemberBudgetExceededError) {
+        log("warn", { requestId, event: "member_budget_exceeded", userId, mode, meta: { creditsHeld, ...e.budget } });
+
         await recordChatMetric({
           nowMs: Date.now(),
           mode,
@@ -376,92 +572,403 @@ export async function POST(req: Request) {
           {
             ok: false,
             mode,
-            error: "Insufficient credits",
+            error: "Your credit budget for this period is used up",
+            code: "member_budget_exceeded",
             sessionId,
-            creditsCharged,
+            creditsRequired: creditsHeld,
             creditsRemaining: orgState.wallet?.balance ?? 0,
-            usage: { promptTokens, completionTokens, totalTokens },
+            budget: e.budget,
             rate: rateMeta,
           },
           { status: 402, headers: responseHeaders(requestId, rateMeta ?? undefined) }
         );
       }
-      throw e;
-    }
-
-    // 8) REVIEW: parse JSON
-    if (mode === "review") {
-      const raw = reply.trim();
-      const start = raw.indexOf("{");
-      const end = raw.lastIndexOf("}");
-      const jsonText = start >= 0 && end >= 0 ? raw.slice(start, end + 1) : raw;
-
-      try {
-        const parsed = JSON.parse(jsonText);
-
-        if (!isReviewResult(parsed)) {
-          log("warn", {
-            requestId,
-            event: "chat_completed",
-            userId,
-            mode,
-            latencyMs: Date.now() - startTime,
-            meta: { reviewParse: "invalid_shape" },
-          });
-
-          await recordChatMetric({
-            nowMs: Date.now(),
-            mode,
-            status: 200,
-            latencyMs: Date.now() - startTime,
-          });
-
-          return NextResponse.json(
-            {
-              ok: false,
-              mode,
-              error: "Invalid review JSON shape",
-              raw: reply,
-              sessionId,
-              creditsCharged,
-              creditsRemaining,
-              usage: { promptTokens, completionTokens, totalTokens },
-              rate: rateMeta,
-            },
-            { status: 200, headers: responseHeaders(requestId, rateMeta ?? undefined) }
-          );
-        }
-
-        log("info", { requestId, event: "chat_completed", userId, mode, latencyMs: Date.now() - startTime });
-
+      if (e instanceof InsufficientCreditsError) {
         await recordChatMetric({
           nowMs: Date.now(),
           mode,
-          status: 200,
+          status: 402,
           latencyMs: Date.now() - startTime,
         });
 
         return NextResponse.json(
           {
-            ok: true,
+            ok: false,
             mode,
-            review: parsed,
+            error: "Insufficient credits",
+            code: "insufficient_credits",
             sessionId,
-            creditsCharged,
-            creditsRemaining,
-            usage: { promptTokens, completionTokens, totalTokens },
+            creditsRequired: creditsHeld,
+            creditsRemaining: orgState.wallet?.balance ?? 0,
             rate: rateMeta,
           },
-          { status: 200, headers: responseHeaders(requestId, rateMeta ?? undefined) }
+          { status: 402, headers: responseHeaders(requestId, rateMeta ?? undefined) }
         );
-      } catch {
+      }
+      throw e;
+    }
+    const activeHoldId = holdId;
+    // Runs after the response (JSON or stream) has finished, i.e. after settle/release
+    scheduleBalanceAlertCheck(orgState.organizationId, requestId);
+
+    // Store user message (already stored if this is a retry of a failed attempt)
+    if (!retrySessionId) {
+      await withSpan("prisma.chatMessage.create", () => prisma.chatMessage.create({
+        data: {
+          sessionId,
+          auth0Sub,
+          role: "user",
+          content: message,
+          requestId,
+        },
+      }));
+    }
+
+    // 7a) STREAM: token deltas over SSE, settle (persist + charge) once at the end
+    if (wantsEventStream(req, body?.stream)) {
+      // Aborted when the client disconnects (request signal or stream cancel)
+      const upstreamAbort = new AbortController();
+      req.signal.addEventListener("abort", () => upstreamAbort.abort(), { once: true });
+      const upstreamSignal = AbortSignal.any([upstreamAbort.signal, AbortSignal.timeout(MODEL_TIMEOUT_MS)]);
+      // Ends when the stream settles, after the request span
+      const streamSpan = startSpan("llm.stream", { "gen_ai.system": llm.name, "gen_ai.request.model": llm.model });
+      const upstream = llm.stream(llmRequest, { signal: upstreamSignal })[Symbol.asyncIterator]();
+      // Pull the first event before committing to SSE so auth/config errors stay plain JSON 500s.
+      let first: Awaited<ReturnType<typeof upstream.next>>;
+      try {
+        first = await upstream.next();
+      } catch (e) {
+        endSpan(streamSpan, e);
+        throw e;
+      }
+
+      // Narrowed copies for use inside the stream callbacks
+      const streamUserId = userId;
+      const streamSessionId = sessionId;
+      const streamOrganizationId = orgState.organizationId;
+      const streamRateMeta = rateMeta;
+      const streamLockedAs = lockedAs;
+
+      const stream = runInSpan(streamSpan, () => new ReadableStream<Uint8Array>({
+        async start(controller) {
+          let closed = false;
+          const send = (chunk: Uint8Array) => {
+            if (closed) return;
+            try {
+              controller.enqueue(chunk);
+            } catch {
+              closed = true; // client went away
+            }
+          };
+
+          let reply = "";
+          let usage: LlmUsage | null = null;
+          let aborted = false;
+
+          try {
+            for (let next = first; !next.done; next = await upstream.next()) {
+              const ev = next.value;
+              if (ev.type === "delta") {
+                reply += ev.text;
+                send(sseEvent("delta", { text: ev.text }));
+              } else {
+                usage = ev.usage;
+              }
+            }
+          } catch (e) {
+            // Client disconnect (cancel → abort) or upstream failure mid-stream.
+            aborted = true;
+            log("warn", {
+              requestId,
+              event: "chat_stream_aborted",
+              userId: streamUserId,
+              mode,
+              latencyMs: Date.now() - startTime,
+              error: e instanceof Error ? e.message : String(e),
+              meta: { replyChars: reply.length, errorKind: llm.classifyError(e) },
+            });
+          }
+
+          try {
+            // Usage → credits (estimate if the stream ended before usage was reported)
+            const promptTokens = usage?.promptTokens ?? estimatedPromptTokens;
+            const completionTokens = usage?.completionTokens ?? estimateTokens(reply);
+            const totalTokens = usage?.totalTokens ?? promptTokens + completionTokens;
+            const model = llm.model;
+            const usageMeta = { promptTokens, completionTokens, totalTokens, ...historyUsage };
+            streamSpan.setAttributes({
+              "gen_ai.usage.input_tokens": promptTokens,
+              "gen_ai.usage.output_tokens": completionTokens,
+              "chat.aborted": aborted,
+            });
+
+            // Review: validate (and repair once) before persisting, so the stored reply is the final one
+            const resolution =
+              mode === "review" && !aborted
+                ? await withSpan("resolveReview", () =>
+                    resolveReview({ llm, request: llmRequest, reply, rubric, signal: upstreamSignal })
+                  )
+                : null;
+            if (resolution) reply = resolution.reply;
+            const repair = repairAccounting(resolution?.repair ?? null);
+
+            const chargedPromptTokens = promptTokens + repair.billedPromptTokens;
+            const chargedCompletionTokens = completionTokens + repair.billedCompletionTokens;
+            const creditsCharged = tokensToCredits({
+              model,
+              promptTokens: chargedPromptTokens,
+              completionTokens: chargedCompletionTokens,
+            });
+
+            // Settle exactly once, whether the stream completed or was aborted.
+            // An aborted request stays charged: retries replay it (see lib/chat/idempotency.ts).
+            // Settled before the reply is stored, so a replayable reply is never left uncharged.
+            const settled = await withSpan("settleCreditHold", () => settleCreditHold({
+              holdId: activeHoldId,
+              credits: creditsCharged,
+              usage: { model, promptTokens: chargedPromptTokens, completionTokens: chargedCompletionTokens },
+            }));
+
+            if (reply) {
+              await withSpan("prisma.chatMessage.create", () => prisma.chatMessage.create({
+                data: {
+                  sessionId: streamSessionId,
+                  auth0Sub: streamUserId,
+                  role: "assistant",
+                  content: reply,
+                  tokensIn: promptTokens,
+                  tokensOut: completionTokens,
+                  requestId,
+                  aborted,
+                  rubricVersionId: mode === "review" ? rubric.versionId : null,
+                  ...(resolution?.outcome.ok
+                    ? {
+                        review: reviewRecordCreate({
+                          review: resolution.outcome.review,
+                          organizationId: streamOrganizationId,
+                          auth0Sub: streamUserId,
+                          sessionId: streamSessionId,
+                          requestId,
+                          rubricVersionId: rubric.versionId,
+                          repaired: Boolean(resolution.repair?.succeeded),
+                        }),
+                      }
+                    : {}),
+                },
+              }));
+            }
+
+            const base = {
+              mode,
+              sessionId: streamSessionId,
+              creditsCharged: settled?.charged ?? 0,
+              creditsRemaining: settled?.balance ?? null,
+              budget: settled?.budget ?? null,
+              usage: usageMeta,
+              rate: streamRateMeta,
+              aborted,
+              ...(mode === "review" ? { repair: repair.meta, rubric: rubricSummary(rubric) } : {}),
+            };
+
+            let final: Record<string, unknown> = { ok: !aborted, ...base };
+            if (resolution) {
+              const outcome = resolution.outcome;
+              final = outcome.ok
+                ? { ok: true, ...base, review: outcome.review }
+                : {
+                    ok: false,
+                    ...base,
+                    error: outcome.error,
+                    errors: outcome.errors,
+                    normalized: outcome.normalized,
+                    raw: reply,
+                  };
+            }
+
+            log(aborted ? "warn" : "info", {
+              requestId,
+              event: "chat_completed",
+              userId: streamUserId,
+              mode,
+              latencyMs: Date.now() - startTime,
+              meta: {
+                stream: true,
+                aborted,
+                ...(resolution && !resolution.outcome.ok
+                  ? { reviewParse: resolution.outcome.reason, reviewErrors: resolution.outcome.errors }
+                  : {}),
+                ...(resolution?.repair ? { repair: repair.meta, repairErrors: resolution.repair.errors } : {}),
+              },
+            });
+
+            await recordChatMetric({
+              nowMs: Date.now(),
+              mode,
+              status: 200,
+              latencyMs: Date.now() - startTime,
+              usage: {
+                model,
+                promptTokens: chargedPromptTokens,
+                completionTokens: chargedCompletionTokens,
+                credits: settled?.charged ?? 0,
+              },
+            });
+
+            endSpan(streamSpan);
+            send(sseEvent("done", final));
+          } catch (e) {
+            const errMsg = e instanceof Error ? e.message : "Unknown server error";
+            endSpan(streamSpan, e);
+
+            log("error", {
+              requestId,
+              event: "chat_error",
+              userId: streamUserId,
+              mode,
+              error: errMsg,
+              meta: { stream: true, latencyMs: Date.now() - startTime },
+            });
+
+            await recordChatMetric({
+              nowMs: Date.now(),
+              mode,
+              status: 500,
+              latencyMs: Date.now() - startTime,
+            });
+
+            // No-op if the hold was already settled
+            await releaseCreditHold(activeHoldId).catch(() => false);
+
+            send(sseEvent("error", { ok: false, error: "Server error", details: errMsg }));
+          } finally {
+            if (streamLockedAs) await releaseRequestLock(streamLockedAs, requestId);
+            if (!closed) {
+              closed = true;
+              try {
+                controller.close();
+              } catch {
+                // already closed by the runtime
+              }
+            }
+          }
+        },
+        cancel() {
+          // Client disconnected: stop paying for tokens nobody will read.
+          upstreamAbort.abort();
+        },
+      }));
+
+      lockOwnedByStream = true; // released when the stream settles
+      return new Response(stream, {
+        status: 200,
+        headers: {
+          ...responseHeaders(requestId, rateMeta ?? undefined),
+          "Content-Type": "text/event-stream; charset=utf-8",
+          "Cache-Control": "no-cache, no-transform",
+          Connection: "keep-alive",
+        },
+      });
+    }
+
+    // 7b) NON-STREAM: single JSON response
+    const modelSignal = AbortSignal.any([req.signal, AbortSignal.timeout(MODEL_TIMEOUT_MS)]);
+    const completion = await withSpan(
+      "llm.complete",
+      async (span) => {
+        const result = await llm.complete(llmRequest, { signal: modelSignal });
+        span.setAttributes({
+          "gen_ai.response.model": result.model,
+          "gen_ai.usage.input_tokens": result.usage?.promptTokens ?? 0,
+          "gen_ai.usage.output_tokens": result.usage?.completionTokens ?? 0,
+        });
+        return result;
+      },
+      { "gen_ai.system": llm.name, "gen_ai.request.model": llm.model }
+    );
+
+    let reply = completion.text || "No reply returned";
+
+    // Review: validate, and run one repair pass if the output doesn't match the schema
+    const resolution =
+      mode === "review"
+        ? await withSpan("resolveReview", () =>
+            resolveReview({ llm, request: llmRequest, reply, rubric, signal: modelSignal })
+          )
+        : null;
+    if (resolution) reply = resolution.reply;
+    const repair = repairAccounting(resolution?.repair ?? null);
+
+    // Usage → credits (repair tokens only when the policy bills them)
+    const promptTokens = completion.usage?.promptTokens ?? 0;
+    const completionTokens = completion.usage?.completionTokens ?? 0;
+    const totalTokens = completion.usage?.totalTokens ?? promptTokens + completionTokens;
+    const model = completion.model;
+    const chargedPromptTokens = promptTokens + repair.billedPromptTokens;
+    const chargedCompletionTokens = completionTokens + repair.billedCompletionTokens;
+    const creditsUsed = tokensToCredits({
+      model,
+      promptTokens: chargedPromptTokens,
+      completionTokens: chargedCompletionTokens,
+    });
+
+    // Settle: charge actual usage and free the hold. This runs before the reply is stored:
+    // a stored reply is what X-Request-Id replays return, so it must never exist uncharged.
+    const settled = await withSpan("settleCreditHold", () => settleCreditHold({
+      holdId: activeHoldId,
+      credits: creditsUsed,
+      usage: { model, promptTokens: chargedPromptTokens, completionTokens: chargedCompletionTokens },
+    }));
+
+    // Store assistant message (raw text; a valid review also gets a structured Review record)
+    await withSpan("prisma.chatMessage.create", () => prisma.chatMessage.create({
+      data: {
+        sessionId,
+        auth0Sub,
+        role: "assistant",
+        content: reply,
+        tokensIn: promptTokens,
+        tokensOut: completionTokens,
+        requestId,
+        rubricVersionId: mode === "review" ? rubric.versionId : null,
+        ...(resolution?.outcome.ok
+          ? {
+              review: reviewRecordCreate({
+                review: resolution.outcome.review,
+                organizationId: orgState.organizationId,
+                auth0Sub,
+                sessionId,
+                requestId,
+                rubricVersionId: rubric.versionId,
+                repaired: Boolean(resolution.repair?.succeeded),
+              }),
+            }
+          : {}),
+      },
+    }));
+
+    const creditsCharged = settled?.charged ?? 0;
+    const creditsRemaining = settled?.balance ?? null;
+    const budget = settled?.budget ?? null;
+    const metricUsage = {
+      model,
+      promptTokens: chargedPromptTokens,
+      completionTokens: chargedCompletionTokens,
+      credits: creditsCharged,
+    };
+
+    // 8) REVIEW: return the validated (possibly repaired) result
+    if (resolution) {
+      const outcome = resolution.outcome;
+      const repairLog = resolution.repair ? { repair: repair.meta, repairErrors: resolution.repair.errors } : {};
+
+      if (!outcome.ok) {
         log("warn", {
           requestId,
           event: "chat_completed",
           userId,
           mode,
           latencyMs: Date.now() - startTime,
-          meta: { reviewParse: "json_parse_failed" },
+          meta: { reviewParse: outcome.reason, reviewErrors: outcome.errors, ...repairLog },
         });
 
         await recordChatMetric({
@@ -469,23 +976,63 @@ export async function POST(req: Request) {
           mode,
           status: 200,
           latencyMs: Date.now() - startTime,
+          usage: metricUsage,
         });
 
         return NextResponse.json(
           {
             ok: false,
             mode,
-            error: "Failed to parse review JSON",
+            error: outcome.error,
+            errors: outcome.errors,
+            normalized: outcome.normalized,
             raw: reply,
             sessionId,
             creditsCharged,
             creditsRemaining,
-            usage: { promptTokens, completionTokens, totalTokens },
+            budget,
+            usage: { promptTokens, completionTokens, totalTokens, ...historyUsage },
+            repair: repair.meta,
+            rubric: rubricSummary(rubric),
             rate: rateMeta,
           },
           { status: 200, headers: responseHeaders(requestId, rateMeta ?? undefined) }
         );
       }
+
+      log("info", {
+        requestId,
+        event: "chat_completed",
+        userId,
+        mode,
+        latencyMs: Date.now() - startTime,
+        ...(resolution.repair ? { meta: repairLog } : {}),
+      });
+
+      await recordChatMetric({
+        nowMs: Date.now(),
+        mode,
+        status: 200,
+        latencyMs: Date.now() - startTime,
+        usage: metricUsage,
+      });
+
+      return NextResponse.json(
+        {
+          ok: true,
+          mode,
+          review: outcome.review,
+          sessionId,
+          creditsCharged,
+          creditsRemaining,
+          budget,
+          usage: { promptTokens, completionTokens, totalTokens, ...historyUsage },
+          repair: repair.meta,
+          rubric: rubricSummary(rubric),
+          rate: rateMeta,
+        },
+        { status: 200, headers: responseHeaders(requestId, rateMeta ?? undefined) }
+      );
     }
 
     // 9) COACH: return text
@@ -496,6 +1043,7 @@ export async function POST(req: Request) {
       mode,
       status: 200,
       latencyMs: Date.now() - startTime,
+      usage: metricUsage,
     });
 
     return NextResponse.json(
@@ -506,13 +1054,18 @@ export async function POST(req: Request) {
         sessionId,
         creditsCharged,
         creditsRemaining,
-        usage: { promptTokens, completionTokens, totalTokens },
+        budget,
+        usage: { promptTokens, completionTokens, totalTokens, ...historyUsage },
         rate: rateMeta,
       },
       { status: 200, headers: responseHeaders(requestId, rateMeta ?? undefined) }
     );
   } catch (e: unknown) {
     const errMsg = e instanceof Error ? e.message : "Unknown server error";
+    const errorKind = llm.classifyError(e);
+
+    // Model error/timeout after authorization: give the held credits back.
+    if (holdId) await releaseCreditHold(holdId).catch(() => false);
 
     log("error", {
       requestId,
@@ -520,7 +1073,7 @@ export async function POST(req: Request) {
       userId,
       mode: modeForLog,
       error: errMsg,
-      meta: { latencyMs: Date.now() - startTime },
+      meta: { latencyMs: Date.now() - startTime, provider: llm.name, errorKind },
     });
 
     await recordChatMetric({
@@ -531,8 +1084,10 @@ export async function POST(req: Request) {
     });
 
     return NextResponse.json(
-      { ok: false, error: "Server error", details: errMsg, ...(rateMeta ? { rate: rateMeta } : {}) },
+      { ok: false, error: "Server error", details: errMsg, errorKind, ...(rateMeta ? { rate: rateMeta } : {}) },
       { status: 500, headers: responseHeaders(requestId, rateMeta ?? undefined) }
     );
+  } finally {
+    if (lockedAs && !lockOwnedByStream) await releaseRequestLock(lockedAs, requestId);
   }
-}
+});
@@ -0,0 +1,52 @@
+// app/api/cron/metrics-rollup/route.ts
+/**
+ * Chat metrics rollup trigger (see lib/metrics/rollup.ts).
+ * Called by a scheduler every 15 minutes with `Authorization: Bearer $CRON_SECRET`.
+ */
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+
+import { isAuthorizedCron } from "@/lib/auth/cron";
+import { log } from "@/lib/logger";
+import { rollupChatMetrics } from "@/lib/metrics/rollup";
+
+function headers(requestId: string) {
+  return { "X-Request-Id": requestId };
+}
+
+async function handle(req: Request) {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+  const startTime = Date.now();
+
+  if (!isAuthorizedCron(req)) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401, headers: headers(requestId) });
+  }
+
+  try {
+    const result = await rollupChatMetrics();
+
+    log("info", {
+      requestId,
+      event: "metrics_rollup_completed",
+      latencyMs: Date.now() - startTime,
+      meta: { ...result },
+    });
+
+    return NextResponse.json({ ok: true, ...result }, { status: 200, headers: headers(requestId) });
+  } catch (e: unknown) {
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "metrics_rollup_error", error: errMsg });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
@@ -0,0 +1,53 @@
+// app/api/cron/renewals/route.ts
+/**
+ * Subscription renewal trigger (see lib/billing/renewals.ts).
+ * Called by a scheduler (Vercel Cron sends GET with `Authorization: Bearer $CRON_SECRET`)
+ * or by `npm run renewals`. No user session: the shared secret is the only auth.
+ */
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+
+import { isAuthorizedCron } from "@/lib/auth/cron";
+import { log } from "@/lib/logger";
+import { runRenewals } from "@/lib/billing/renewals";
+
+function headers(requestId: string) {
+  return { "X-Request-Id": requestId };
+}
+
+async function handle(req: Request) {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+  const startTime = Date.now();
+
+  if (!isAuthorizedCron(req)) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401, headers: headers(requestId) });
+  }
+
+  try {
+    const result = await runRenewals();
+
+    log(result.failed.length ? "warn" : "info", {
+      requestId,
+      event: "renewals_completed",
+      latencyMs: Date.now() - startTime,
+      meta: { scanned: result.scanned, advanced: result.advanced, granted: result.granted, failed: result.failed.length },
+    });
+
+    return NextResponse.json({ ok: true, ...result }, { status: 200, headers: headers(requestId) });
+  } catch (e: unknown) {
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "renewals_error", error: errMsg });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
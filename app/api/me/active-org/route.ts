@@ -0,0 +1,48 @@
+// app/api/me/active-org/route.ts
+/**
+ * Switch the active organization (UI switcher).
+ * Validates membership, then stores the choice in the active_org cookie,
+ * which every org-scoped API reads (see lib/org/activeOrg.ts).
+ */
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { ACTIVE_ORG_COOKIE, ActiveOrgError, resolveActiveOrg } from "@/lib/org/activeOrg";
+
+type Body = {
+  organizationId: string;
+};
+
+export async function POST(req: Request) {
+  const session = await auth0.getSession();
+  const auth0Sub = session?.user?.sub as string | undefined;
+  if (!auth0Sub) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+  const body = (await req.json().catch(() => null)) as Body | null;
+  const organizationId = typeof body?.organizationId === "string" ? body.organizationId.trim() : "";
+  if (!organizationId) {
+    return NextResponse.json({ ok: false, error: "Missing organizationId" }, { status: 400 });
+  }
+
+  try {
+    const member = await resolveActiveOrg({ auth0Sub, requested: { organizationId, source: "header" } });
+
+    const res = NextResponse.json({ ok: true, activeOrganizationId: member?.organizationId ?? null, role: member?.role });
+    res.cookies.set(ACTIVE_ORG_COOKIE, organizationId, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: 60 * 60 * 24 * 365,
+    });
+    return res;
+  } catch (e) {
+    if (e instanceof ActiveOrgError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: 403 });
+    }
+    throw e;
+  }
+}
@@ -2,7 +2,9 @@
 /**
  * Minimal "who am I" endpoint for the UI.
  * - Avoids returning full session/user object (PII + unstable shape)
- * - Provides the minimum needed for UI gating (email + isAdmin)
+ * - Provides the minimum needed for UI gating (email + isAdmin + effective permissions)
+ * - Lists org memberships + the active org (for the UserBar switcher)
+ * - Org credit balance + the user's remaining personal budget in the active org
  */
 
 export const runtime = "nodejs";
@@ -10,13 +12,56 @@ export const dynamic = "force-dynamic";
 
 import { NextResponse } from "next/server";
 import { auth0 } from "@/lib/auth0";
-import { isAdminFromAccessToken } from "@/lib/auth/rbac";
+import { RBAC, getRolesFromAccessToken } from "@/lib/auth/rbac";
+import { getAccessContext, permissionsForRoles, type Permission } from "@/lib/auth/permissions";
+import { ActiveOrgError, listMemberships } from "@/lib/org/activeOrg";
+import { prisma } from "@/lib/prisma";
+import { memberBudgetStatus, type MemberBudget } from "@/lib/billing/memberBudgets";
+
+type Membership = { organizationId: string; name: string; role: string };
 
 type MeResponse =
-  | { authenticated: true; email: string; isAdmin: boolean }
+  | {
+      authenticated: true;
+      email: string;
+      isAdmin: boolean;
+      permissions: Permission[];
+      memberships: Membership[];
+      activeOrganizationId: string | null;
+      credits: { balance: number; available: number; budget: MemberBudget } | null;
+    }
   | { authenticated: false };
 
-export async function GET() {
+/** A bad X-Org-Id shouldn't break "who am I": fall back to global roles only (no active org). */
+async function effectiveAccess(req: Request) {
+  try {
+    const access = await getAccessContext(req);
+    if (access) return access;
+  } catch (e) {
+    if (!(e instanceof ActiveOrgError)) throw e;
+  }
+
+  const globalRoles = await getRolesFromAccessToken();
+  return { organizationId: null, globalRoles, permissions: permissionsForRoles({ globalRoles, orgRole: null }) };
+}
+
+async function creditsForOrg(organizationId: string | null, auth0Sub: string) {
+  if (!organizationId) return null;
+
+  const wallet = await prisma.creditWallet.findUnique({
+    where: { organizationId_currency: { organizationId, currency: "credits" } },
+    select: { id: true, balance: true, reserved: true },
+  });
+  const budget = await memberBudgetStatus(prisma, { organizationId, auth0Sub, walletId: wallet?.id ?? null });
+
+  return {
+    balance: wallet?.balance ?? 0,
+    available: wallet ? wallet.balance - wallet.reserved : 0,
+    budget,
+  };
+}
+
+export async function GET(req: Request) {
   const session = await auth0.getSession();
 
   if (!session?.user) {
@@ -27,14 +72,20 @@ export async function GET() {
   const email = (user.email as string | undefined) ?? "Unknown user";
 
   // Auth0 Next.js SDK v4: namespaced claims may not be present in session.user
-  // so we use the Access Token for role checks.
-  const isAdmin = await isAdminFromAccessToken();
+  // so roles come from the Access Token (inside getAccessContext).
+  const auth0Sub = session.user.sub as string;
+  const [memberships, access] = await Promise.all([listMemberships(auth0Sub), effectiveAccess(req)]);
+  const credits = await creditsForOrg(access.organizationId, auth0Sub);
 
   return NextResponse.json<MeResponse>(
     {
       authenticated: true,
       email,
-      isAdmin,
+      isAdmin: access.globalRoles.includes(RBAC.ADMIN_ROLE),
+      permissions: access.permissions,
+      memberships: memberships.map(({ organizationId, name, role }) => ({ organizationId, name, role })),
+      activeOrganizationId: access.organizationId,
+      credits,
     },
     { status: 200 }
   );
@@ -0,0 +1,48 @@
+// app/api/metrics/route.ts
+/**
+ * Prometheus scrape endpoint (text exposition; metric catalogue in lib/metrics/prometheus.ts).
+ * Protected by `Authorization: Bearer $METRICS_SCRAPE_TOKEN`; without the env var every scrape is refused.
+ *
+ * scrape_configs:
+ *   - job_name: stefans-mvp
+ *     metrics_path: /api/metrics
+ *     authorization: { credentials: <METRICS_SCRAPE_TOKEN> }
+ */
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+
+import { isAuthorizedMetricsScrape } from "@/lib/auth/cron";
+import { log } from "@/lib/logger";
+import { EXPOSITION_CONTENT_TYPE, collectMetrics } from "@/lib/metrics/prometheus";
+
+function headers(requestId: string) {
+  return { "X-Request-Id": requestId };
+}
+
+export async function GET(req: Request) {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  if (!isAuthorizedMetricsScrape(req)) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401, headers: headers(requestId) });
+  }
+
+  try {
+    const body = await collectMetrics();
+    return new NextResponse(body, {
+      status: 200,
+      headers: { ...headers(requestId), "Content-Type": EXPOSITION_CONTENT_TYPE, "Cache-Control": "no-store" },
+    });
+  } catch (e: unknown) {
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "metrics_scrape_error", error: errMsg });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+
+import { getAccessContext } from "@/lib/auth/permissions";
+import { ActiveOrgError } from "@/lib/org/activeOrg";
+import { log } from "@/lib/logger";
+import { dismissNotification, listActiveNotifications } from "@/lib/billing/balanceAlerts";
+import { traced } from "@/lib/telemetry/tracing";
+
+function headers(requestId: string) {
+  return { "X-Request-Id": requestId };
+}
+
+/** GET /api/notifications — open org notifications (e.g. low balance) the caller hasn't dismissed. */
+export const GET = traced("GET /api/notifications", async (req: Request) => {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  try {
+    const access = await getAccessContext(req);
+    if (!access) {
+      return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401, headers: headers(requestId) });
+    }
+    if (!access.organizationId) {
+      return NextResponse.json({ ok: true, items: [] }, { status: 200, headers: headers(requestId) });
+    }
+
+    const items = await listActiveNotifications(access.organizationId, access.auth0Sub);
+    return NextResponse.json({ ok: true, items }, { status: 200, headers: headers(requestId) });
+  } catch (e: unknown) {
+    if (e instanceof ActiveOrgError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: 403, headers: headers(requestId) });
+    }
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "notifications_error", error: errMsg, meta: { path: "/api/notifications" } });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+});
+
+/** PATCH /api/notifications { id } — hide a notification for the caller only. */
+export const PATCH = traced("PATCH /api/notifications", async (req: Request) => {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  try {
+    const access = await getAccessContext(req);
+    if (!access) {
+      return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401, headers: headers(requestId) });
+    }
+
+    const body = (await req.json().catch(() => null)) as { id?: unknown } | null;
+    if (typeof body?.id !== "string" || !body.id) {
+      return NextResponse.json({ ok: false, error: "id is required" }, { status: 400, headers: headers(requestId) });
+    }
+    if (!access.organizationId) {
+      return NextResponse.json({ ok: false, error: "Not found" }, { status: 404, headers: headers(requestId) });
+    }
+
+    const dismissed = await dismissNotification({
+      organizationId: access.organizationId,
+      notificationId: body.id,
+      auth0Sub: access.auth0Sub,
+    });
+
+    return NextResponse.json({ ok: true, dismissed }, { status: 200, headers: headers(requestId) });
+  } catch (e: unknown) {
+    if (e instanceof ActiveOrgError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: 403, headers: headers(requestId) });
+    }
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "notifications_error", error: errMsg, meta: { path: "/api/notifications" } });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+});
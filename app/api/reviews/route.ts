@@ -0,0 +1,115 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+
+import { auth0 } from "@/lib/auth0";
+import { requirePermission } from "@/lib/auth/permissions";
+import { ActiveOrgError, requestedOrg, resolveActiveOrg } from "@/lib/org/activeOrg";
+import { log } from "@/lib/logger";
+import { listReviews } from "@/lib/framework/reviewRecords";
+import { traced } from "@/lib/telemetry/tracing";
+
+function headers(requestId: string) {
+  return { "X-Request-Id": requestId };
+}
+
+function parseDate(v: string | null) {
+  if (!v) return undefined;
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+function parseScore(v: string | null) {
+  if (v === null || v === "") return undefined;
+  const n = Number(v);
+  return Number.isFinite(n) && n >= 0 && n <= 100 ? n : null;
+}
+
+/**
+ * GET /api/reviews?scope=me|org&from=&to=&minScore=&maxScore=&rubricId=&userId=&cursor=&limit=
+ * - scope=me (default): the caller's own reviews
+ * - scope=org: every member's reviews (reviews:read_org; userId narrows to one member)
+ * - from/to: ISO dates (to is exclusive)
+ */
+export const GET = traced("GET /api/reviews", async (req: Request) => {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  try {
+    const url = new URL(req.url);
+    const scope = url.searchParams.get("scope") === "org" ? "org" : "me";
+
+    let organizationId: string;
+    let auth0Sub: string | undefined;
+
+    if (scope === "org") {
+      const access = await requirePermission(req, "reviews:read_org", { requireOrg: true });
+      if (!access.ok) {
+        return NextResponse.json({ ok: false, error: access.error }, { status: access.status, headers: headers(requestId) });
+      }
+      organizationId = access.organizationId;
+      auth0Sub = url.searchParams.get("userId") || undefined;
+    } else {
+      const session = await auth0.getSession();
+      if (!session?.user?.sub) {
+        return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401, headers: headers(requestId) });
+      }
+      auth0Sub = session.user.sub as string;
+
+      const member = await resolveActiveOrg({ auth0Sub, requested: requestedOrg(req) });
+      if (!member) {
+        return NextResponse.json(
+          { ok: true, items: [], nextCursor: null, stats: { count: 0, avgScore: null, minScore: null, maxScore: null } },
+          { status: 200, headers: headers(requestId) }
+        );
+      }
+      organizationId = member.organizationId;
+    }
+
+    const from = parseDate(url.searchParams.get("from"));
+    const to = parseDate(url.searchParams.get("to"));
+    const minScore = parseScore(url.searchParams.get("minScore"));
+    const maxScore = parseScore(url.searchParams.get("maxScore"));
+
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid from/to (expected ISO date)" },
+        { status: 400, headers: headers(requestId) }
+      );
+    }
+    if (minScore === null || maxScore === null) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid minScore/maxScore (0-100)" },
+        { status: 400, headers: headers(requestId) }
+      );
+    }
+
+    const limit = Math.min(Math.max(Number(url.searchParams.get("limit") ?? 50) || 50, 1), 200);
+
+    const result = await listReviews({
+      organizationId,
+      auth0Sub,
+      from,
+      to,
+      minScore,
+      maxScore,
+      rubricId: url.searchParams.get("rubricId") || undefined,
+      cursor: url.searchParams.get("cursor"),
+      limit,
+    });
+
+    return NextResponse.json({ ok: true, scope, ...result }, { status: 200, headers: headers(requestId) });
+  } catch (e: unknown) {
+    if (e instanceof ActiveOrgError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: 403, headers: headers(requestId) });
+    }
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "reviews_error", error: errMsg, meta: { path: "/api/reviews" } });
+    return NextResponse.json(
+      { ok: false, error: "Server error", details: errMsg },
+      { status: 500, headers: headers(requestId) }
+    );
+  }
+});
@@ -0,0 +1,62 @@
+// app/api/webhooks/payments/route.ts
+/**
+ * Payment provider webhooks (see lib/billing/payments.ts).
+ * No user session: the provider's signature over the raw body is the only auth,
+ * and signatures outside the tolerance window are rejected (replay protection).
+ *
+ * 2xx = handled (including duplicates and ignored event types); 5xx = the provider retries.
+ */
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+
+import { log } from "@/lib/logger";
+import { getPaymentProvider, processPaymentEvent } from "@/lib/billing/payments";
+import { scheduleBalanceAlertCheck } from "@/lib/billing/balanceAlerts";
+import { PaymentProviderError, WebhookVerificationError } from "@/lib/payments/provider";
+
+function headers(requestId: string) {
+  return { "X-Request-Id": requestId };
+}
+
+export async function POST(req: Request) {
+  const inbound = req.headers.get("x-request-id");
+  const requestId = inbound && inbound.length < 200 ? inbound : randomUUID();
+
+  try {
+    const provider = getPaymentProvider();
+    const rawBody = await req.text(); // signature covers the exact bytes
+
+    let event;
+    try {
+      event = provider.parseWebhook(rawBody, req.headers);
+    } catch (e) {
+      if (!(e instanceof WebhookVerificationError)) throw e;
+      log("warn", { requestId, event: "payment_webhook_rejected", error: e.message, meta: { provider: provider.name } });
+      return NextResponse.json({ ok: false, error: "Invalid signature" }, { status: 400, headers: headers(requestId) });
+    }
+
+    const outcome = await processPaymentEvent(provider.name, event);
+
+    log("info", {
+      requestId,
+      event: "payment_event_processed",
+      meta: { provider: provider.name, eventId: event.id, type: event.type, ...outcome },
+    });
+    if (outcome.status === "processed" && outcome.organizationId) {
+      scheduleBalanceAlertCheck(outcome.organizationId, requestId);
+    }
+
+    return NextResponse.json({ ok: true, ...outcome }, { status: 200, headers: headers(requestId) });
+  } catch (e: unknown) {
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "payment_webhook_error", error: errMsg });
+    return NextResponse.json(
+      { ok: false, error: e instanceof PaymentProviderError ? "Payments are not configured" : "Server error" },
+      { status: e instanceof PaymentProviderError ? 503 : 500, headers: headers(requestId) }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type OrgNotification = { id: string; kind: string; message: string; createdAt: string };
+
+/**
+ * Org notifications (low credit balance) shown above the chat.
+ * `refreshKey` changes after each chat request; alerts are evaluated after the response,
+ * so the refetch waits a moment before asking.
+ */
+export default function AlertBanner({ refreshKey }: { refreshKey?: string | null }) {
+  const [items, setItems] = useState<OrgNotification[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const t = setTimeout(
+      async () => {
+        try {
+          const res = await fetch("/api/notifications", { cache: "no-store" });
+          if (!res.ok) return;
+          const data = (await res.json()) as { items?: OrgNotification[] };
+          if (!cancelled) setItems(data.items ?? []);
+        } catch {
+          // Banner is best-effort
+        }
+      },
+      refreshKey ? 1500 : 0
+    );
+
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
+    };
+  }, [refreshKey]);
+
+  const dismiss = async (id: string) => {
+    setItems((prev) => prev.filter((n) => n.id !== id));
+    await fetch("/api/notifications", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id }),
+    }).catch(() => undefined);
+  };
+
+  if (items.length === 0) return null;
+
+  return (
+    <div style={{ display: "grid", gap: 8, marginBottom: 12 }}>
+      {items.map((n) => (
+        <div
+          key={n.id}
+          role="alert"
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: 10,
+            padding: "10px 12px",
+            borderRadius: 12,
+            border: "1px solid rgba(255,196,0,0.45)",
+            background: "rgba(255,196,0,0.12)",
+            color: "#fff",
+            fontSize: 13,
+            fontWeight: 800,
+          }}
+        >
+          <span style={{ flex: 1 }}>{n.message}</span>
+          <button
+            onClick={() => void dismiss(n.id)}
+            style={{
+              padding: "4px 10px",
+              borderRadius: 10,
+              border: "1px solid rgba(255,255,255,0.25)",
+              background: "transparent",
+              color: "#fff",
+              cursor: "pointer",
+            }}
+          >
+            Dismiss
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
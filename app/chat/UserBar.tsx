@@ -2,12 +2,37 @@
 
 import { useEffect, useState } from "react";
 
+type Membership = { organizationId: string; name: string; role: string };
+
 type MeResponse =
-  | { authenticated: true; email: string; isAdmin: boolean }
+  | {
+      authenticated: true;
+      email: string;
+      isAdmin: boolean;
+      permissions: string[];
+      memberships: Membership[];
+      activeOrganizationId: string | null;
+    }
   | { authenticated: false };
 
 export default function UserBar() {
   const [me, setMe] = useState<MeResponse | null>(null);
+  const [switching, setSwitching] = useState(false);
+
+  /** Persist the choice server-side (cookie), then reload so every view uses the new org. */
+  const switchOrg = async (organizationId: string) => {
+    setSwitching(true);
+    try {
+      const res = await fetch("/api/me/active-org", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ organizationId }),
+      });
+      if (res.ok) window.location.reload();
+    } finally {
+      setSwitching(false);
+    }
+  };
 
   useEffect(() => {
     let cancelled = false;
@@ -34,7 +59,23 @@ export default function UserBar() {
     <div className="flex items-center gap-3 text-sm">
       <span className="opacity-80">{me.email}</span>
 
-      {me.isAdmin && (
+      {me.memberships.length > 1 && (
+        <select
+          value={me.activeOrganizationId ?? ""}
+          onChange={(e) => void switchOrg(e.target.value)}
+          disabled={switching}
+          className="rounded-lg border px-2 py-2"
+          aria-label="Active organization"
+        >
+          {me.memberships.map((m) => (
+            <option key={m.organizationId} value={m.organizationId}>
+              {m.name} ({m.role})
+            </option>
+          ))}
+        </select>
+      )}
+
+      {me.permissions.includes("metrics:read") && (
         <a href="/admin/metrics" className="rounded-lg border px-3 py-2 hover:bg-white/10">
           Metrics
         </a>
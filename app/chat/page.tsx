@@ -2,6 +2,7 @@
 
 import { useEffect, useMemo, useRef, useState } from "react";
 import UserBar from "./UserBar";
+import AlertBanner from "./AlertBanner";
 
 /**
  * Chat modes:
@@ -10,15 +11,30 @@ import UserBar from "./UserBar";
  */
 type Mode = "coach" | "review";
 
-/** Review breakdown component scores (max caps are part of the scoring model). */
-type ReviewBreakdown = {
-  businessRelevance: number; // 0-25
-  riskCoverage: number; // 0-25
-  designQuality: number; // 0-20
-  levelAndScope: number; // 0-15
-  diagnosticValue: number; // 0-15
+/** Review breakdown: rubric criterion key → points (max caps come from the rubric). */
+type ReviewBreakdown = Record<string, number>;
+
+/** Rubric that scored a review (returned by the API alongside the review). */
+type RubricView = {
+  id: string | null;
+  versionId: string | null;
+  name: string;
+  version: number;
+  criteria: { key: string; label: string; maxPoints: number; weight: number }[];
 };
 
+/** Built-in scoring model (used when the server doesn't send a rubric, e.g. older sessions). */
+const DEFAULT_CRITERIA: RubricView["criteria"] = [
+  { key: "businessRelevance", label: "Business relevance", maxPoints: 25, weight: 25 },
+  { key: "riskCoverage", label: "Risk coverage", maxPoints: 25, weight: 25 },
+  { key: "designQuality", label: "Design quality", maxPoints: 20, weight: 20 },
+  { key: "levelAndScope", label: "Level & scope", maxPoints: 15, weight: 15 },
+  { key: "diagnosticValue", label: "Diagnostic value", maxPoints: 15, weight: 15 },
+];
+
+/** Org rubric option for the review-mode selector (GET /api/admin/rubrics). */
+type RubricOption = { id: string; name: string; isDefault: boolean; currentVersion: number };
+
 /** Structured output returned by the API in review mode. */
 type ReviewResult = {
   score: number; // 0-100
@@ -39,7 +55,7 @@ type ReviewResult = {
  */
 type ChatItem =
   | { kind: "text"; role: "user" | "bot"; text: string; requestId?: string }
-  | { kind: "review"; role: "bot"; review: ReviewResult; requestId?: string }
+  | { kind: "review"; role: "bot"; review: ReviewResult; rubric?: RubricView | null; requestId?: string }
   | { kind: "error"; role: "bot"; title: string; details: string; requestId?: string };
 
 type PersistedState = {
@@ -81,6 +97,7 @@ type HistoryMessage = {
   role: "user" | "assistant" | "system";
   content: string;
   createdAt: string;
+  rubric?: RubricView | null;
 };
 
 /** Local storage key (so reload keeps the demo context). */
@@ -100,7 +117,7 @@ function mdSafe(s: string) {
  * Convert review result to Markdown so it can be pasted into Jira/Confluence.
  * This is the "human-friendly export".
  */
-function reviewToMarkdown(r: ReviewResult) {
+function reviewToMarkdown(r: ReviewResult, criteria: RubricView["criteria"]) {
   const b = r.breakdown;
 
   const lines: string[] = [];
@@ -110,11 +127,7 @@ function reviewToMarkdown(r: ReviewResult) {
   lines.push("");
 
   lines.push("### Breakdown");
-  lines.push(`- Business relevance: ${b.businessRelevance}/25`);
-  lines.push(`- Risk coverage: ${b.riskCoverage}/25`);
-  lines.push(`- Design quality: ${b.designQuality}/20`);
-  lines.push(`- Level & scope: ${b.levelAndScope}/15`);
-  lines.push(`- Diagnostic value: ${b.diagnosticValue}/15`);
+  for (const c of criteria) lines.push(`- ${mdSafe(c.label)}: ${b[c.key] ?? 0}/${c.maxPoints}`);
   lines.push("");
 
   const addList = (title: string, items: string[]) => {
@@ -191,6 +204,47 @@ async function fetchJSON<T>(input: RequestInfo, init?: RequestInit): Promise<T>
   return data as T;
 }
 
+/**
+ * Minimal SSE reader for POST /api/chat streaming responses.
+ * EventSource only supports GET, so we parse "event:/data:" frames from the fetch body.
+ */
+async function readEventStream(
+  res: Response,
+  onEvent: (event: string, data: Record<string, unknown>) => void
+): Promise<void> {
+  const reader = res.body?.getReader();
+  if (!reader) return;
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let sep = buffer.indexOf("\n\n");
+    while (sep >= 0) {
+      const frame = buffer.slice(0, sep);
+      buffer = buffer.slice(sep + 2);
+      sep = buffer.indexOf("\n\n");
+
+      let event = "message";
+      let data = "";
+      for (const line of frame.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data += line.slice(5).trim();
+      }
+
+      try {
+        onEvent(event, data ? (JSON.parse(data) as Record<string, unknown>) : {});
+      } catch {
+        // ignore malformed frames
+      }
+    }
+  }
+}
+
 /**
  * Attempt to parse a bot message content as a ReviewResult JSON.
  * This enables "history replay" to render past review results nicely.
@@ -202,7 +256,8 @@ function tryParseReview(text: string): ReviewResult | null {
       obj &&
       typeof obj.score === "number" &&
       obj.breakdown &&
-      typeof obj.breakdown.businessRelevance === "number" &&
+      typeof obj.breakdown === "object" &&
+      Object.values(obj.breakdown).every((v) => typeof v === "number") &&
       Array.isArray(obj.riskGaps) &&
       Array.isArray(obj.antiPatterns) &&
       Array.isArray(obj.improvements)
@@ -348,11 +403,20 @@ function Section({ title, items }: { title: string; items: string[] }) {
   );
 }
 
+/** Field-level validation errors (if any) followed by the raw model output. */
+function reviewErrorDetails(data: { raw?: unknown; errors?: unknown }) {
+  const errors = Array.isArray(data.errors)
+    ? (data.errors as { field?: string; message?: string }[]).map((e) => `- ${e.field}: ${e.message}`)
+    : [];
+  return errors.length ? `${errors.join("\n")}\n\n${String(data.raw)}` : String(data.raw);
+}
+
 /**
  * Review UI card for structured scoring output.
  * Includes Copy MD + Copy JSON with a small toast notification (no alerts).
  */
-function ReviewCard({ review }: { review: ReviewResult }) {
+function ReviewCard({ review, rubric }: { review: ReviewResult; rubric?: RubricView | null }) {
+  const criteria = rubric?.criteria ?? DEFAULT_CRITERIA;
   const score = clamp(Number(review.score) || 0, 0, 100);
   const grade =
     score >= 90 ? "Excellent" : score >= 75 ? "Good" : score >= 60 ? "Fair" : score >= 40 ? "Weak" : "Poor";
@@ -389,11 +453,16 @@ function ReviewCard({ review }: { review: ReviewResult }) {
         <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
           <div style={{ fontSize: 14, fontWeight: 900, letterSpacing: 0.2 }}>Review Score</div>
           <div style={{ fontSize: 13, color: "#444", lineHeight: 1.35 }}>{review.verdict}</div>
+          {rubric?.id && (
+            <div style={{ fontSize: 11, color: "#666" }}>
+              Rubric: {rubric.name} · v{rubric.version}
+            </div>
+          )}
         </div>
 
         <div style={{ display: "flex", flexDirection: "column", alignItems: "flex-end", gap: 8 }}>
           <div style={{ display: "flex", gap: 8 }}>
-            <SmallButton onClick={() => copyText(reviewToMarkdown(review), "Markdown")}>Copy MD</SmallButton>
+            <SmallButton onClick={() => copyText(reviewToMarkdown(review, criteria), "Markdown")}>Copy MD</SmallButton>
             <SmallButton onClick={() => copyText(reviewToJson(review), "JSON")} variant="dark">
               Copy JSON
             </SmallButton>
@@ -447,11 +516,9 @@ function ReviewCard({ review }: { review: ReviewResult }) {
         }}
       >
         <div style={{ fontSize: 12, fontWeight: 800, color: "#333" }}>Breakdown</div>
-        <BarRow label="Business relevance" value={review.breakdown.businessRelevance} max={25} />
-        <BarRow label="Risk coverage" value={review.breakdown.riskCoverage} max={25} />
-        <BarRow label="Design quality" value={review.breakdown.designQuality} max={20} />
-        <BarRow label="Level & scope" value={review.breakdown.levelAndScope} max={15} />
-        <BarRow label="Diagnostic value" value={review.breakdown.diagnosticValue} max={15} />
+        {criteria.map((c) => (
+          <BarRow key={c.key} label={c.label} value={review.breakdown[c.key]} max={c.maxPoints} />
+        ))}
       </div>
 
       <div style={{ display: "grid", gridTemplateColumns: "1fr", gap: 12, marginTop: 14 }}>
@@ -487,6 +554,18 @@ export default function ChatPage() {
   /** Last correlation id returned by the server (header X-Request-Id). */
   const [lastRequestId, setLastRequestId] = useState<string | null>(null);
 
+  // ---- Review rubrics (org-defined; empty = built-in scoring) --------------
+  const [rubricOptions, setRubricOptions] = useState<RubricOption[]>([]);
+  const [rubricId, setRubricId] = useState<string>("");
+
+  useEffect(() => {
+    if (mode !== "review") return;
+    // Needs chat:review; users without it can't use review mode anyway.
+    fetchJSON<{ rubrics: RubricOption[] }>("/api/admin/rubrics")
+      .then((data) => setRubricOptions(data.rubrics ?? []))
+      .catch(() => setRubricOptions([]));
+  }, [mode]);
+
   // ---- Chat History (sessions + active session) -----------------------------
   const [sessions, setSessions] = useState<SessionListItem[]>([]);
   const [sessionsCursor, setSessionsCursor] = useState<string | null>(null);
@@ -643,7 +722,7 @@ Expected: export stops, no file downloaded, status resets`;
 
           if (!isUser) {
             const maybeReview = tryParseReview(m.content);
-            if (maybeReview) return { kind: "review", role: "bot", review: maybeReview };
+            if (maybeReview) return { kind: "review", role: "bot", review: maybeReview, rubric: m.rubric ?? null };
           }
 
           return { kind: "text", role: isUser ? "user" : "bot", text: m.content };
@@ -718,21 +797,85 @@ Expected: export stops, no file downloaded, status resets`;
     setInput("");
     setIsSending(true);
 
+    // Coach replies stream token-by-token; review JSON is only useful once complete.
+    const streaming = mode === "coach";
+
     try {
       const res = await fetch("/api/chat", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
           "x-request-id": clientRequestId,
+          ...(streaming ? { Accept: "text/event-stream" } : {}),
         },
-        body: JSON.stringify({ message: text, mode, sessionId: activeSessionId }),
+        body: JSON.stringify({
+          message: text,
+          mode,
+          sessionId: activeSessionId,
+          stream: streaming,
+          ...(mode === "review" && rubricId ? { rubricId } : {}),
+        }),
       });
 
-      const data = await res.json().catch(() => ({}));
-
       const serverRequestId = res.headers.get("x-request-id") || clientRequestId;
       setLastRequestId(serverRequestId);
 
+      const isEventStream = (res.headers.get("content-type") || "").includes("text/event-stream");
+
+      if (res.ok && isEventStream) {
+        // Placeholder bot bubble that grows as deltas arrive (always the last item).
+        setItems((prev) => [...prev, { kind: "text", role: "bot", text: "", requestId: serverRequestId }]);
+        setRateLimitMsg(null);
+
+        const replaceLast = (next: ChatItem) => setItems((prev) => [...prev.slice(0, -1), next]);
+        let final: Record<string, unknown> | null = null;
+
+        await readEventStream(res, (event, payload) => {
+          if (event === "delta" && typeof payload.text === "string") {
+            const delta = payload.text;
+            setItems((prev) => {
+              const last = prev[prev.length - 1];
+              if (!last || last.kind !== "text" || last.role !== "bot") return prev;
+              return [...prev.slice(0, -1), { ...last, text: last.text + delta }];
+            });
+            setShouldScrollToBottom(true);
+            return;
+          }
+
+          if (event === "done" || event === "error") final = payload;
+        });
+
+        const done = final as Record<string, unknown> | null;
+        if (done?.rate) setRate(done.rate as RateMeta);
+        if (typeof done?.sessionId === "string") setActiveSessionId(done.sessionId);
+
+        if (done?.review) {
+          replaceLast({
+            kind: "review",
+            role: "bot",
+            review: done.review as ReviewResult,
+            rubric: (done.rubric as RubricView | undefined) ?? null,
+            requestId: serverRequestId,
+          });
+        } else if (!done || done.ok === false) {
+          if (!done?.aborted) {
+            replaceLast({
+              kind: "error",
+              role: "bot",
+              title: String(done?.error ?? "Stream ended unexpectedly"),
+              details: done?.raw ? reviewErrorDetails(done) : JSON.stringify(done ?? {}, null, 2),
+              requestId: serverRequestId,
+            });
+          }
+        }
+
+        setShouldScrollToBottom(true);
+        void loadSessions(true);
+        return;
+      }
+
+      const data = await res.json().catch(() => ({}));
+
       if (data?.rate) setRate(data.rate as RateMeta);
 
       if (res.ok && data?.sessionId && typeof data.sessionId === "string") {
@@ -753,7 +896,13 @@ Expected: export stops, no file downloaded, status resets`;
       if (res.ok && data?.mode === "review" && data?.review) {
         setItems((prev) => [
           ...prev,
-          { kind: "review", role: "bot", review: data.review as ReviewResult, requestId: serverRequestId },
+          {
+            kind: "review",
+            role: "bot",
+            review: data.review as ReviewResult,
+            rubric: (data.rubric as RubricView | undefined) ?? null,
+            requestId: serverRequestId,
+          },
         ]);
         setShouldScrollToBottom(true);
         void loadSessions(true);
@@ -767,7 +916,7 @@ Expected: export stops, no file downloaded, status resets`;
             kind: "error",
             role: "bot",
             title: data?.error ?? "Review parsing issue",
-            details: String(data.raw),
+            details: reviewErrorDetails(data),
             requestId: serverRequestId,
           },
         ]);
@@ -1028,6 +1177,8 @@ Expected: export stops, no file downloaded, status resets`;
       <main style={{ ...mainStyle, flex: 1, overflow: "auto" }}>
         <h1 style={{ fontSize: 22, fontWeight: 900, marginBottom: 6 }}>AI-Assisted Quality Review & Coaching Platform</h1>
 
+        <AlertBanner refreshKey={lastRequestId} />
+
         <div style={{ display: "flex", gap: 10, marginBottom: 14, flexWrap: "wrap" }}>
           <Chip>Demo</Chip>
           <HeaderButton onClick={() => loadDemo("coach", DEMO_COACH_LOGIN)} disabled={isSending}>
@@ -1054,6 +1205,22 @@ Expected: export stops, no file downloaded, status resets`;
             Review
           </HeaderButton>
 
+          {mode === "review" && rubricOptions.length > 0 && (
+            <select
+              value={rubricId}
+              onChange={(e) => setRubricId(e.target.value)}
+              disabled={isSending}
+              style={{ padding: "6px 10px", borderRadius: 10, border: "1px solid #ddd", fontSize: 12 }}
+            >
+              <option value="">Rubric: org default</option>
+              {rubricOptions.map((o) => (
+                <option key={o.id} value={o.id}>
+                  {o.name} (v{o.currentVersion}){o.isDefault ? " · default" : ""}
+                </option>
+              ))}
+            </select>
+          )}
+
           <div style={{ marginLeft: "auto", display: "flex", alignItems: "center", gap: 10 }}>
             <UserBar />
 
@@ -1141,7 +1308,7 @@ Expected: export stops, no file downloaded, status resets`;
                 if (it.kind === "review") {
                   return (
                     <div key={idx} style={{ display: "grid", gap: 8 }}>
-                      <ReviewCard review={it.review} />
+                      <ReviewCard review={it.review} rubric={it.rubric} />
                       {it.requestId && <div style={{ fontSize: 11, opacity: 0.65, color: "#111" }}>requestId: {it.requestId}</div>}
                     </div>
                   );
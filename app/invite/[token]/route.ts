@@ -0,0 +1,58 @@
+// app/invite/[token]/route.ts
+/**
+ * Invite link target. The middleware sends signed-out users through Auth0 login
+ * (returnTo keeps this path), so on arrival there is always a session.
+ * Redirects to /chat?invite=<result>.
+ */
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+
+import { auth0 } from "@/lib/auth0";
+import { log } from "@/lib/logger";
+import { acceptInvitation } from "@/lib/org/invitations";
+import { MembershipError, SeatLimitError } from "@/lib/org/members";
+
+type Ctx = { params: Promise<{ token: string }> };
+
+export async function GET(req: Request, ctx: Ctx) {
+  const requestId = randomUUID();
+  const { token } = await ctx.params;
+
+  const done = (result: string) => NextResponse.redirect(new URL(`/chat?invite=${result}`, req.url));
+
+  const session = await auth0.getSession();
+  const auth0Sub = session?.user?.sub as string | undefined;
+  if (!auth0Sub) {
+    const login = new URL("/auth/login", req.url);
+    login.searchParams.set("returnTo", new URL(req.url).pathname);
+    return NextResponse.redirect(login);
+  }
+
+  try {
+    const member = await acceptInvitation({
+      token,
+      auth0Sub,
+      email: (session?.user?.email as string | undefined) ?? null,
+    });
+
+    log("info", {
+      requestId,
+      event: "org_member_changed",
+      userId: auth0Sub,
+      meta: { organizationId: member.organizationId, role: member.role, joined: true },
+    });
+
+    return done("accepted");
+  } catch (e: unknown) {
+    if (e instanceof MembershipError) return done(e.code);
+    if (e instanceof SeatLimitError) return done("no_seats");
+
+    const errMsg = e instanceof Error ? e.message : "Unknown error";
+    log("error", { requestId, event: "admin_error", userId: auth0Sub, error: errMsg });
+    return done("error");
+  }
+}
@@ -0,0 +1,12 @@
+// instrumentation.ts
+/**
+ * Next.js server start hook: installs OpenTelemetry tracing (lib/telemetry/register.ts).
+ * Node.js only; the edge middleware isn't traced.
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { registerTracing } = await import("@/lib/telemetry/register");
+    registerTracing();
+  }
+}
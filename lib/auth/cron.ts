@@ -0,0 +1,25 @@
+// lib/auth/cron.ts
+/**
+ * Shared-secret auth for machine callers.
+ * - Scheduled jobs (/api/cron/*): Vercel Cron sends `Authorization: Bearer $CRON_SECRET`
+ * - Prometheus scrapes (/api/metrics): `Authorization: Bearer $METRICS_SCRAPE_TOKEN`
+ * Without the env var every call is refused.
+ */
+
+import { timingSafeEqual } from "crypto";
+
+export function hasBearerSecret(req: Request, secret: string | undefined) {
+  if (!secret) return false; // not configured → closed
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(req.headers.get("authorization") ?? "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function isAuthorizedCron(req: Request) {
+  return hasBearerSecret(req, process.env.CRON_SECRET);
+}
+
+export function isAuthorizedMetricsScrape(req: Request) {
+  return hasBearerSecret(req, process.env.METRICS_SCRAPE_TOKEN);
+}
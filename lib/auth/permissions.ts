@@ -0,0 +1,118 @@
+// lib/auth/permissions.ts
+/**
+ * Permission layer.
+ * Effective permissions = union of
+ * - global Auth0 roles (access token roles claim; platform operators)
+ * - the user's role in the active organization (OrgMember.role)
+ *
+ * Routes call requirePermission(req, "<permission>") instead of checking roles directly.
+ */
+
+import { auth0 } from "@/lib/auth0";
+import { getRolesFromAccessToken } from "@/lib/auth/rbac";
+import { ActiveOrgError, requestedOrg, resolveActiveOrg } from "@/lib/org/activeOrg";
+import { isOrgRole, type OrgRole } from "@/lib/org/members";
+
+export const PERMISSIONS = [
+  "chat:review", // review & scoring mode
+  "reviews:read_org", // every member's review records
+  "rubrics:manage",
+  "members:manage", // invitations, roles, removal
+  "billing:read",
+  "billing:manage", // plan changes
+  "billing:topup",
+  "billing:audit", // reconciliation across every org's wallet
+  "metrics:read",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/** Auth0 roles (global, any org). */
+const GLOBAL_ROLE_PERMISSIONS: Record<string, readonly Permission[]> = {
+  admin: PERMISSIONS,
+};
+
+/**
+ * OrgMember.role (scoped to the active org).
+ * chat:review stays global-only: every sign-up becomes admin of its own org, so granting it here
+ * would open review mode to everyone.
+ */
+const ORG_ROLE_PERMISSIONS: Record<OrgRole, readonly Permission[]> = {
+  admin: ["reviews:read_org", "rubrics:manage", "members:manage", "billing:read", "billing:manage"],
+  member: [],
+};
+
+export function permissionsForRoles(params: { globalRoles: string[]; orgRole: OrgRole | null }) {
+  const set = new Set<Permission>();
+  for (const role of params.globalRoles) for (const p of GLOBAL_ROLE_PERMISSIONS[role] ?? []) set.add(p);
+  if (params.orgRole) for (const p of ORG_ROLE_PERMISSIONS[params.orgRole]) set.add(p);
+  return PERMISSIONS.filter((p) => set.has(p)); // stable order
+}
+
+export type AccessContext = {
+  auth0Sub: string;
+  organizationId: string | null; // active org (null = user has no membership yet)
+  orgRole: OrgRole | null;
+  globalRoles: string[];
+  permissions: Permission[];
+};
+
+export type AccessDenied = { ok: false; status: 400 | 401 | 403; error: string };
+
+/** Who is calling and what they may do (null when signed out). Throws ActiveOrgError on a bad X-Org-Id. */
+export async function getAccessContext(req: Request): Promise<AccessContext | null> {
+  const session = await auth0.getSession();
+  const auth0Sub = session?.user?.sub as string | undefined;
+  if (!auth0Sub) return null;
+
+  const [globalRoles, member] = await Promise.all([
+    getRolesFromAccessToken(),
+    resolveActiveOrg({ auth0Sub, requested: requestedOrg(req) }),
+  ]);
+
+  const orgRole = member && isOrgRole(member.role) ? member.role : null;
+
+  return {
+    auth0Sub,
+    organizationId: member?.organizationId ?? null,
+    orgRole,
+    globalRoles,
+    permissions: permissionsForRoles({ globalRoles, orgRole }),
+  };
+}
+
+export async function requirePermission(
+  req: Request,
+  permission: Permission | readonly Permission[],
+  opts: { requireOrg: true }
+): Promise<(AccessContext & { ok: true; organizationId: string }) | AccessDenied>;
+export async function requirePermission(
+  req: Request,
+  permission: Permission | readonly Permission[],
+  opts?: { requireOrg?: boolean }
+): Promise<(AccessContext & { ok: true }) | AccessDenied>;
+/**
+ * 401 signed out · 403 missing permission or not a member of the requested org ·
+ * 400 requireOrg and the user has no organization.
+ * A list of permissions means any one of them is enough.
+ */
+export async function requirePermission(
+  req: Request,
+  permission: Permission | readonly Permission[],
+  opts?: { requireOrg?: boolean }
+): Promise<(AccessContext & { ok: true }) | AccessDenied> {
+  let access: AccessContext | null;
+  try {
+    access = await getAccessContext(req);
+  } catch (e) {
+    if (e instanceof ActiveOrgError) return { ok: false, status: 403, error: e.message };
+    throw e;
+  }
+
+  if (!access) return { ok: false, status: 401, error: "Unauthorized" };
+  const anyOf: readonly Permission[] = typeof permission === "string" ? [permission] : permission;
+  if (!anyOf.some((p) => access.permissions.includes(p))) return { ok: false, status: 403, error: "Forbidden" };
+  if (opts?.requireOrg && !access.organizationId) return { ok: false, status: 400, error: "No organization" };
+
+  return { ok: true, ...access };
+}
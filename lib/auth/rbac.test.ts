@@ -0,0 +1,128 @@
+// lib/auth/rbac.test.ts
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { createLocalJWKSet, exportJWK, generateKeyPair, SignJWT, type CryptoKey, type JWK } from "jose";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+const getAccessToken = vi.fn();
+vi.mock("@/lib/auth0", () => ({
+  API_AUDIENCE: "https://stefans-mvp-api",
+  auth0: { getAccessToken: () => getAccessToken() },
+}));
+vi.mock("@/lib/logger", () => ({ log: vi.fn() }));
+
+import { createAccessTokenVerifier, getRolesFromAccessToken, RBAC, verifyAccessToken } from "@/lib/auth/rbac";
+
+const ISSUER = "https://tenant.example.auth0.com/";
+const AUDIENCE = "https://stefans-mvp-api";
+
+type TestKey = { privateKey: CryptoKey; jwk: JWK };
+
+async function testKey(kid: string): Promise<TestKey> {
+  const { privateKey, publicKey } = await generateKeyPair("RS256");
+  return { privateKey, jwk: { ...(await exportJWK(publicKey)), kid, alg: "RS256", use: "sig" } };
+}
+
+function token(key: TestKey, claims: { iss?: string; aud?: string; exp?: number; roles?: unknown } = {}) {
+  const now = Math.floor(Date.now() / 1000);
+  return new SignJWT({ [RBAC.ROLES_CLAIM]: claims.roles ?? ["admin"] })
+    .setProtectedHeader({ alg: "RS256", kid: key.jwk.kid })
+    .setSubject("auth0|user")
+    .setIssuer(claims.iss ?? ISSUER)
+    .setAudience(claims.aud ?? AUDIENCE)
+    .setIssuedAt(now)
+    .setExpirationTime(claims.exp ?? now + 600)
+    .sign(key.privateKey);
+}
+
+let key: TestKey;
+let otherKey: TestKey;
+
+beforeAll(async () => {
+  key = await testKey("k1");
+  otherKey = await testKey("k2");
+});
+
+describe("verifyAccessToken", () => {
+  const verifier = () =>
+    createAccessTokenVerifier({
+      issuer: ISSUER,
+      audience: AUDIENCE,
+      keys: createLocalJWKSet({ keys: [key.jwk] }),
+      clockToleranceSec: 60,
+    });
+
+  it("returns the claims of a valid token", async () => {
+    const claims = await verifyAccessToken(await token(key), verifier());
+    expect(claims?.sub).toBe("auth0|user");
+    expect(claims?.[RBAC.ROLES_CLAIM]).toEqual(["admin"]);
+  });
+
+  it("rejects a token signed by a key outside the JWKS", async () => {
+    expect(await verifyAccessToken(await token({ ...otherKey, jwk: { ...otherKey.jwk, kid: "k1" } }), verifier())).toBeNull();
+    expect(await verifyAccessToken(await token(otherKey), verifier())).toBeNull();
+  });
+
+  it("rejects a wrong issuer or audience", async () => {
+    expect(await verifyAccessToken(await token(key, { iss: "https://evil.example.com/" }), verifier())).toBeNull();
+    expect(await verifyAccessToken(await token(key, { aud: "https://other-api" }), verifier())).toBeNull();
+  });
+
+  it("accepts expiry within the clock skew and rejects beyond it", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    expect(await verifyAccessToken(await token(key, { exp: now - 30 }), verifier())).not.toBeNull();
+    expect(await verifyAccessToken(await token(key, { exp: now - 120 }), verifier())).toBeNull();
+  });
+
+  it("rejects an unsigned or garbled token", async () => {
+    const [header, payload] = (await token(key)).split(".");
+    expect(await verifyAccessToken(`${header}.${payload}.`, verifier())).toBeNull();
+    expect(await verifyAccessToken("not-a-jwt", verifier())).toBeNull();
+  });
+});
+
+describe("getRolesFromAccessToken with AUTH0_JWKS_FILE", () => {
+  let dir: string;
+  let jwksFile: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "rbac-"));
+    jwksFile = path.join(dir, "jwks.json");
+    writeFileSync(jwksFile, JSON.stringify({ keys: [key.jwk] }));
+    vi.stubEnv("AUTH0_DOMAIN", "tenant.example.auth0.com");
+    vi.stubEnv("AUTH0_JWKS_FILE", jwksFile);
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => getAccessToken.mockReset());
+
+  it("reads roles only from a verified token", async () => {
+    getAccessToken.mockResolvedValue({ token: await token(key, { roles: ["admin", 42] }) });
+    expect(await getRolesFromAccessToken()).toEqual(["admin"]);
+
+    getAccessToken.mockResolvedValue({ token: await token(otherKey) });
+    expect(await getRolesFromAccessToken()).toEqual([]);
+  });
+
+  it("returns no roles without an access token", async () => {
+    getAccessToken.mockResolvedValue(undefined);
+    expect(await getRolesFromAccessToken()).toEqual([]);
+  });
+
+  it("picks up a rotated key when the file changes", async () => {
+    writeFileSync(jwksFile, JSON.stringify({ keys: [otherKey.jwk] }));
+    const later = new Date(Date.now() + 5_000);
+    utimesSync(jwksFile, later, later);
+
+    getAccessToken.mockResolvedValue({ token: await token(otherKey) });
+    expect(await getRolesFromAccessToken()).toEqual(["admin"]);
+
+    getAccessToken.mockResolvedValue({ token: await token(key) });
+    expect(await getRolesFromAccessToken()).toEqual([]);
+  });
+});
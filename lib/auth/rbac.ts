@@ -3,42 +3,157 @@
  * RBAC helpers (Auth0 access token roles claim).
  * We read roles ONLY from the Access Token because in Auth0 Next.js SDK v4
  * session.user may not include namespaced custom claims.
+ *
+ * The token is verified before any claim is trusted:
+ * - signature against the tenant JWKS (https://<AUTH0_DOMAIN>/.well-known/jwks.json),
+ *   cached in memory; an unknown `kid` triggers a refetch, so key rotation needs no restart
+ * - `iss` = the configured tenant, `aud` includes API_AUDIENCE
+ * - `exp`/`nbf` with AUTH0_CLOCK_SKEW_SEC tolerance (default 60s)
+ *
+ * AUTH0_JWKS_FILE points at a local JWKS JSON instead (dev/tests, no network; re-read when the
+ * file changes). Tests can also build a verifier from their own key pair via createAccessTokenVerifier.
  */
 
-import { auth0 } from "@/lib/auth0";
+import { readFileSync, statSync } from "fs";
+import {
+  createLocalJWKSet,
+  createRemoteJWKSet,
+  errors,
+  jwtVerify,
+  type JSONWebKeySet,
+  type JWTPayload,
+  type JWTVerifyGetKey,
+} from "jose";
+
+import { API_AUDIENCE, auth0 } from "@/lib/auth0";
+import { log } from "@/lib/logger";
 
 export const RBAC = {
   ROLES_CLAIM: "https://stefans-mvp/claims/roles",
   ADMIN_ROLE: "admin",
 } as const;
 
+const DEFAULT_CLOCK_SKEW_SEC = 60;
+const JWKS_CACHE_MAX_AGE_MS = 10 * 60 * 1000;
+const JWKS_COOLDOWN_MS = 30 * 1000; // min gap between refetches (unknown kid / rotation)
+
+export type AccessTokenVerifier = (token: string) => Promise<JWTPayload>;
+
+export function createAccessTokenVerifier(params: {
+  issuer: string;
+  audience: string;
+  keys: JWTVerifyGetKey;
+  clockToleranceSec?: number;
+}): AccessTokenVerifier {
+  const { issuer, audience, keys } = params;
+  const clockTolerance = params.clockToleranceSec ?? DEFAULT_CLOCK_SKEW_SEC;
+
+  return async (token) => {
+    const { payload } = await jwtVerify(token, keys, {
+      issuer,
+      audience,
+      clockTolerance,
+      requiredClaims: ["exp"],
+    });
+    return payload;
+  };
+}
+
+/** `https://<tenant>/` — the exact `iss` Auth0 puts in its tokens (trailing slash included). */
+function tenantIssuer() {
+  const domain = process.env.AUTH0_DOMAIN?.trim().replace(/^https?:\/\//, "").replace(/\/+$/, "");
+  if (!domain) throw new Error("AUTH0_DOMAIN is not set");
+  return `https://${domain}/`;
+}
+
+function clockSkewSec() {
+  const n = Number(process.env.AUTH0_CLOCK_SKEW_SEC);
+  return Number.isFinite(n) && n >= 0 ? n : DEFAULT_CLOCK_SKEW_SEC;
+}
+
+/** Local JWKS file, reloaded when its mtime changes (simulates rotation in dev). */
+function localJwksKeys(path: string): JWTVerifyGetKey {
+  let loaded: { mtimeMs: number; keys: JWTVerifyGetKey } | null = null;
+
+  return (header, token) => {
+    const { mtimeMs } = statSync(path);
+    if (!loaded || loaded.mtimeMs !== mtimeMs) {
+      const jwks = JSON.parse(readFileSync(path, "utf8")) as JSONWebKeySet;
+      loaded = { mtimeMs, keys: createLocalJWKSet(jwks) };
+    }
+    return loaded.keys(header, token);
+  };
+}
+
+/** jose errors that mean "this token is not acceptable" (vs. JWKS fetch/config problems). */
+const INVALID_TOKEN_ERRORS = [
+  errors.JWTExpired,
+  errors.JWTClaimValidationFailed,
+  errors.JWTInvalid,
+  errors.JWSInvalid,
+  errors.JWSSignatureVerificationFailed,
+  errors.JWKSNoMatchingKey,
+  errors.JWKSMultipleMatchingKeys,
+  errors.JOSEAlgNotAllowed,
+  errors.JOSENotSupported,
+];
+
+let defaultVerifier: AccessTokenVerifier | null = null;
+
+function getDefaultVerifier() {
+  if (defaultVerifier) return defaultVerifier;
+
+  const issuer = tenantIssuer();
+  const jwksFile = process.env.AUTH0_JWKS_FILE?.trim();
+
+  const keys = jwksFile
+    ? localJwksKeys(jwksFile)
+    : createRemoteJWKSet(new URL(".well-known/jwks.json", issuer), {
+        cacheMaxAge: JWKS_CACHE_MAX_AGE_MS,
+        cooldownDuration: JWKS_COOLDOWN_MS,
+      });
+
+  defaultVerifier = createAccessTokenVerifier({
+    issuer,
+    audience: API_AUDIENCE,
+    keys,
+    clockToleranceSec: clockSkewSec(),
+  });
+  return defaultVerifier;
+}
+
 /**
- * Decode JWT payload without verifying signature.
- * Safe here because token is retrieved server-side from Auth0 session.
+ * Verified claims, or null when the token is invalid (bad signature, wrong iss/aud, expired, ...).
+ * Misconfiguration and JWKS fetch failures throw: they are server errors, not "no roles".
  */
-function decodeJwtPayload(token: string): Record<string, unknown> | null {
-  const parts = token.split(".");
-  if (parts.length !== 3) return null;
-
+export async function verifyAccessToken(
+  token: string,
+  verifier: AccessTokenVerifier = getDefaultVerifier()
+): Promise<JWTPayload | null> {
   try {
-    const json = Buffer.from(parts[1], "base64url").toString("utf8");
-    return JSON.parse(json) as Record<string, unknown>;
-  } catch {
-    return null;
+    return await verifier(token);
+  } catch (e) {
+    if (INVALID_TOKEN_ERRORS.some((cls) => e instanceof cls)) {
+      log("warn", { requestId: "-", event: "access_token_invalid", error: (e as errors.JOSEError).code });
+      return null;
+    }
+    throw e;
   }
 }
 
-/** Read roles from Access Token custom claim. */
+export function rolesFromClaims(claims: JWTPayload | null): string[] {
+  const rolesValue = claims?.[RBAC.ROLES_CLAIM];
+  return Array.isArray(rolesValue) ? rolesValue.filter((r): r is string => typeof r === "string") : [];
+}
+
+/** Read roles from the (verified) Access Token custom claim. */
 export async function getRolesFromAccessToken(): Promise<string[]> {
   const tokenResult = await auth0.getAccessToken();
   const token = tokenResult?.token;
 
   if (!token) return [];
 
-  const claims = decodeJwtPayload(token);
-  const rolesValue = claims?.[RBAC.ROLES_CLAIM];
-
-  return Array.isArray(rolesValue) ? (rolesValue as string[]) : [];
+  return rolesFromClaims(await verifyAccessToken(token));
 }
 
 /** Convenience helper: admin check. */
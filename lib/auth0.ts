@@ -1,9 +1,12 @@
 import { Auth0Client } from "@auth0/nextjs-auth0/server";
 
+/** Auth0 API Identifier; access tokens are issued (and verified) for this audience. */
+export const API_AUDIENCE = "https://stefans-mvp-api";
+
 export const auth0 = new Auth0Client({
   appBaseUrl: process.env.APP_BASE_URL, // REQUIRED in v4
   authorizationParameters: {
-    audience: "https://stefans-mvp-api", // Must match API Identifier
+    audience: API_AUDIENCE, // Must match API Identifier
     scope: "openid profile email",
   },
 });
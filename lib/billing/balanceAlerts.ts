@@ -0,0 +1,287 @@
+// lib/billing/balanceAlerts.ts
+/**
+ * Low-balance alerts.
+ * - Rules per org: "absolute" (credits) or "percent" (of the active plan's monthlyCredits)
+ * - A rule fires once per crossing: when the wallet balance drops to/below the threshold it is
+ *   claimed (triggeredAt set, compare-and-set so concurrent checks fire it once); when the balance
+ *   recovers above it, the rule re-arms and its banner notification is resolved
+ * - Firing creates an OrgNotification (in-app banner) and delivers it to the org's webhook
+ *   and/or alert emails (lib/notify)
+ *
+ * checkBalanceAlerts runs after every balance change (chat settle, top-up, renewal, plan change);
+ * routes use scheduleBalanceAlertCheck so delivery never delays the response.
+ */
+
+import { after } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { log } from "@/lib/logger";
+import { Prisma } from "@/generated/prisma/client";
+import { isValidEmail, normalizeEmail } from "@/lib/org/invitations";
+import { isValidWebhookUrl, postWebhook } from "@/lib/notify/webhook";
+import { sendMail, smtpConfigFromEnv } from "@/lib/notify/smtp";
+
+export const ALERT_RULE_KINDS = ["absolute", "percent"] as const;
+export type AlertRuleKind = (typeof ALERT_RULE_KINDS)[number];
+
+export const ALERT_LIMITS = {
+  rules: 5,
+  emails: 10,
+  absoluteMax: 10_000_000,
+} as const;
+
+export type AlertRuleInput = { kind: AlertRuleKind; threshold: number };
+
+export type AlertSettingsInput = {
+  rules: AlertRuleInput[];
+  webhookUrl: string | null;
+  emails: string[];
+};
+
+function isAlertRuleKind(v: unknown): v is AlertRuleKind {
+  return typeof v === "string" && (ALERT_RULE_KINDS as readonly string[]).includes(v);
+}
+
+/** Validate a PUT body; returns the first problem as a readable error. */
+export function parseAlertSettings(
+  input: unknown
+): { ok: true; settings: AlertSettingsInput } | { ok: false; error: string } {
+  if (!input || typeof input !== "object") return { ok: false, error: "Invalid JSON body" };
+  const body = input as Record<string, unknown>;
+
+  if (!Array.isArray(body.rules) || body.rules.length > ALERT_LIMITS.rules) {
+    return { ok: false, error: `rules must be an array (max ${ALERT_LIMITS.rules})` };
+  }
+
+  const rules: AlertRuleInput[] = [];
+  for (const [i, r] of body.rules.entries()) {
+    const rule = (r ?? {}) as Record<string, unknown>;
+    if (!isAlertRuleKind(rule.kind)) {
+      return { ok: false, error: `rules[${i}].kind must be one of: ${ALERT_RULE_KINDS.join(", ")}` };
+    }
+    const max = rule.kind === "percent" ? 100 : ALERT_LIMITS.absoluteMax;
+    if (typeof rule.threshold !== "number" || !Number.isInteger(rule.threshold) || rule.threshold < 0 || rule.threshold > max) {
+      return { ok: false, error: `rules[${i}].threshold must be an integer 0-${max}` };
+    }
+    rules.push({ kind: rule.kind, threshold: rule.threshold });
+  }
+
+  const webhookUrl = typeof body.webhookUrl === "string" && body.webhookUrl.trim() ? body.webhookUrl.trim() : null;
+  if (webhookUrl && !isValidWebhookUrl(webhookUrl)) return { ok: false, error: "Invalid webhookUrl (public https URL)" };
+
+  const rawEmails = body.emails ?? [];
+  if (!Array.isArray(rawEmails) || rawEmails.length > ALERT_LIMITS.emails) {
+    return { ok: false, error: `emails must be an array (max ${ALERT_LIMITS.emails})` };
+  }
+  const emails: string[] = [];
+  for (const e of rawEmails) {
+    const email = typeof e === "string" ? normalizeEmail(e) : "";
+    if (!isValidEmail(email)) return { ok: false, error: `Invalid email: ${String(e)}` };
+    if (!emails.includes(email)) emails.push(email);
+  }
+
+  return { ok: true, settings: { rules, webhookUrl, emails } };
+}
+
+/** Threshold in credits (percent rules follow the active plan's monthlyCredits). */
+export function ruleThreshold(rule: { kind: string; threshold: number }, monthlyCredits: number) {
+  return rule.kind === "percent" ? Math.floor((monthlyCredits * rule.threshold) / 100) : rule.threshold;
+}
+
+export async function getAlertSettings(organizationId: string) {
+  const [org, rules] = await Promise.all([
+    prisma.organization.findUniqueOrThrow({
+      where: { id: organizationId },
+      select: { alertWebhookUrl: true, alertEmails: true },
+    }),
+    prisma.balanceAlertRule.findMany({
+      where: { organizationId },
+      orderBy: { createdAt: "asc" },
+      select: { id: true, kind: true, threshold: true, triggeredAt: true },
+    }),
+  ]);
+
+  return { rules, webhookUrl: org.alertWebhookUrl, emails: org.alertEmails };
+}
+
+/** Replace rules + delivery targets; new rules start armed. */
+export async function updateAlertSettings(organizationId: string, settings: AlertSettingsInput) {
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await tx.organization.update({
+      where: { id: organizationId },
+      data: { alertWebhookUrl: settings.webhookUrl, alertEmails: settings.emails },
+    });
+    await tx.balanceAlertRule.deleteMany({ where: { organizationId } });
+    await tx.orgNotification.updateMany({
+      where: { organizationId, kind: "low_balance", resolvedAt: null },
+      data: { resolvedAt: new Date() },
+    });
+    if (settings.rules.length > 0) {
+      await tx.balanceAlertRule.createMany({
+        data: settings.rules.map((r) => ({ organizationId, kind: r.kind, threshold: r.threshold })),
+      });
+    }
+  });
+
+  return getAlertSettings(organizationId);
+}
+
+type FiredAlert = { ruleId: string; kind: string; ruleThreshold: number; threshold: number };
+
+async function deliverNotification(params: {
+  notificationId: string;
+  organization: { id: string; name: string; alertWebhookUrl: string | null; alertEmails: string[] };
+  message: string;
+  payload: Record<string, unknown>;
+}) {
+  const { notificationId, organization, message, payload } = params;
+  const errors: string[] = [];
+  let attempted = false;
+
+  if (organization.alertWebhookUrl) {
+    attempted = true;
+    await postWebhook(organization.alertWebhookUrl, payload).catch((e: unknown) =>
+      errors.push(`webhook: ${e instanceof Error ? e.message : "failed"}`)
+    );
+  }
+
+  const smtp = smtpConfigFromEnv();
+  if (organization.alertEmails.length > 0) {
+    attempted = true;
+    if (!smtp) {
+      errors.push("email: SMTP is not configured");
+    } else {
+      await sendMail(smtp, {
+        to: organization.alertEmails,
+        subject: `[${organization.name}] Low credit balance`,
+        text: `${message}\n\nOrganization: ${organization.name} (${organization.id})\n`,
+      }).catch((e: unknown) => errors.push(`email: ${e instanceof Error ? e.message : "failed"}`));
+    }
+  }
+
+  if (!attempted) return;
+
+  await prisma.orgNotification.update({
+    where: { id: notificationId },
+    data: errors.length ? { deliveryError: errors.join("; ").slice(0, 500) } : { deliveredAt: new Date() },
+  });
+}
+
+/**
+ * Evaluate an org's rules against its current balance: fire newly crossed rules,
+ * re-arm recovered ones. Returns what changed.
+ */
+export async function checkBalanceAlerts(organizationId: string) {
+  const [organization, wallet, subscription, rules] = await Promise.all([
+    prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { id: true, name: true, alertWebhookUrl: true, alertEmails: true },
+    }),
+    prisma.creditWallet.findUnique({
+      where: { organizationId_currency: { organizationId, currency: "credits" } },
+      select: { balance: true },
+    }),
+    prisma.subscription.findFirst({
+      where: { organizationId, status: "active" },
+      orderBy: { createdAt: "desc" },
+      select: { monthlyCredits: true },
+    }),
+    prisma.balanceAlertRule.findMany({
+      where: { organizationId },
+      select: { id: true, kind: true, threshold: true, triggeredAt: true },
+    }),
+  ]);
+  if (!organization || !wallet || rules.length === 0) return { fired: 0, rearmed: 0 };
+
+  const balance = wallet.balance;
+  const monthlyCredits = subscription?.monthlyCredits ?? 0;
+  const fired: FiredAlert[] = [];
+  let rearmed = 0;
+
+  for (const rule of rules) {
+    const threshold = ruleThreshold(rule, monthlyCredits);
+
+    if (balance <= threshold && !rule.triggeredAt) {
+      const claimed = await prisma.balanceAlertRule.updateMany({
+        where: { id: rule.id, triggeredAt: null },
+        data: { triggeredAt: new Date() },
+      });
+      if (claimed.count === 1) fired.push({ ruleId: rule.id, kind: rule.kind, ruleThreshold: rule.threshold, threshold });
+    } else if (balance > threshold && rule.triggeredAt) {
+      const released = await prisma.balanceAlertRule.updateMany({
+        where: { id: rule.id, triggeredAt: { not: null } },
+        data: { triggeredAt: null },
+      });
+      if (released.count === 1) {
+        rearmed++;
+        await prisma.orgNotification.updateMany({
+          where: { organizationId, ruleId: rule.id, resolvedAt: null },
+          data: { resolvedAt: new Date() },
+        });
+      }
+    }
+  }
+
+  for (const alert of fired) {
+    const label = alert.kind === "percent" ? `${alert.ruleThreshold}% of monthly credits (${alert.threshold})` : `${alert.threshold}`;
+    const message = `Credit balance is ${balance}, at or below the alert threshold of ${label}.`;
+    const payload = {
+      type: "low_balance",
+      organizationId,
+      balance,
+      threshold: alert.threshold,
+      rule: { id: alert.ruleId, kind: alert.kind, threshold: alert.ruleThreshold },
+      createdAt: new Date().toISOString(),
+    };
+
+    const notification = await prisma.orgNotification.create({
+      data: { organizationId, kind: "low_balance", ruleId: alert.ruleId, message, data: payload },
+      select: { id: true },
+    });
+
+    log("warn", {
+      requestId: notification.id,
+      event: "balance_alert_fired",
+      meta: { organizationId, balance, threshold: alert.threshold, ruleId: alert.ruleId },
+    });
+
+    await deliverNotification({ notificationId: notification.id, organization, message, payload });
+  }
+
+  return { fired: fired.length, rearmed };
+}
+
+/** Run checkBalanceAlerts once the response has been sent (streams included); errors are logged. */
+export function scheduleBalanceAlertCheck(organizationId: string, requestId: string) {
+  after(async () => {
+    try {
+      await checkBalanceAlerts(organizationId);
+    } catch (e: unknown) {
+      log("error", {
+        requestId,
+        event: "balance_alert_error",
+        error: e instanceof Error ? e.message : "Unknown error",
+        meta: { organizationId },
+      });
+    }
+  });
+}
+
+/** Unresolved notifications the user hasn't dismissed (in-app banner). */
+export async function listActiveNotifications(organizationId: string, auth0Sub: string) {
+  return prisma.orgNotification.findMany({
+    where: { organizationId, resolvedAt: null, NOT: { dismissedBy: { has: auth0Sub } } },
+    orderBy: { createdAt: "desc" },
+    take: 10,
+    select: { id: true, kind: true, message: true, createdAt: true },
+  });
+}
+
+export async function dismissNotification(params: { organizationId: string; notificationId: string; auth0Sub: string }) {
+  const { organizationId, notificationId, auth0Sub } = params;
+
+  const res = await prisma.orgNotification.updateMany({
+    where: { id: notificationId, organizationId, NOT: { dismissedBy: { has: auth0Sub } } },
+    data: { dismissedBy: { push: auth0Sub } },
+  });
+  return res.count > 0;
+}
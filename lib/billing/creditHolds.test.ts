@@ -0,0 +1,203 @@
+// lib/billing/creditHolds.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+/** In-memory stand-in for the Prisma calls creditHolds.ts makes (one wallet, one member). */
+const db = vi.hoisted(() => {
+  type Wallet = { id: string; organizationId: string; balance: number; reserved: number };
+  type Hold = {
+    id: string;
+    walletId: string;
+    auth0Sub: string;
+    requestId: string;
+    amount: number;
+    status: string;
+    expiresAt: Date;
+    settledAt: Date | null;
+  };
+  type Where = { id?: string; walletId?: string; status?: string | { in: string[] }; expiresAt?: { lt: Date } };
+
+  const state = {
+    wallet: null as unknown as Wallet,
+    holds: [] as Hold[],
+    ledger: [] as Record<string, unknown>[],
+    afterHoldRead: null as null | (() => void), // simulates a concurrent write after the unlocked read
+  };
+
+  const matches = (h: Hold, where: Where) =>
+    (where.id === undefined || h.id === where.id) &&
+    (where.walletId === undefined || h.walletId === where.walletId) &&
+    (where.status === undefined ||
+      (typeof where.status === "string" ? h.status === where.status : where.status.in.includes(h.status))) &&
+    (where.expiresAt === undefined || h.expiresAt < where.expiresAt.lt);
+
+  const applyWalletData = (data: Record<string, { increment?: number; decrement?: number }>) => {
+    for (const field of ["balance", "reserved"] as const) {
+      const op = data[field];
+      if (op) state.wallet[field] += (op.increment ?? 0) - (op.decrement ?? 0);
+    }
+    return { balance: state.wallet.balance, reserved: state.wallet.reserved };
+  };
+
+  const tx = {
+    orgMember: {
+      findUnique: async () => ({ organizationId: state.wallet.organizationId }),
+    },
+    creditWallet: {
+      findUnique: async () => ({ id: state.wallet.id }),
+      findUniqueOrThrow: async () => ({ balance: state.wallet.balance, reserved: state.wallet.reserved }),
+      update: async ({ data }: { data: Record<string, { increment?: number; decrement?: number }> }) =>
+        applyWalletData(data),
+    },
+    creditHold: {
+      // Copies, like Prisma: later updates must not change rows already read
+      findUnique: async ({ where }: { where: Where }) => {
+        const hold = state.holds.find((h) => h.id === where.id);
+        const copy = hold ? { ...hold } : null;
+        state.afterHoldRead?.();
+        state.afterHoldRead = null;
+        return copy;
+      },
+      findMany: async ({ where }: { where: Where }) => state.holds.filter((h) => matches(h, where)).map((h) => ({ ...h })),
+      updateMany: async ({ where, data }: { where: Where; data: Partial<Hold> }) => {
+        const rows = state.holds.filter((h) => matches(h, where));
+        for (const h of rows) Object.assign(h, data);
+        return { count: rows.length };
+      },
+      create: async ({ data }: { data: Omit<Hold, "id" | "settledAt"> }) => {
+        const hold = { ...data, id: `hold_${state.holds.length + 1}`, settledAt: null };
+        state.holds.push(hold);
+        return hold;
+      },
+    },
+    creditLedger: {
+      create: async ({ data }: { data: Record<string, unknown> }) => {
+        state.ledger.push(data);
+        return data;
+      },
+    },
+    // reserveCredits: conditional `reserved += amount` when available covers it
+    $executeRaw: async (_sql: TemplateStringsArray, amount: number) => {
+      if (state.wallet.balance - state.wallet.reserved < amount) return 0;
+      state.wallet.reserved += amount;
+      return 1;
+    },
+    // settleCreditHold: SELECT ... FOR UPDATE
+    $queryRaw: async () => [{ balance: state.wallet.balance, organizationId: state.wallet.organizationId }],
+  };
+
+  return {
+    state,
+    prisma: { $transaction: async <T>(fn: (t: typeof tx) => Promise<T>) => fn(tx) },
+    reset(balance: number) {
+      state.wallet = { id: "wallet_1", organizationId: "org_1", balance, reserved: 0 };
+      state.holds = [];
+      state.ledger = [];
+      state.afterHoldRead = null;
+    },
+  };
+});
+
+vi.mock("@/lib/prisma", () => ({ prisma: db.prisma }));
+vi.mock("@/generated/prisma/client", () => ({ Prisma: {} }));
+vi.mock("@/lib/billing/memberBudgets", () => ({
+  assertWithinMemberBudget: async () => undefined,
+  memberBudgetStatus: async () => null,
+}));
+
+import {
+  InsufficientCreditsError,
+  releaseCreditHold,
+  reserveCredits,
+  settleCreditHold,
+} from "@/lib/billing/creditHolds";
+
+const USAGE = { model: "gpt-test", promptTokens: 120, completionTokens: 80 };
+
+function reserve(credits: number, requestId = "req_1", ttlMs?: number) {
+  return reserveCredits({ auth0Sub: "auth0|user", organizationId: "org_1", credits, requestId, ttlMs });
+}
+
+beforeEach(() => db.reset(100));
+
+describe("reserveCredits", () => {
+  it("moves the worst case into reserved without touching the balance", async () => {
+    const hold = await reserve(30.2);
+    expect(hold).toMatchObject({ amount: 31, balance: 100, reserved: 31, available: 69 });
+    expect(db.state.holds).toHaveLength(1);
+  });
+
+  it("refuses a hold the available balance can't cover", async () => {
+    await reserve(80);
+    await expect(reserve(30, "req_2")).rejects.toBeInstanceOf(InsufficientCreditsError);
+    expect(db.state.holds).toHaveLength(1);
+    expect(db.state.wallet).toMatchObject({ balance: 100, reserved: 80 });
+  });
+});
+
+describe("settleCreditHold", () => {
+  it("charges the actual amount, frees the hold and writes one ledger row", async () => {
+    const { holdId } = await reserve(50);
+    const settled = await settleCreditHold({ holdId, credits: 12.4, usage: USAGE });
+
+    expect(settled).toMatchObject({ charged: 13, balance: 87, reserved: 0, available: 87 });
+    expect(db.state.ledger).toEqual([
+      expect.objectContaining({ delta: -13, reason: "chat_usage", requestId: "req_1", ...USAGE }),
+    ]);
+  });
+
+  it("charges once: a second settle or a release is a no-op", async () => {
+    const { holdId } = await reserve(50);
+    await settleCreditHold({ holdId, credits: 10 });
+
+    expect(await settleCreditHold({ holdId, credits: 10 })).toBeNull();
+    expect(await releaseCreditHold(holdId)).toBe(false);
+    expect(db.state.wallet).toMatchObject({ balance: 90, reserved: 0 });
+    expect(db.state.ledger).toHaveLength(1);
+  });
+
+  it("caps the charge at the wallet balance", async () => {
+    db.reset(5);
+    const { holdId } = await reserve(5);
+    const settled = await settleCreditHold({ holdId, credits: 40 });
+
+    expect(settled).toMatchObject({ charged: 5, balance: 0, reserved: 0 });
+  });
+
+  it("writes no ledger row for a zero charge", async () => {
+    const { holdId } = await reserve(10);
+    expect(await settleCreditHold({ holdId, credits: 0 })).toMatchObject({ charged: 0, balance: 100, reserved: 0 });
+    expect(db.state.ledger).toHaveLength(0);
+  });
+
+  it("still charges an expired hold without freeing its reservation twice", async () => {
+    const { holdId } = await reserve(20, "req_1", -1);
+    await reserve(10, "req_2"); // sweeps the stale hold
+    expect(db.state.wallet.reserved).toBe(10);
+
+    const settled = await settleCreditHold({ holdId, credits: 15 });
+    expect(settled).toMatchObject({ charged: 15, balance: 85, reserved: 10 });
+  });
+
+  it("frees the reservation once when the hold expires between the read and the claim", async () => {
+    const { holdId } = await reserve(20);
+    db.state.afterHoldRead = () => {
+      db.state.holds[0].status = "expired";
+      db.state.wallet.reserved -= 20;
+    };
+
+    const settled = await settleCreditHold({ holdId, credits: 15 });
+    expect(settled).toMatchObject({ charged: 15, balance: 85, reserved: 0 });
+  });
+});
+
+describe("releaseCreditHold", () => {
+  it("frees the reservation without charging, once", async () => {
+    const { holdId } = await reserve(40);
+
+    expect(await releaseCreditHold(holdId)).toBe(true);
+    expect(await releaseCreditHold(holdId)).toBe(false);
+    expect(await settleCreditHold({ holdId, credits: 10 })).toBeNull();
+    expect(db.state.wallet).toMatchObject({ balance: 100, reserved: 0 });
+    expect(db.state.ledger).toHaveLength(0);
+  });
+});
@@ -0,0 +1,247 @@
+// lib/billing/creditHolds.ts
+/**
+ * Authorize-then-settle credit holds for chat requests.
+ *
+ * - reserveCredits: before the model call, hold worst-case credits (wallet.reserved += amount)
+ * - settleCreditHold: after the call, charge the actual amount and free the hold
+ * - releaseCreditHold: on errors/timeouts, free the hold without charging
+ * - expireStaleHolds: holds past expiresAt are freed automatically on the next reservation
+ * - member budgets (lib/billing/memberBudgets.ts) are checked with the reservation
+ *
+ * available = balance - reserved
+ */
+
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@/generated/prisma/client";
+import { assertWithinMemberBudget, memberBudgetStatus } from "@/lib/billing/memberBudgets";
+
+export class InsufficientCreditsError extends Error {
+  constructor() {
+    super("Insufficient credits");
+    this.name = "InsufficientCreditsError";
+  }
+}
+
+/** Long enough for a slow streamed reply; stale holds are expired after this. */
+export const HOLD_TTL_MS = 5 * 60 * 1000;
+
+export type HoldStatus = "held" | "settled" | "released" | "expired";
+
+/** Free holds that outlived their TTL (e.g. the instance died mid-request). Returns how many this call expired. */
+export async function expireStaleHolds(tx: Prisma.TransactionClient, walletId: string) {
+  const stale = await tx.creditHold.findMany({
+    where: { walletId, status: "held", expiresAt: { lt: new Date() } },
+    select: { id: true, amount: true },
+  });
+
+  let expired = 0;
+  for (const hold of stale) {
+    const claimed = await tx.creditHold.updateMany({
+      where: { id: hold.id, status: "held" },
+      data: { status: "expired" },
+    });
+    if (claimed.count === 0) continue; // another request got there first
+
+    await tx.creditWallet.update({
+      where: { id: walletId },
+      data: { reserved: { decrement: hold.amount } },
+    });
+    expired += 1;
+  }
+
+  return expired;
+}
+
+/** Expire stale holds for an org's wallet (used by read paths so reserved/available are current). */
+export async function sweepStaleHolds(organizationId: string) {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const wallet = await tx.creditWallet.findUnique({
+      where: { organizationId_currency: { organizationId, currency: "credits" } },
+      select: { id: true },
+    });
+    return wallet ? expireStaleHolds(tx, wallet.id) : 0;
+  });
+}
+
+/**
+ * Reserve credits for a request.
+ * Throws InsufficientCreditsError when available balance can't cover the hold,
+ * MemberBudgetExceededError when the member's remaining budget can't.
+ */
+export async function reserveCredits(params: {
+  auth0Sub: string;
+  organizationId: string; // active org (membership is re-checked here)
+  credits: number;
+  requestId: string;
+  ttlMs?: number;
+}) {
+  const { auth0Sub, organizationId, credits, requestId } = params;
+  const ttlMs = params.ttlMs ?? HOLD_TTL_MS;
+
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const member = await tx.orgMember.findUnique({
+      where: { organizationId_auth0Sub: { organizationId, auth0Sub } },
+      select: { organizationId: true },
+    });
+    if (!member) throw new Error("User is not a member of this organization");
+
+    const wallet = await tx.creditWallet.findUnique({
+      where: {
+        organizationId_currency: { organizationId: member.organizationId, currency: "credits" },
+      },
+      select: { id: true },
+    });
+    if (!wallet) throw new Error("No wallet");
+
+    await expireStaleHolds(tx, wallet.id);
+
+    const amount = Math.max(0, Math.ceil(credits));
+    await assertWithinMemberBudget(tx, { organizationId, auth0Sub, walletId: wallet.id, amount });
+
+    // Conditional increment: only succeeds if available still covers the hold (race-safe).
+    const reservedRows = await tx.$executeRaw`
+      UPDATE "CreditWallet"
+      SET "reserved" = "reserved" + ${amount}, "updatedAt" = NOW()
+      WHERE "id" = ${wallet.id} AND "balance" - "reserved" >= ${amount}
+    `;
+    if (reservedRows === 0) throw new InsufficientCreditsError();
+
+    const hold = await tx.creditHold.create({
+      data: {
+        walletId: wallet.id,
+        auth0Sub,
+        requestId,
+        amount,
+        status: "held",
+        expiresAt: new Date(Date.now() + ttlMs),
+      },
+      select: { id: true, amount: true, expiresAt: true },
+    });
+
+    const after = await tx.creditWallet.findUniqueOrThrow({
+      where: { id: wallet.id },
+      select: { balance: true, reserved: true },
+    });
+
+    return {
+      holdId: hold.id,
+      amount: hold.amount,
+      expiresAt: hold.expiresAt,
+      balance: after.balance,
+      reserved: after.reserved,
+      available: after.balance - after.reserved,
+    };
+  });
+}
+
+/**
+ * Charge the actual credits for a held request and free the hold.
+ * The charge is capped at the wallet balance: the hold was sized for the worst case,
+ * so the provider cost is already spent and must not turn into a 402 after the fact.
+ * The wallet row is locked before the cap is computed, so concurrent settles can't overdraw it.
+ *
+ * Returns null when the hold was already settled or released (idempotent).
+ */
+export async function settleCreditHold(params: {
+  holdId: string;
+  credits: number;
+  usage?: { model: string; promptTokens: number; completionTokens: number };
+}) {
+  const { holdId, credits, usage } = params;
+
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const hold = await tx.creditHold.findUnique({
+      where: { id: holdId },
+      select: { id: true, walletId: true, auth0Sub: true, requestId: true, amount: true },
+    });
+    if (!hold) throw new Error("Credit hold not found");
+
+    // Claim "held" and "expired" separately: the hold was read without a lock, and an
+    // expireStaleHolds in between has already given the reservation back.
+    const settledAt = new Date();
+    const claimedHeld = await tx.creditHold.updateMany({
+      where: { id: hold.id, status: "held" },
+      data: { status: "settled", settledAt },
+    });
+    if (claimedHeld.count === 0) {
+      // Expired holds already gave their reservation back; still charge for the work done.
+      const claimedExpired = await tx.creditHold.updateMany({
+        where: { id: hold.id, status: "expired" },
+        data: { status: "settled", settledAt },
+      });
+      if (claimedExpired.count === 0) return null;
+    }
+
+    const reservedDelta = claimedHeld.count > 0 ? hold.amount : 0;
+
+    const [wallet] = await tx.$queryRaw<{ balance: number; organizationId: string }[]>`
+      SELECT "balance", "organizationId" FROM "CreditWallet" WHERE "id" = ${hold.walletId} FOR UPDATE
+    `;
+    if (!wallet) throw new Error("No wallet");
+
+    const requested = Number.isFinite(credits) ? Math.max(0, Math.ceil(credits)) : 0;
+    const charged = Math.min(requested, Math.max(0, wallet.balance));
+
+    const updated = await tx.creditWallet.update({
+      where: { id: hold.walletId },
+      data: {
+        balance: { decrement: charged },
+        reserved: { decrement: reservedDelta },
+      },
+      select: { balance: true, reserved: true },
+    });
+
+    if (charged > 0) {
+      await tx.creditLedger.create({
+        data: {
+          walletId: hold.walletId,
+          auth0Sub: hold.auth0Sub,
+          delta: -charged,
+          reason: "chat_usage",
+          requestId: hold.requestId,
+          model: usage?.model ?? null,
+          promptTokens: usage?.promptTokens ?? null,
+          completionTokens: usage?.completionTokens ?? null,
+        },
+      });
+    }
+
+    const budget = await memberBudgetStatus(tx, {
+      organizationId: wallet.organizationId,
+      auth0Sub: hold.auth0Sub,
+      walletId: hold.walletId,
+    });
+
+    return {
+      charged,
+      balance: updated.balance,
+      reserved: updated.reserved,
+      available: updated.balance - updated.reserved,
+      budget,
+    };
+  });
+}
+
+/** Free a hold without charging (model error, timeout, validation failure before the call). */
+export async function releaseCreditHold(holdId: string) {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const hold = await tx.creditHold.findUnique({
+      where: { id: holdId },
+      select: { walletId: true, amount: true },
+    });
+    if (!hold) return false;
+
+    const claimed = await tx.creditHold.updateMany({
+      where: { id: holdId, status: "held" },
+      data: { status: "released", settledAt: new Date() },
+    });
+    if (claimed.count === 0) return false;
+
+    await tx.creditWallet.update({
+      where: { id: hold.walletId },
+      data: { reserved: { decrement: hold.amount } },
+    });
+
+    return true;
+  });
+}
@@ -1,31 +1,47 @@
 // lib/billing/ensureOrgForUser.ts
 import { prisma } from "@/lib/prisma";
+import { acceptPendingInvitationForEmail } from "@/lib/org/invitations";
+import { resolveActiveOrg, type RequestedOrg } from "@/lib/org/activeOrg";
+import { addBillingMonth, renewSubscription } from "@/lib/billing/renewals";
+import { activePlanForOrg } from "@/lib/billing/planChange";
+import { DEFAULT_PLAN_CODE, getPlan } from "@/lib/billing/plans";
 
 /**
  * MVP bootstrap:
- * - If user is not in any org: create org + admin membership + wallet + active subscription
- * - Returns orgId + wallet balance
+ * - If user is not in any org but has a pending invitation (verified email): join that org
+ * - Otherwise, if user is not in any org: create org + admin membership + wallet + active subscription
+ *   (the first period's monthly credits are granted right away)
+ * - Members of several orgs get the active org (see lib/org/activeOrg.ts)
+ * - Returns orgId + wallet balance + the org's active plan (rate limits, enabled modes)
  */
 export async function ensureOrgForUser(params: {
   auth0Sub: string;
   name?: string | null;
   email?: string | null;
+  emailVerified?: boolean;
+  requestedOrg?: RequestedOrg | null;
 }) {
-  const { auth0Sub, name } = params;
+  const { auth0Sub, name, email, emailVerified, requestedOrg } = params;
 
-  // Already a member?
-  const member = await prisma.orgMember.findFirst({
-    where: { auth0Sub },
-    select: { organizationId: true, role: true },
-  });
+  // Already a member? (throws ActiveOrgError for an org the user isn't in)
+  let member = await resolveActiveOrg({ auth0Sub, requested: requestedOrg });
+
+  // Invited colleagues join the inviting org instead of getting their own
+  if (!member && email && emailVerified) {
+    const joined = await acceptPendingInvitationForEmail({ auth0Sub, email });
+    if (joined) member = { organizationId: joined.organizationId, role: joined.role };
+  }
 
   if (member) {
-    const wallet = await prisma.creditWallet.findUnique({
-      where: {
-        organizationId_currency: { organizationId: member.organizationId, currency: "credits" },
-      },
-      select: { id: true, balance: true },
-    });
+    const [wallet, plan] = await Promise.all([
+      prisma.creditWallet.findUnique({
+        where: {
+          organizationId_currency: { organizationId: member.organizationId, currency: "credits" },
+        },
+        select: { id: true, balance: true },
+      }),
+      activePlanForOrg(prisma, member.organizationId),
+    ]);
 
     // Wallet should exist; if not, create it.
     if (!wallet) {
@@ -33,15 +49,16 @@ export async function ensureOrgForUser(params: {
         data: { organizationId: member.organizationId, currency: "credits", balance: 0 },
         select: { id: true, balance: true },
       });
-      return { organizationId: member.organizationId, role: member.role, wallet: created };
+      return { organizationId: member.organizationId, role: member.role, wallet: created, plan };
     }
 
-    return { organizationId: member.organizationId, role: member.role, wallet };
+    return { organizationId: member.organizationId, role: member.role, wallet, plan };
   }
 
   // Create brand-new org for first-time user (admin)
+  const plan = getPlan(DEFAULT_PLAN_CODE)!;
   const now = new Date();
-  const periodEnd = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
+  const periodEnd = addBillingMonth(now);
 
   const org = await prisma.organization.create({
     data: {
@@ -51,20 +68,33 @@ export async function ensureOrgForUser(params: {
       plans: {
         create: {
           status: "active",
-          planCode: "office_50",
-          seats: 5,
-          monthlyCredits: 5000, // adjust later
+          planCode: plan.code,
+          seats: plan.seats,
+          monthlyCredits: plan.monthlyCredits,
           currentPeriodStart: now,
           currentPeriodEnd: periodEnd,
         },
       },
     },
-    select: { id: true, members: { select: { role: true }, take: 1 }, wallets: { select: { id: true, balance: true }, take: 1 } },
+    select: {
+      id: true,
+      members: { select: { role: true }, take: 1 },
+      wallets: { select: { id: true }, take: 1 },
+      plans: { select: { id: true }, take: 1 },
+    },
+  });
+
+  await renewSubscription(org.plans[0].id, now);
+
+  const wallet = await prisma.creditWallet.findUniqueOrThrow({
+    where: { id: org.wallets[0].id },
+    select: { id: true, balance: true },
   });
 
   return {
     organizationId: org.id,
     role: org.members[0]?.role ?? "admin",
-    wallet: org.wallets[0],
+    wallet,
+    plan,
   };
 }
@@ -0,0 +1,189 @@
+// lib/billing/ledger.ts
+/**
+ * CreditLedger export + wallet reconciliation.
+ * - listLedger: filtered, cursor-paginated (newest first) — JSON export
+ * - ledgerCsv: the same filter as a streamed CSV (all matching rows, fetched in batches)
+ * - reconcileWallets: recompute balance from ledger deltas (and reserved from held holds) and report drift
+ *
+ * Every balance change writes a ledger row, so for a healthy wallet:
+ *   balance  = SUM(ledger.delta)
+ *   reserved = SUM(hold.amount WHERE status = "held")
+ */
+
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@/generated/prisma/client";
+
+const CSV_BATCH_SIZE = 1000;
+
+export type LedgerFilter = {
+  organizationId: string;
+  from?: Date;
+  to?: Date; // exclusive
+  reason?: string; // "admin_adjust" also matches "admin_adjust:<note>"
+  auth0Sub?: string;
+};
+
+function ledgerWhere(filter: LedgerFilter): Prisma.CreditLedgerWhereInput {
+  const { organizationId, from, to, reason, auth0Sub } = filter;
+
+  return {
+    wallet: { organizationId },
+    ...(from || to ? { createdAt: { ...(from ? { gte: from } : {}), ...(to ? { lt: to } : {}) } } : {}),
+    ...(reason ? { OR: [{ reason }, { reason: { startsWith: `${reason}:` } }] } : {}),
+    ...(auth0Sub ? { auth0Sub } : {}),
+  };
+}
+
+const LEDGER_SELECT = {
+  id: true,
+  createdAt: true,
+  delta: true,
+  reason: true,
+  auth0Sub: true,
+  requestId: true,
+  model: true,
+  promptTokens: true,
+  completionTokens: true,
+} satisfies Prisma.CreditLedgerSelect;
+
+async function ledgerPage(filter: LedgerFilter, cursor: string | null, limit: number) {
+  const rows = await prisma.creditLedger.findMany({
+    where: ledgerWhere(filter),
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    select: LEDGER_SELECT,
+  });
+
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+  return { items, nextCursor: hasMore ? items[items.length - 1].id : null };
+}
+
+/** One page + totals for the whole filtered range. */
+export async function listLedger(filter: LedgerFilter & { cursor?: string | null; limit: number }) {
+  const [page, totals] = await Promise.all([
+    ledgerPage(filter, filter.cursor ?? null, filter.limit),
+    prisma.creditLedger.aggregate({ where: ledgerWhere(filter), _count: { _all: true }, _sum: { delta: true } }),
+  ]);
+
+  return { ...page, totals: { count: totals._count._all, delta: totals._sum.delta ?? 0 } };
+}
+
+const CSV_COLUMNS = [
+  "id",
+  "createdAt",
+  "delta",
+  "reason",
+  "auth0Sub",
+  "requestId",
+  "model",
+  "promptTokens",
+  "completionTokens",
+] as const satisfies readonly (keyof typeof LEDGER_SELECT)[];
+
+function csvCell(v: unknown) {
+  if (v === null || v === undefined) return "";
+  const s = v instanceof Date ? v.toISOString() : String(v);
+  // Quote when needed; prefix formula-looking text so spreadsheets don't evaluate it.
+  const safe = /^[=+\-@]/.test(s) && typeof v === "string" ? `'${s}` : s;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/** Streamed CSV (header + every matching row, newest first). */
+export function ledgerCsv(filter: LedgerFilter) {
+  const encoder = new TextEncoder();
+  let cursor: string | null = null;
+  let started = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!started) {
+        started = true;
+        controller.enqueue(encoder.encode(`${CSV_COLUMNS.join(",")}\n`));
+      }
+
+      const page = await ledgerPage(filter, cursor, CSV_BATCH_SIZE);
+      if (page.items.length > 0) {
+        const lines = page.items.map((row) => CSV_COLUMNS.map((c) => csvCell(row[c])).join(",")).join("\n");
+        controller.enqueue(encoder.encode(`${lines}\n`));
+      }
+
+      if (!page.nextCursor) controller.close();
+      else cursor = page.nextCursor;
+    },
+  });
+}
+
+export type WalletReconciliation = {
+  walletId: string;
+  organizationId: string;
+  currency: string;
+  balance: number;
+  ledgerBalance: number;
+  drift: number; // balance - ledgerBalance
+  reserved: number;
+  heldTotal: number;
+  reservedDrift: number; // reserved - heldTotal
+  ledgerEntries: number;
+};
+
+/**
+ * Recompute every wallet (optionally one org) from its ledger; drift ≠ 0 means money moved without a ledger row.
+ * Reads run in one REPEATABLE READ snapshot so in-flight requests can't show up as transient drift.
+ */
+export async function reconcileWallets(params: { organizationId?: string }) {
+  const walletWhere = params.organizationId ? { organizationId: params.organizationId } : {};
+
+  const [wallets, sums, holds] = await prisma.$transaction(
+    (tx: Prisma.TransactionClient) =>
+      Promise.all([
+        tx.creditWallet.findMany({
+          where: walletWhere,
+          orderBy: { createdAt: "asc" },
+          select: { id: true, organizationId: true, currency: true, balance: true, reserved: true },
+        }),
+        tx.creditLedger.groupBy({
+          by: ["walletId"],
+          where: { wallet: walletWhere },
+          _sum: { delta: true },
+          _count: { _all: true },
+        }),
+        tx.creditHold.groupBy({
+          by: ["walletId"],
+          where: { wallet: walletWhere, status: "held" },
+          _sum: { amount: true },
+        }),
+      ]),
+    { isolationLevel: Prisma.TransactionIsolationLevel.RepeatableRead }
+  );
+
+  const ledgerByWallet = new Map(sums.map((s) => [s.walletId, s]));
+  const heldByWallet = new Map(holds.map((h) => [h.walletId, h._sum.amount ?? 0]));
+
+  const items: WalletReconciliation[] = wallets.map((w) => {
+    const ledgerBalance = ledgerByWallet.get(w.id)?._sum.delta ?? 0;
+    const heldTotal = heldByWallet.get(w.id) ?? 0;
+    return {
+      walletId: w.id,
+      organizationId: w.organizationId,
+      currency: w.currency,
+      balance: w.balance,
+      ledgerBalance,
+      drift: w.balance - ledgerBalance,
+      reserved: w.reserved,
+      heldTotal,
+      reservedDrift: w.reserved - heldTotal,
+      ledgerEntries: ledgerByWallet.get(w.id)?._count._all ?? 0,
+    };
+  });
+
+  const drifted = items.filter((i) => i.drift !== 0 || i.reservedDrift !== 0);
+
+  return {
+    checkedAt: new Date(),
+    wallets: items.length,
+    drifted: drifted.length,
+    items,
+  };
+}
@@ -0,0 +1,151 @@
+// lib/billing/memberBudgets.ts
+/**
+ * Per-member credit budgets inside the org wallet.
+ * - Cap = OrgMember.creditBudget, else Organization.defaultMemberBudget, else unlimited
+ * - Period = the org's active subscription period (calendar month UTC without one)
+ * - Spent = chat_usage ledger entries in the period + the member's active holds
+ *
+ * Enforced in reserveCredits (same transaction as the wallet hold, member row locked),
+ * so parallel requests from one member can't overshoot the cap.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@/generated/prisma/client";
+
+export const MEMBER_BUDGET_MAX = 10_000_000;
+
+export class MemberBudgetExceededError extends Error {
+  constructor(public budget: MemberBudget) {
+    super("Member credit budget exceeded");
+    this.name = "MemberBudgetExceededError";
+  }
+}
+
+export type MemberBudget = {
+  limit: number | null; // null = unlimited
+  source: "member" | "org_default" | null;
+  used: number; // charged this period
+  held: number; // in-flight holds
+  remaining: number | null;
+  periodStart: Date;
+  periodEnd: Date;
+};
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+/** null = unset (falls back to the org default / unlimited); undefined = invalid. */
+export function parseBudget(v: unknown): number | null | undefined {
+  if (v === null) return null;
+  if (typeof v !== "number" || !Number.isInteger(v) || v < 0 || v > MEMBER_BUDGET_MAX) return undefined;
+  return v;
+}
+
+export async function budgetPeriod(db: Db, organizationId: string, now = new Date()) {
+  const sub = await db.subscription.findFirst({
+    where: { organizationId, status: "active" },
+    orderBy: { createdAt: "desc" },
+    select: { currentPeriodStart: true, currentPeriodEnd: true },
+  });
+  if (sub) return { start: sub.currentPeriodStart, end: sub.currentPeriodEnd };
+
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  return { start, end };
+}
+
+/** Budget status for one member (walletId null = org has no wallet yet → nothing spent). */
+export async function memberBudgetStatus(
+  db: Db,
+  params: { organizationId: string; auth0Sub: string; walletId: string | null }
+): Promise<MemberBudget> {
+  const { organizationId, auth0Sub, walletId } = params;
+
+  const [member, org, period] = await Promise.all([
+    db.orgMember.findUnique({
+      where: { organizationId_auth0Sub: { organizationId, auth0Sub } },
+      select: { creditBudget: true },
+    }),
+    db.organization.findUnique({ where: { id: organizationId }, select: { defaultMemberBudget: true } }),
+    budgetPeriod(db, organizationId),
+  ]);
+
+  const [spent, holds] = walletId
+    ? await Promise.all([
+        db.creditLedger.aggregate({
+          where: { walletId, auth0Sub, reason: "chat_usage", createdAt: { gte: period.start } },
+          _sum: { delta: true },
+        }),
+        db.creditHold.aggregate({
+          where: { walletId, auth0Sub, status: "held" },
+          _sum: { amount: true },
+        }),
+      ])
+    : [null, null];
+
+  const used = -(spent?._sum.delta ?? 0);
+  const held = holds?._sum.amount ?? 0;
+
+  const limit = member?.creditBudget ?? org?.defaultMemberBudget ?? null;
+  const source = member?.creditBudget != null ? "member" : org?.defaultMemberBudget != null ? "org_default" : null;
+
+  return {
+    limit,
+    source,
+    used,
+    held,
+    remaining: limit === null ? null : Math.max(0, limit - used - held),
+    periodStart: period.start,
+    periodEnd: period.end,
+  };
+}
+
+/**
+ * Throw MemberBudgetExceededError unless the member can hold `amount` more credits.
+ * Locks the member row first so concurrent reservations by the same member serialize.
+ */
+export async function assertWithinMemberBudget(
+  tx: Prisma.TransactionClient,
+  params: { organizationId: string; auth0Sub: string; walletId: string; amount: number }
+) {
+  const { organizationId, auth0Sub, walletId, amount } = params;
+
+  await tx.$queryRaw`
+    SELECT 1 FROM "OrgMember"
+    WHERE "organizationId" = ${organizationId} AND "auth0Sub" = ${auth0Sub}
+    FOR UPDATE
+  `;
+
+  const budget = await memberBudgetStatus(tx, { organizationId, auth0Sub, walletId });
+  if (budget.remaining !== null && amount > budget.remaining) throw new MemberBudgetExceededError(budget);
+}
+
+/** Usage per member for the admin members list (one query per aggregate, not per member). */
+export async function memberBudgetUsage(organizationId: string) {
+  const [wallet, period] = await Promise.all([
+    prisma.creditWallet.findUnique({
+      where: { organizationId_currency: { organizationId, currency: "credits" } },
+      select: { id: true },
+    }),
+    budgetPeriod(prisma, organizationId),
+  ]);
+  if (!wallet) return { period, usedBySub: new Map<string, number>() };
+
+  const rows = await prisma.creditLedger.groupBy({
+    by: ["auth0Sub"],
+    where: { walletId: wallet.id, reason: "chat_usage", createdAt: { gte: period.start } },
+    _sum: { delta: true },
+  });
+
+  const usedBySub = new Map<string, number>();
+  for (const r of rows) if (r.auth0Sub) usedBySub.set(r.auth0Sub, -(r._sum.delta ?? 0));
+
+  return { period, usedBySub };
+}
+
+export async function setDefaultMemberBudget(params: { organizationId: string; budget: number | null }) {
+  return prisma.organization.update({
+    where: { id: params.organizationId },
+    data: { defaultMemberBudget: params.budget },
+    select: { defaultMemberBudget: true },
+  });
+}
@@ -0,0 +1,316 @@
+// lib/billing/payments.ts
+/**
+ * Self-serve purchases through the payment provider (lib/payments).
+ * - startCheckout: hosted checkout for a credit pack (one-off) or a plan (monthly subscription)
+ * - processPaymentEvent: apply a verified webhook event
+ *     checkout completed (credits)      → "credit_purchase" ledger entry
+ *     checkout completed (subscription) → link the provider subscription to the org's Subscription
+ *     invoice.paid                      → status active, period from the invoice, monthly_topup for it
+ *     invoice.payment_failed            → past_due
+ *     subscription updated/deleted      → status (active | past_due | canceled)
+ *
+ * Idempotent by provider event id: the PaymentEvent row is claimed (processedAt) in the same
+ * transaction as its effects, so redelivered or concurrently delivered events apply once.
+ * Ledger entries also carry an idempotencyKey derived from the event as a backstop.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@/generated/prisma/client";
+import { getCreditPack, getPlan } from "@/lib/billing/plans";
+import { addBillingMonth, grantPeriodCredits } from "@/lib/billing/renewals";
+import { createStripeProvider } from "@/lib/payments/stripe";
+import {
+  PaymentProviderError,
+  type CheckoutItem,
+  type PaymentEvent,
+  type PaymentProvider,
+} from "@/lib/payments/provider";
+
+export type CheckoutErrorCode = "unknown_item" | "already_subscribed";
+
+export class CheckoutError extends Error {
+  constructor(
+    public code: CheckoutErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "CheckoutError";
+  }
+}
+
+let provider: PaymentProvider | null = null;
+
+/** PAYMENT_PROVIDER selects the adapter (default "stripe"). */
+export function getPaymentProvider(): PaymentProvider {
+  if (provider) return provider;
+
+  const name = process.env.PAYMENT_PROVIDER || "stripe";
+  if (name !== "stripe") throw new PaymentProviderError("not_configured", `Unknown PAYMENT_PROVIDER: ${name}`);
+
+  provider = createStripeProvider({
+    secretKey: process.env.STRIPE_SECRET_KEY,
+    webhookSecret: process.env.STRIPE_WEBHOOK_SECRET,
+  });
+  return provider;
+}
+
+export async function startCheckout(params: {
+  organizationId: string;
+  kind: "credits" | "subscription";
+  code: string;
+  baseUrl: string;
+  requestId: string;
+}) {
+  const { organizationId, kind, code, baseUrl, requestId } = params;
+
+  let item: CheckoutItem;
+  if (kind === "credits") {
+    const pack = getCreditPack(code);
+    if (!pack) throw new CheckoutError("unknown_item", `Unknown credit pack: ${code}`);
+    item = { kind, pack };
+  } else {
+    const plan = getPlan(code);
+    if (!plan) throw new CheckoutError("unknown_item", `Unknown plan: ${code}`);
+    item = { kind, plan };
+  }
+
+  const [org, providerSub] = await Promise.all([
+    prisma.organization.findUniqueOrThrow({ where: { id: organizationId }, select: { paymentCustomerId: true } }),
+    prisma.subscription.findFirst({
+      where: { organizationId, status: { in: ["active", "past_due"] }, providerSubscriptionId: { not: null } },
+      select: { id: true },
+    }),
+  ]);
+  if (kind === "subscription" && providerSub) {
+    throw new CheckoutError("already_subscribed", "Organization already has a paid subscription");
+  }
+
+  const session = await getPaymentProvider().createCheckoutSession({
+    organizationId,
+    item,
+    customerId: org.paymentCustomerId,
+    successUrl: `${baseUrl}/admin/metrics?checkout=success`,
+    cancelUrl: `${baseUrl}/admin/metrics?checkout=canceled`,
+    idempotencyKey: `checkout:${requestId}`,
+  });
+
+  return { sessionId: session.id, url: session.url, item: item.kind === "credits" ? item.pack : item.plan };
+}
+
+export type PaymentEventOutcome = {
+  status: "processed" | "duplicate" | "ignored";
+  organizationId: string | null;
+  reason?: string;
+};
+
+type Applied = { organizationId: string | null; ignored?: string };
+
+/** Remember the customer on first purchase (a customer already linked elsewhere is left alone). */
+async function linkCustomer(tx: Prisma.TransactionClient, organizationId: string, customerId: string | null) {
+  if (!customerId) return;
+  const owner = await tx.organization.findUnique({ where: { paymentCustomerId: customerId }, select: { id: true } });
+  if (owner) return;
+  await tx.organization.updateMany({
+    where: { id: organizationId, paymentCustomerId: null },
+    data: { paymentCustomerId: customerId },
+  });
+}
+
+/**
+ * Attach a provider subscription to the org: the current active Subscription takes the new plan's
+ * snapshot, or a new one is created. Credits come from invoice.paid, not from here.
+ */
+async function linkSubscription(
+  tx: Prisma.TransactionClient,
+  params: { organizationId: string; planCode: string | undefined; providerSubscriptionId: string; now: Date }
+) {
+  const { organizationId, providerSubscriptionId, now } = params;
+
+  const linked = await tx.subscription.findUnique({ where: { providerSubscriptionId }, select: { id: true } });
+  if (linked) return linked;
+
+  const plan = params.planCode ? getPlan(params.planCode) : null;
+  if (!plan) return null;
+
+  const current = await tx.subscription.findFirst({
+    where: { organizationId, status: "active", providerSubscriptionId: null },
+    orderBy: { createdAt: "desc" },
+    select: { id: true },
+  });
+
+  const snapshot = { planCode: plan.code, seats: plan.seats, monthlyCredits: plan.monthlyCredits, providerSubscriptionId };
+  if (current) {
+    return tx.subscription.update({ where: { id: current.id }, data: snapshot, select: { id: true } });
+  }
+  return tx.subscription.create({
+    data: {
+      organizationId,
+      status: "active",
+      ...snapshot,
+      currentPeriodStart: now,
+      currentPeriodEnd: addBillingMonth(now),
+      periodCreditsGranted: true, // the first invoice.paid sets the real period and grants it
+    },
+    select: { id: true },
+  });
+}
+
+async function orgExists(tx: Prisma.TransactionClient, organizationId: string | undefined) {
+  if (!organizationId) return false;
+  return (await tx.organization.count({ where: { id: organizationId } })) > 0;
+}
+
+async function applyEvent(tx: Prisma.TransactionClient, providerName: string, event: PaymentEvent): Promise<Applied> {
+  const data = event.data;
+
+  switch (data.kind) {
+    case "checkout_completed": {
+      const organizationId = data.metadata.organizationId ?? null;
+      if (!organizationId || !(await orgExists(tx, organizationId))) {
+        return { organizationId: null, ignored: "unknown organization" };
+      }
+      if (!data.paid) return { organizationId, ignored: "not paid yet" };
+
+      await linkCustomer(tx, organizationId, data.customerId);
+
+      if (data.mode === "subscription") {
+        if (!data.subscriptionId) return { organizationId, ignored: "no subscription id" };
+        const sub = await linkSubscription(tx, {
+          organizationId,
+          planCode: data.metadata.planCode,
+          providerSubscriptionId: data.subscriptionId,
+          now: event.createdAt,
+        });
+        return sub ? { organizationId } : { organizationId, ignored: "unknown plan" };
+      }
+
+      const pack = data.metadata.packCode ? getCreditPack(data.metadata.packCode) : null;
+      if (!pack) return { organizationId, ignored: "unknown credit pack" };
+      if (data.amountTotal !== pack.priceCents || data.currency !== pack.currency) {
+        return { organizationId, ignored: `amount mismatch (${data.amountTotal} ${data.currency})` };
+      }
+
+      const wallet = await tx.creditWallet.upsert({
+        where: { organizationId_currency: { organizationId, currency: "credits" } },
+        update: { balance: { increment: pack.credits } },
+        create: { organizationId, currency: "credits", balance: pack.credits },
+        select: { id: true },
+      });
+      await tx.creditLedger.create({
+        data: {
+          walletId: wallet.id,
+          delta: pack.credits,
+          reason: `credit_purchase:${pack.code}`,
+          idempotencyKey: `payment:${providerName}:${event.id}`,
+        },
+      });
+      return { organizationId };
+    }
+
+    case "invoice_paid": {
+      const sub =
+        (await tx.subscription.findUnique({
+          where: { providerSubscriptionId: data.subscriptionId },
+          select: { id: true },
+        })) ??
+        // invoice.paid can arrive before checkout.session.completed
+        ((await orgExists(tx, data.metadata.organizationId))
+          ? await linkSubscription(tx, {
+              organizationId: data.metadata.organizationId!,
+              planCode: data.metadata.planCode,
+              providerSubscriptionId: data.subscriptionId,
+              now: event.createdAt,
+            })
+          : null);
+      if (!sub) return { organizationId: null, ignored: "unknown subscription" };
+
+      const current = await tx.subscription.findUniqueOrThrow({
+        where: { id: sub.id },
+        select: { id: true, organizationId: true, monthlyCredits: true, currentPeriodStart: true },
+      });
+      if (current.currentPeriodStart.getTime() > data.periodStart.getTime()) {
+        return { organizationId: current.organizationId, ignored: "stale invoice" };
+      }
+
+      const newPeriod = current.currentPeriodStart.getTime() !== data.periodStart.getTime();
+      await tx.subscription.update({
+        where: { id: current.id },
+        data: {
+          status: "active",
+          currentPeriodStart: data.periodStart,
+          currentPeriodEnd: data.periodEnd,
+          ...(newPeriod ? { periodCreditsGranted: false } : {}),
+        },
+      });
+      await linkCustomer(tx, current.organizationId, data.customerId);
+
+      await grantPeriodCredits(tx, {
+        id: current.id,
+        organizationId: current.organizationId,
+        monthlyCredits: current.monthlyCredits,
+        currentPeriodStart: data.periodStart,
+        currentPeriodEnd: data.periodEnd,
+      });
+      return { organizationId: current.organizationId };
+    }
+
+    case "invoice_payment_failed":
+    case "subscription_status": {
+      const status = data.kind === "invoice_payment_failed" ? "past_due" : data.status;
+      const sub = await tx.subscription.findUnique({
+        where: { providerSubscriptionId: data.subscriptionId },
+        select: { id: true, organizationId: true, status: true },
+      });
+      if (!sub) return { organizationId: null, ignored: "unknown subscription" };
+      // Canceled is final; a late payment failure doesn't reopen it
+      if (sub.status !== "canceled") {
+        await tx.subscription.update({ where: { id: sub.id }, data: { status } });
+      }
+      return { organizationId: sub.organizationId };
+    }
+
+    case "ignored":
+      return { organizationId: null, ignored: `unhandled event type ${event.type}` };
+  }
+}
+
+export async function processPaymentEvent(providerName: string, event: PaymentEvent): Promise<PaymentEventOutcome> {
+  const stored = await prisma.paymentEvent.upsert({
+    where: { provider_eventId: { provider: providerName, eventId: event.id } },
+    create: {
+      provider: providerName,
+      eventId: event.id,
+      type: event.type,
+      organizationId: ("metadata" in event.data ? event.data.metadata.organizationId : null) ?? null,
+      payload: event.payload as Prisma.InputJsonValue,
+    },
+    update: {},
+    select: { id: true, processedAt: true, organizationId: true },
+  });
+  if (stored.processedAt) return { status: "duplicate", organizationId: stored.organizationId };
+
+  try {
+    return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      // Claim first: a concurrent delivery of the same event blocks here, then sees processedAt and stops.
+      const claimed = await tx.paymentEvent.updateMany({
+        where: { id: stored.id, processedAt: null },
+        data: { processedAt: new Date(), error: null },
+      });
+      if (claimed.count === 0) return { status: "duplicate", organizationId: stored.organizationId } as const;
+
+      const applied = await applyEvent(tx, providerName, event);
+      if (applied.organizationId) {
+        await tx.paymentEvent.update({ where: { id: stored.id }, data: { organizationId: applied.organizationId } });
+      }
+
+      return applied.ignored
+        ? ({ status: "ignored", organizationId: applied.organizationId, reason: applied.ignored } as const)
+        : ({ status: "processed", organizationId: applied.organizationId } as const);
+    });
+  } catch (e: unknown) {
+    await prisma.paymentEvent
+      .update({ where: { id: stored.id }, data: { error: (e instanceof Error ? e.message : "Unknown error").slice(0, 500) } })
+      .catch(() => undefined);
+    throw e;
+  }
+}
@@ -0,0 +1,173 @@
+// lib/billing/planChange.ts
+/**
+ * Mid-period plan changes (admin billing APIs).
+ * - previewPlanChange: what changing now would do (proration, seat check) without writing
+ * - changePlan: same computation inside a transaction, then updates the subscription snapshot
+ *   (planCode/seats/monthlyCredits) and posts a "plan_change" ledger entry for the credit delta
+ *
+ * Only "active" subscriptions can change plan; the period itself is not reset.
+ * Subscriptions billed by the payment provider change plan through checkout instead.
+ * Nothing is charged here, so an upgrade with a price difference is refused ("payment_required")
+ * unless the caller may grant credits anyway (platform admins, billing:topup); otherwise
+ * upgrade → spend → downgrade would mint free credits.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@/generated/prisma/client";
+import { seatUsage } from "@/lib/org/members";
+import { getPlan, planForCode, prorate, type Plan, type ProrationPreview } from "@/lib/billing/plans";
+
+export type PlanChangeErrorCode =
+  | "no_subscription"
+  | "unknown_plan"
+  | "same_plan"
+  | "seats_exceeded"
+  | "provider_managed"
+  | "payment_required"
+  | "conflict";
+
+export class PlanChangeError extends Error {
+  constructor(
+    public code: PlanChangeErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "PlanChangeError";
+  }
+}
+
+export function planChangeErrorStatus(e: PlanChangeError) {
+  switch (e.code) {
+    case "no_subscription":
+      return 404;
+    case "unknown_plan":
+    case "same_plan":
+      return 400;
+    case "payment_required":
+      return 402;
+    default:
+      return 409;
+  }
+}
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+/** Active plan for an org (default plan when there's no active subscription). */
+export async function activePlanForOrg(db: Db, organizationId: string): Promise<Plan> {
+  const sub = await db.subscription.findFirst({
+    where: { organizationId, status: "active" },
+    orderBy: { createdAt: "desc" },
+    select: { planCode: true },
+  });
+  return planForCode(sub?.planCode);
+}
+
+export type PlanChangePreview = ProrationPreview & {
+  subscriptionId: string;
+  periodEnd: Date;
+  seatsInUse: number;
+};
+
+async function computePlanChange(db: Db, params: { organizationId: string; planCode: string; now: Date }) {
+  const { organizationId, planCode, now } = params;
+
+  const to = getPlan(planCode);
+  if (!to) throw new PlanChangeError("unknown_plan", `Unknown plan: ${planCode}`);
+
+  const sub = await db.subscription.findFirst({
+    where: { organizationId, status: "active" },
+    orderBy: { createdAt: "desc" },
+    select: {
+      id: true,
+      planCode: true,
+      currentPeriodStart: true,
+      currentPeriodEnd: true,
+      periodCreditsGranted: true,
+      providerSubscriptionId: true,
+    },
+  });
+  if (!sub) throw new PlanChangeError("no_subscription", "No active subscription");
+  if (sub.providerSubscriptionId) {
+    throw new PlanChangeError("provider_managed", "Subscription is billed by the payment provider");
+  }
+  if (sub.planCode === to.code) throw new PlanChangeError("same_plan", "Already on this plan");
+
+  const [usage, wallet] = await Promise.all([
+    seatUsage(db, organizationId),
+    db.creditWallet.findUnique({
+      where: { organizationId_currency: { organizationId, currency: "credits" } },
+      select: { balance: true, reserved: true },
+    }),
+  ]);
+
+  const seatsInUse = usage.members + usage.pendingInvitations;
+  if (seatsInUse > to.seats) {
+    throw new PlanChangeError(
+      "seats_exceeded",
+      `${to.name} has ${to.seats} seats but ${seatsInUse} are in use (members + pending invitations)`
+    );
+  }
+
+  const preview: PlanChangePreview = {
+    ...prorate({
+      from: planForCode(sub.planCode),
+      to,
+      periodStart: sub.currentPeriodStart,
+      periodEnd: sub.currentPeriodEnd,
+      now,
+      creditsGranted: sub.periodCreditsGranted,
+      availableCredits: wallet ? wallet.balance - wallet.reserved : 0,
+    }),
+    subscriptionId: sub.id,
+    periodEnd: sub.currentPeriodEnd,
+    seatsInUse,
+  };
+
+  return { to, fromPlanCode: sub.planCode, preview };
+}
+
+export async function previewPlanChange(params: { organizationId: string; planCode: string; now?: Date }) {
+  const { preview } = await computePlanChange(prisma, { ...params, now: params.now ?? new Date() });
+  return preview;
+}
+
+export async function changePlan(params: {
+  organizationId: string;
+  planCode: string;
+  auth0Sub: string;
+  /** Apply an upgrade without payment (platform admins only). */
+  allowUnpaidUpgrade?: boolean;
+  now?: Date;
+}) {
+  const { organizationId, auth0Sub } = params;
+  const now = params.now ?? new Date();
+
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const { to, fromPlanCode, preview } = await computePlanChange(tx, { ...params, now });
+    if (preview.priceDeltaCents > 0 && !params.allowUnpaidUpgrade) {
+      throw new PlanChangeError("payment_required", "Upgrading to a paid plan goes through checkout");
+    }
+
+    // Compare-and-set: a concurrent change (or renewal/cancel) makes this a no-op → conflict.
+    const updated = await tx.subscription.updateMany({
+      where: { id: preview.subscriptionId, status: "active", planCode: fromPlanCode },
+      data: { planCode: to.code, seats: to.seats, monthlyCredits: to.monthlyCredits },
+    });
+    if (updated.count === 0) throw new PlanChangeError("conflict", "Subscription changed concurrently; retry");
+
+    if (preview.creditDelta !== 0) {
+      const wallet = await tx.creditWallet.upsert({
+        where: { organizationId_currency: { organizationId, currency: "credits" } },
+        update: { balance: { increment: preview.creditDelta } },
+        create: { organizationId, currency: "credits", balance: Math.max(0, preview.creditDelta) },
+        select: { id: true },
+      });
+
+      await tx.creditLedger.create({
+        data: { walletId: wallet.id, auth0Sub, delta: preview.creditDelta, reason: `plan_change:${fromPlanCode}->${to.code}` },
+      });
+    }
+
+    return preview;
+  });
+}
@@ -0,0 +1,131 @@
+// lib/billing/plans.ts
+/**
+ * Plan + credit pack catalog and proration math (pure; DB side lives in lib/billing/planChange.ts
+ * and lib/billing/payments.ts).
+ * Subscription rows store planCode plus a snapshot of seats/monthlyCredits, so editing a plan
+ * here only affects orgs when they (re)subscribe or change plan.
+ */
+
+import type { Duration } from "@upstash/ratelimit";
+
+export type PlanMode = "coach" | "review";
+
+export type Plan = {
+  code: string;
+  name: string;
+  seats: number;
+  monthlyCredits: number;
+  rateLimit: { limit: number; window: Duration }; // per user, sliding window
+  modes: readonly PlanMode[];
+  priceCents: number; // per month
+  currency: "usd";
+};
+
+export const PLANS: readonly Plan[] = [
+  {
+    code: "starter_10",
+    name: "Starter",
+    seats: 2,
+    monthlyCredits: 1000,
+    rateLimit: { limit: 10, window: "60 s" },
+    modes: ["coach"],
+    priceCents: 1900,
+    currency: "usd",
+  },
+  {
+    code: "office_50",
+    name: "Office",
+    seats: 5,
+    monthlyCredits: 5000,
+    rateLimit: { limit: 20, window: "60 s" },
+    modes: ["coach", "review"],
+    priceCents: 4900,
+    currency: "usd",
+  },
+  {
+    code: "team_200",
+    name: "Team",
+    seats: 20,
+    monthlyCredits: 20000,
+    rateLimit: { limit: 60, window: "60 s" },
+    modes: ["coach", "review"],
+    priceCents: 19900,
+    currency: "usd",
+  },
+];
+
+/** One-off credit purchases (self-serve checkout). */
+export type CreditPack = {
+  code: string;
+  name: string;
+  credits: number;
+  priceCents: number;
+  currency: "usd";
+};
+
+export const CREDIT_PACKS: readonly CreditPack[] = [
+  { code: "credits_1k", name: "1,000 credits", credits: 1000, priceCents: 1000, currency: "usd" },
+  { code: "credits_5k", name: "5,000 credits", credits: 5000, priceCents: 4500, currency: "usd" },
+  { code: "credits_20k", name: "20,000 credits", credits: 20000, priceCents: 16000, currency: "usd" },
+];
+
+export function getCreditPack(code: string): CreditPack | null {
+  return CREDIT_PACKS.find((p) => p.code === code) ?? null;
+}
+
+/** Plan for new orgs. */
+export const DEFAULT_PLAN_CODE = "office_50";
+
+export function getPlan(code: string): Plan | null {
+  return PLANS.find((p) => p.code === code) ?? null;
+}
+
+/** Plan for a stored planCode; unknown/retired codes (and no subscription) behave like the default plan. */
+export function planForCode(code: string | null | undefined): Plan {
+  return (code ? getPlan(code) : null) ?? getPlan(DEFAULT_PLAN_CODE)!;
+}
+
+export type ProrationPreview = {
+  fromPlan: string;
+  toPlan: string;
+  direction: "upgrade" | "downgrade";
+  remainingFraction: number; // share of the current period left, 0..1
+  creditDelta: number; // ledger adjustment (negative on downgrade)
+  priceDeltaCents: number; // prorated amount due (negative = credit)
+};
+
+/**
+ * Prorate the monthly-credit difference over the rest of the current period.
+ * - creditsGranted=false: this period's monthly_topup hasn't been posted yet, so the renewal job
+ *   will grant the new plan's full amount; no adjustment needed now.
+ * - availableCredits caps a downgrade so the wallet never drops below what's reserved.
+ */
+export function prorate(params: {
+  from: Plan;
+  to: Plan;
+  periodStart: Date;
+  periodEnd: Date;
+  now: Date;
+  creditsGranted: boolean;
+  availableCredits: number;
+}): ProrationPreview {
+  const { from, to, periodStart, periodEnd, now } = params;
+
+  const total = periodEnd.getTime() - periodStart.getTime();
+  const left = periodEnd.getTime() - now.getTime();
+  const remainingFraction = total > 0 ? Math.min(1, Math.max(0, left / total)) : 0;
+
+  let creditDelta = params.creditsGranted
+    ? Math.round((to.monthlyCredits - from.monthlyCredits) * remainingFraction)
+    : 0;
+  if (creditDelta < 0) creditDelta = Math.max(creditDelta, -Math.max(0, params.availableCredits));
+
+  return {
+    fromPlan: from.code,
+    toPlan: to.code,
+    direction: to.priceCents >= from.priceCents ? "upgrade" : "downgrade",
+    remainingFraction: Math.round(remainingFraction * 10000) / 10000,
+    creditDelta,
+    priceDeltaCents: Math.round((to.priceCents - from.priceCents) * remainingFraction),
+  };
+}
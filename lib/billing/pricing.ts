@@ -0,0 +1,63 @@
+// lib/billing/pricing.ts
+/**
+ * Per-model credit pricing.
+ * Rates are credits per 1000 tokens, split by direction (completion tokens cost more
+ * at every provider we use). Every billable request costs at least minimumCredits.
+ *
+ * Keep in sync with provider invoices; finance reconciles via CreditLedger.model + token split.
+ */
+
+export type ModelPrice = {
+  promptPer1k: number;
+  completionPer1k: number;
+  minimumCredits: number;
+};
+
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4.1": { promptPer1k: 2, completionPer1k: 8, minimumCredits: 1 },
+  "gpt-4.1-mini": { promptPer1k: 0.4, completionPer1k: 1.6, minimumCredits: 1 },
+  "gpt-4.1-nano": { promptPer1k: 0.1, completionPer1k: 0.4, minimumCredits: 1 },
+  "gpt-4o-mini": { promptPer1k: 0.15, completionPer1k: 0.6, minimumCredits: 1 },
+  "mock-coach-1": { promptPer1k: 1, completionPer1k: 1, minimumCredits: 1 },
+};
+
+/** Fallback for unknown models (legacy flat rate: 1 credit per 1000 tokens). */
+export const DEFAULT_MODEL_PRICE: ModelPrice = { promptPer1k: 1, completionPer1k: 1, minimumCredits: 1 };
+
+/**
+ * Resolve a price for a model id.
+ * Providers often return dated ids ("gpt-4.1-mini-2025-04-14"), so fall back to the longest prefix match.
+ */
+export function priceForModel(model: string): ModelPrice {
+  if (MODEL_PRICES[model]) return MODEL_PRICES[model];
+
+  const prefix = Object.keys(MODEL_PRICES)
+    .filter((k) => model.startsWith(`${k}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? MODEL_PRICES[prefix] : DEFAULT_MODEL_PRICE;
+}
+
+/** Credits for one request (rounded up, minimum charge applies when any tokens were used). */
+export function tokensToCredits(params: { model: string; promptTokens: number; completionTokens: number }) {
+  const prompt = Number.isFinite(params.promptTokens) ? Math.max(0, params.promptTokens) : 0;
+  const completion = Number.isFinite(params.completionTokens) ? Math.max(0, params.completionTokens) : 0;
+  if (prompt + completion <= 0) return 0;
+
+  const price = priceForModel(params.model);
+  const raw = (prompt / 1000) * price.promptPer1k + (completion / 1000) * price.completionPer1k;
+
+  return Math.max(price.minimumCredits, Math.ceil(raw));
+}
+
+/**
+ * Upper bound used for credit holds: estimated prompt (with slack for estimator error)
+ * plus the full max_tokens completion budget.
+ */
+export function worstCaseCredits(params: { model: string; estimatedPromptTokens: number; maxCompletionTokens: number }) {
+  return tokensToCredits({
+    model: params.model,
+    promptTokens: Math.ceil(params.estimatedPromptTokens * 1.5),
+    completionTokens: params.maxCompletionTokens,
+  });
+}
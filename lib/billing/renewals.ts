@@ -0,0 +1,182 @@
+// lib/billing/renewals.ts
+/**
+ * Subscription renewal job (cron route /api/cron/renewals, or `npm run renewals`).
+ *
+ * For every "active" subscription:
+ * - expired period → advance to the period containing `now` (monthly, anchored on the old end)
+ * - period not yet credited → post one monthly_topup ledger entry (+ wallet balance)
+ *
+ * "past_due" and "canceled" subscriptions are left untouched: no new period, no credits.
+ * A past_due subscription that becomes active again is renewed on the next run.
+ * Subscriptions billed by the payment provider are skipped: their invoice.paid webhooks advance
+ * the period and grant credits instead (lib/billing/payments.ts).
+ *
+ * Safe to run repeatedly and concurrently: every step is a conditional update
+ * (compare-and-set on currentPeriodEnd / periodCreditsGranted), so only one runner wins,
+ * and the ledger idempotencyKey is unique per subscription period as a backstop.
+ *
+ * After a grant, the org's low-balance alerts are re-checked (recovered rules re-arm).
+ */
+
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@/generated/prisma/client";
+import { checkBalanceAlerts } from "@/lib/billing/balanceAlerts";
+
+const RENEWAL_BATCH_SIZE = 100;
+
+/** Same day next month (clamped: Jan 31 → Feb 28/29), UTC. */
+export function addBillingMonth(date: Date) {
+  const next = new Date(date);
+  const day = next.getUTCDate();
+  next.setUTCDate(1);
+  next.setUTCMonth(next.getUTCMonth() + 1);
+  const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+  next.setUTCDate(Math.min(day, lastDay));
+  return next;
+}
+
+export function monthlyTopupKey(subscriptionId: string, periodStart: Date) {
+  return `monthly_topup:${subscriptionId}:${periodStart.toISOString()}`;
+}
+
+type RenewalSubscription = {
+  id: string;
+  organizationId: string;
+  monthlyCredits: number;
+  currentPeriodStart: Date;
+  currentPeriodEnd: Date;
+};
+
+/**
+ * Post the current period's monthly_topup once. Returns false when it was already granted
+ * (or the period moved on meanwhile).
+ */
+export async function grantPeriodCredits(tx: Prisma.TransactionClient, sub: RenewalSubscription) {
+  const claimed = await tx.subscription.updateMany({
+    where: {
+      id: sub.id,
+      status: "active",
+      currentPeriodStart: sub.currentPeriodStart,
+      periodCreditsGranted: false,
+    },
+    data: { periodCreditsGranted: true },
+  });
+  if (claimed.count === 0) return false;
+  if (sub.monthlyCredits <= 0) return true;
+
+  const wallet = await tx.creditWallet.upsert({
+    where: { organizationId_currency: { organizationId: sub.organizationId, currency: "credits" } },
+    update: { balance: { increment: sub.monthlyCredits } },
+    create: { organizationId: sub.organizationId, currency: "credits", balance: sub.monthlyCredits },
+    select: { id: true },
+  });
+
+  await tx.creditLedger.create({
+    data: {
+      walletId: wallet.id,
+      delta: sub.monthlyCredits,
+      reason: "monthly_topup",
+      idempotencyKey: monthlyTopupKey(sub.id, sub.currentPeriodStart),
+    },
+  });
+
+  return true;
+}
+
+export type RenewalOutcome = { organizationId: string | null; advanced: boolean; granted: boolean };
+
+/** Renew one subscription (one transaction). */
+export async function renewSubscription(subscriptionId: string, now = new Date()): Promise<RenewalOutcome> {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const sub = await tx.subscription.findUnique({
+      where: { id: subscriptionId },
+      select: {
+        id: true,
+        organizationId: true,
+        status: true,
+        monthlyCredits: true,
+        currentPeriodStart: true,
+        currentPeriodEnd: true,
+        providerSubscriptionId: true,
+      },
+    });
+    if (!sub || sub.status !== "active" || sub.providerSubscriptionId) {
+      return { organizationId: null, advanced: false, granted: false };
+    }
+
+    let period = { currentPeriodStart: sub.currentPeriodStart, currentPeriodEnd: sub.currentPeriodEnd };
+    let advanced = false;
+
+    if (sub.currentPeriodEnd <= now) {
+      // Missed periods (job didn't run) are skipped, not back-credited.
+      let start = sub.currentPeriodEnd;
+      let end = addBillingMonth(start);
+      while (end <= now) {
+        start = end;
+        end = addBillingMonth(start);
+      }
+
+      const moved = await tx.subscription.updateMany({
+        where: { id: sub.id, status: "active", currentPeriodEnd: sub.currentPeriodEnd },
+        data: { currentPeriodStart: start, currentPeriodEnd: end, periodCreditsGranted: false },
+      });
+      if (moved.count === 0) return { organizationId: sub.organizationId, advanced: false, granted: false }; // another runner got there first
+
+      period = { currentPeriodStart: start, currentPeriodEnd: end };
+      advanced = true;
+    }
+
+    const granted = await grantPeriodCredits(tx, { ...sub, ...period });
+    return { organizationId: sub.organizationId, advanced, granted };
+  });
+}
+
+export type RenewalRunResult = {
+  scanned: number;
+  advanced: number;
+  granted: number;
+  failed: { subscriptionId: string; error: string }[];
+};
+
+/** Renew everything that is due. One failing subscription doesn't stop the run. */
+export async function runRenewals(now = new Date()): Promise<RenewalRunResult> {
+  const result: RenewalRunResult = { scanned: 0, advanced: 0, granted: 0, failed: [] };
+  let cursor: string | null = null;
+
+  for (;;) {
+    const due: { id: string }[] = await prisma.subscription.findMany({
+      where: {
+        status: "active",
+        providerSubscriptionId: null,
+        OR: [{ currentPeriodEnd: { lte: now } }, { periodCreditsGranted: false }],
+      },
+      orderBy: { id: "asc" },
+      take: RENEWAL_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      select: { id: true },
+    });
+    if (due.length === 0) break;
+
+    for (const { id } of due) {
+      result.scanned++;
+      try {
+        const outcome = await renewSubscription(id, now);
+        if (outcome.advanced) result.advanced++;
+        if (outcome.granted) result.granted++;
+        if (outcome.granted && outcome.organizationId) {
+          // Reported in `failed`; the grant itself is already committed
+          await checkBalanceAlerts(outcome.organizationId).catch((e: unknown) =>
+            result.failed.push({ subscriptionId: id, error: `alerts: ${e instanceof Error ? e.message : "Unknown error"}` })
+          );
+        }
+      } catch (e: unknown) {
+        result.failed.push({ subscriptionId: id, error: e instanceof Error ? e.message : "Unknown error" });
+      }
+    }
+
+    if (due.length < RENEWAL_BATCH_SIZE) break;
+    cursor = due[due.length - 1].id;
+  }
+
+  return result;
+}
@@ -0,0 +1,151 @@
+// lib/chat/history.ts
+/**
+ * Multi-turn context for chat sessions.
+ * - Newest turns are replayed verbatim until the token budget is used up
+ * - Older turns are folded into ChatSession.summary (extractive, no extra model call)
+ *
+ * Budgets are configurable via env:
+ * - CHAT_HISTORY_TOKEN_BUDGET (default 2000)
+ * - CHAT_HISTORY_MAX_TURNS    (default 20 messages)
+ */
+
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@/generated/prisma/client";
+import { estimateTokens } from "@/lib/chat/tokens";
+
+export type HistoryMessage = { role: "user" | "assistant"; content: string };
+
+export type ConversationContext = {
+  messages: HistoryMessage[];
+  summary: string | null;
+  turnsUsed: number;
+  tokensUsed: number;
+};
+
+type HistoryRow = { id: string; role: string; content: string; createdAt: Date };
+
+const SUMMARY_TOKEN_BUDGET = 400;
+const SUMMARY_LINE_CHARS = 200;
+const HISTORY_PAGE_SIZE = 200;
+
+function envInt(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+}
+
+export function historyBudget() {
+  return {
+    tokenBudget: envInt("CHAT_HISTORY_TOKEN_BUDGET", 2000),
+    maxTurns: envInt("CHAT_HISTORY_MAX_TURNS", 20),
+  };
+}
+
+function summaryLine(m: HistoryMessage) {
+  const text = m.content.replace(/\s+/g, " ").trim();
+  const clipped = text.length > SUMMARY_LINE_CHARS ? `${text.slice(0, SUMMARY_LINE_CHARS)}…` : text;
+  return `- ${m.role === "user" ? "User" : "Coach"}: ${clipped}`;
+}
+
+/** Append lines and drop the oldest ones until the summary fits its own budget. */
+function foldIntoSummary(existing: string | null, overflow: HistoryMessage[]) {
+  const lines = [...(existing ? existing.split("\n") : []), ...overflow.map(summaryLine)];
+  while (lines.length > 1 && estimateTokens(lines.join("\n")) > SUMMARY_TOKEN_BUDGET) lines.shift();
+  return lines.join("\n");
+}
+
+/**
+ * Load prior turns for a session (call BEFORE storing the current user message).
+ * Persists the updated running summary when turns fall out of the window.
+ */
+export async function buildConversationContext(params: {
+  sessionId: string;
+  auth0Sub: string;
+  /** Skip rows from this request (idempotent retry of a failed attempt). */
+  excludeRequestId?: string;
+}): Promise<ConversationContext> {
+  const { sessionId, auth0Sub, excludeRequestId } = params;
+  const { tokenBudget, maxTurns } = historyBudget();
+
+  const session = await prisma.chatSession.findFirst({
+    where: { id: sessionId, auth0Sub },
+    select: { summary: true, summaryThrough: true, summaryThroughId: true },
+  });
+  if (!session) return { messages: [], summary: null, turnsUsed: 0, tokensUsed: 0 };
+
+  // Newest first; anything at/before (summaryThrough, summaryThroughId) is already in the summary.
+  // The id matters when several messages share a createdAt: only the ones folded in are skipped.
+  const { summaryThrough, summaryThroughId } = session;
+  const after: Prisma.ChatMessageWhereInput = !summaryThrough
+    ? {}
+    : summaryThroughId
+      ? {
+          OR: [
+            { createdAt: { gt: summaryThrough } },
+            { createdAt: summaryThrough, id: { gt: summaryThroughId } },
+          ],
+        }
+      : { createdAt: { gt: summaryThrough } }; // set before the id was stored
+
+  // Paged so every unsummarized row is seen: the boundary below covers all of them.
+  const rows: HistoryRow[] = [];
+  let cursor: string | null = null;
+  for (;;) {
+    const page: HistoryRow[] = await prisma.chatMessage.findMany({
+      where: {
+        sessionId,
+        auth0Sub,
+        role: { in: ["user", "assistant"] },
+        AND: [
+          after,
+          excludeRequestId ? { OR: [{ requestId: null }, { requestId: { not: excludeRequestId } }] } : {},
+        ],
+      },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }], // id breaks ties so paging is stable
+      take: HISTORY_PAGE_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      select: { id: true, role: true, content: true, createdAt: true },
+    });
+    rows.push(...page);
+    if (page.length < HISTORY_PAGE_SIZE) break;
+    cursor = page[page.length - 1].id;
+  }
+
+  const kept: HistoryMessage[] = [];
+  const overflow: { message: HistoryMessage; id: string; createdAt: Date }[] = [];
+  let tokensUsed = 0;
+
+  for (const row of rows) {
+    const message: HistoryMessage = { role: row.role === "user" ? "user" : "assistant", content: row.content };
+    const cost = estimateTokens(row.content);
+
+    const fits = overflow.length === 0 && kept.length < maxTurns && tokensUsed + cost <= tokenBudget;
+    if (fits) {
+      kept.push(message);
+      tokensUsed += cost;
+    } else {
+      overflow.push({ message, id: row.id, createdAt: row.createdAt });
+    }
+  }
+
+  let summary = session.summary;
+
+  if (overflow.length > 0) {
+    // overflow is newest-first; fold oldest-first so the summary reads chronologically
+    const chronological = overflow.slice().reverse();
+    summary = foldIntoSummary(summary, chronological.map((o) => o.message));
+
+    await prisma.chatSession.update({
+      where: { id: sessionId },
+      data: { summary, summaryThrough: overflow[0].createdAt, summaryThroughId: overflow[0].id },
+    });
+  }
+
+  if (summary) tokensUsed += estimateTokens(summary);
+
+  return {
+    messages: kept.reverse(),
+    summary,
+    turnsUsed: kept.length,
+    tokensUsed,
+  };
+}
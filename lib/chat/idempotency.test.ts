@@ -0,0 +1,92 @@
+// lib/chat/idempotency.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  messages: [] as Record<string, unknown>[],
+  ledger: [] as Record<string, unknown>[],
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    chatMessage: { findMany: async () => db.messages },
+    creditLedger: { findMany: async () => db.ledger },
+  },
+}));
+vi.mock("@upstash/redis", () => ({ Redis: { fromEnv: () => ({}) } }));
+
+import { findStoredChatResponse } from "@/lib/chat/idempotency";
+
+const KEY = { auth0Sub: "auth0|user", requestId: "req_1" };
+
+function message(role: "user" | "assistant", extra: Record<string, unknown> = {}) {
+  return {
+    sessionId: "session_1",
+    role,
+    content: role === "user" ? "hello" : "hi there",
+    tokensIn: role === "user" ? null : 120,
+    tokensOut: role === "user" ? null : 30,
+    rubricVersionId: null,
+    aborted: false,
+    ...extra,
+  };
+}
+
+const charged = { delta: -7, promptTokens: 120, completionTokens: 30, wallet: { balance: 93 } };
+
+beforeEach(() => {
+  db.messages = [];
+  db.ledger = [];
+});
+
+describe("findStoredChatResponse", () => {
+  it("is new when nothing was stored for the request id", async () => {
+    expect(await findStoredChatResponse(KEY)).toEqual({ status: "new" });
+  });
+
+  it("is incomplete (safe to re-run) when the attempt stored the user message but was never charged", async () => {
+    db.messages = [message("user")];
+    expect(await findStoredChatResponse(KEY)).toEqual({ status: "incomplete", sessionId: "session_1" });
+  });
+
+  it("replays a completed reply with what was charged", async () => {
+    db.messages = [message("user"), message("assistant")];
+    db.ledger = [charged];
+
+    expect(await findStoredChatResponse(KEY)).toEqual({
+      status: "complete",
+      response: {
+        sessionId: "session_1",
+        reply: "hi there",
+        usage: { promptTokens: 120, completionTokens: 30, totalTokens: 150 },
+        creditsCharged: 7,
+        creditsRemaining: 93,
+        rubricVersionId: null,
+        aborted: false,
+      },
+    });
+  });
+
+  it("replays an aborted stream's partial reply as aborted", async () => {
+    db.messages = [message("user"), message("assistant", { content: "hi th", aborted: true })];
+    db.ledger = [charged];
+
+    const found = await findStoredChatResponse(KEY);
+    expect(found).toMatchObject({ status: "complete", response: { reply: "hi th", aborted: true, creditsCharged: 7 } });
+  });
+
+  it("treats a charged request without a stored reply as aborted, not retryable", async () => {
+    db.messages = [message("user")];
+    db.ledger = [charged];
+
+    const found = await findStoredChatResponse(KEY);
+    expect(found).toMatchObject({
+      status: "complete",
+      response: {
+        reply: "",
+        aborted: true,
+        creditsCharged: 7,
+        usage: { promptTokens: 120, completionTokens: 30, totalTokens: 150 },
+      },
+    });
+  });
+});
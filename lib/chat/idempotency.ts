@@ -0,0 +1,109 @@
+// lib/chat/idempotency.ts
+/**
+ * Idempotent /api/chat requests keyed by the client's X-Request-Id.
+ *
+ * - Stored state lives in Postgres: ChatMessage.requestId (user + assistant rows)
+ *   and CreditLedger.requestId (what was charged). Both columns are indexed.
+ * - A short Redis lock (SET NX) detects concurrent replays, which get a 409.
+ * - Aborted streams are final: they were charged, so a retry replays the partial reply with
+ *   `aborted: true` instead of calling the model (and charging) again. That includes streams
+ *   cut off before any text arrived, which leave a chat_usage ledger row but no assistant message.
+ *
+ * Keys are scoped per user so one user can't replay another user's request id.
+ */
+
+import { Redis } from "@upstash/redis";
+import { prisma } from "@/lib/prisma";
+
+/** Replays within this window return the stored response. */
+export const IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** Must outlive the slowest request (model timeout + persistence). */
+const LOCK_TTL_SECONDS = 180;
+
+const redis = Redis.fromEnv();
+
+function lockKey(auth0Sub: string, requestId: string) {
+  return `stefans-mvp:chat:idem:${auth0Sub}:${requestId}`;
+}
+
+export type StoredChatResponse = {
+  sessionId: string;
+  reply: string;
+  usage: { promptTokens: number; completionTokens: number; totalTokens: number };
+  creditsCharged: number;
+  creditsRemaining: number | null;
+  rubricVersionId: string | null; // review replies: rubric version that scored it
+  aborted: boolean; // partial reply from a stream that was cut off
+};
+
+export type IdempotencyLookup =
+  | { status: "new" }
+  /** User message stored but no reply and no charge (earlier attempt failed): safe to re-run in that session. */
+  | { status: "incomplete"; sessionId: string }
+  | { status: "complete"; response: StoredChatResponse };
+
+export async function findStoredChatResponse(params: {
+  auth0Sub: string;
+  requestId: string;
+}): Promise<IdempotencyLookup> {
+  const { auth0Sub, requestId } = params;
+  const since = new Date(Date.now() - IDEMPOTENCY_WINDOW_MS);
+
+  const messages = await prisma.chatMessage.findMany({
+    where: { auth0Sub, requestId, createdAt: { gte: since } },
+    orderBy: { createdAt: "asc" },
+    select: {
+      sessionId: true,
+      role: true,
+      content: true,
+      tokensIn: true,
+      tokensOut: true,
+      rubricVersionId: true,
+      aborted: true,
+    },
+  });
+
+  const userMessage = messages.find((m) => m.role === "user");
+  if (!userMessage) return { status: "new" };
+
+  const ledger = await prisma.creditLedger.findMany({
+    where: { auth0Sub, requestId, reason: "chat_usage" },
+    select: { delta: true, promptTokens: true, completionTokens: true, wallet: { select: { balance: true } } },
+  });
+
+  const assistant = messages.find((m) => m.role === "assistant");
+  // Charged without a stored reply: a stream aborted before any text arrived
+  if (!assistant && ledger.length === 0) return { status: "incomplete", sessionId: userMessage.sessionId };
+
+  const promptTokens = assistant?.tokensIn ?? ledger.reduce((sum, row) => sum + (row.promptTokens ?? 0), 0);
+  const completionTokens = assistant?.tokensOut ?? ledger.reduce((sum, row) => sum + (row.completionTokens ?? 0), 0);
+
+  return {
+    status: "complete",
+    response: {
+      sessionId: userMessage.sessionId,
+      reply: assistant?.content ?? "",
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      creditsCharged: ledger.reduce((sum, row) => sum - row.delta, 0),
+      creditsRemaining: ledger[0]?.wallet.balance ?? null,
+      rubricVersionId: assistant?.rubricVersionId ?? null,
+      aborted: assistant ? assistant.aborted : true,
+    },
+  };
+}
+
+/** Returns false if another request with the same id is in flight. */
+export async function acquireRequestLock(auth0Sub: string, requestId: string): Promise<boolean> {
+  const res = await redis.set(lockKey(auth0Sub, requestId), Date.now(), { nx: true, ex: LOCK_TTL_SECONDS });
+  return res === "OK";
+}
+
+/** Best-effort: the TTL frees the lock if this never runs. */
+export async function releaseRequestLock(auth0Sub: string, requestId: string) {
+  try {
+    await redis.del(lockKey(auth0Sub, requestId));
+  } catch {
+    // ignore
+  }
+}
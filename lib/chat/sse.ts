@@ -0,0 +1,25 @@
+// lib/chat/sse.ts
+/**
+ * Server-Sent Events helpers for streaming chat replies.
+ *
+ * Wire format (one event per frame):
+ *   event: delta\ndata: {"text":"..."}\n\n
+ *   event: done\ndata: { sessionId, usage, creditsCharged, creditsRemaining, rate, ... }\n\n
+ *   event: error\ndata: { error, details? }\n\n
+ */
+
+export type SseEventName = "delta" | "done" | "error";
+
+const encoder = new TextEncoder();
+
+/** Encode a single SSE frame (JSON payload). */
+export function sseEvent(event: SseEventName, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/** Client opted into streaming via body flag or Accept header. */
+export function wantsEventStream(req: Request, bodyFlag: unknown): boolean {
+  if (bodyFlag === true) return true;
+  const accept = req.headers.get("accept") ?? "";
+  return accept.toLowerCase().includes("text/event-stream");
+}
@@ -0,0 +1,9 @@
+// lib/chat/tokens.ts
+/**
+ * Token estimation without a tokenizer dependency.
+ * ~4 characters per token is close enough for budgeting and abort fallbacks.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  return Math.ceil(text.length / 4);
+}
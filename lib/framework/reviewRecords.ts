@@ -0,0 +1,118 @@
+// lib/framework/reviewRecords.ts
+/**
+ * Structured review records.
+ * Every valid review reply is also written as a Review row (nested in the assistant
+ * ChatMessage create, so both land atomically) and can be listed/filtered for trends.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@/generated/prisma/client";
+import type { ReviewResult } from "@/lib/framework/reviewSchema";
+
+/** Nested `review` create for prisma.chatMessage.create (messageId is filled in by Prisma). */
+export function reviewRecordCreate(params: {
+  review: ReviewResult;
+  organizationId: string;
+  auth0Sub: string;
+  sessionId: string;
+  requestId: string | null;
+  rubricVersionId: string | null;
+  repaired: boolean;
+}): Prisma.ReviewUncheckedCreateNestedOneWithoutMessageInput {
+  const { review, organizationId, auth0Sub, sessionId, requestId, rubricVersionId, repaired } = params;
+
+  return {
+    create: {
+      organizationId,
+      auth0Sub,
+      sessionId,
+      requestId,
+      rubricVersionId,
+      score: Math.round(review.score),
+      verdict: review.verdict,
+      breakdown: review.breakdown as Prisma.InputJsonValue,
+      riskGaps: review.riskGaps,
+      antiPatterns: review.antiPatterns,
+      improvements: review.improvements,
+      repaired,
+    },
+  };
+}
+
+export type ReviewListFilter = {
+  organizationId: string;
+  auth0Sub?: string; // omit for the whole org
+  from?: Date;
+  to?: Date;
+  minScore?: number;
+  maxScore?: number;
+  rubricId?: string;
+  cursor?: string | null;
+  limit: number;
+};
+
+/** Newest first, cursor-paginated; stats cover the whole filtered range (not just the page). */
+export async function listReviews(filter: ReviewListFilter) {
+  const { organizationId, auth0Sub, from, to, minScore, maxScore, rubricId, cursor, limit } = filter;
+
+  const where: Prisma.ReviewWhereInput = {
+    organizationId,
+    ...(auth0Sub ? { auth0Sub } : {}),
+    ...(from || to ? { createdAt: { ...(from ? { gte: from } : {}), ...(to ? { lt: to } : {}) } } : {}),
+    ...(minScore !== undefined || maxScore !== undefined
+      ? { score: { ...(minScore !== undefined ? { gte: minScore } : {}), ...(maxScore !== undefined ? { lte: maxScore } : {}) } }
+      : {}),
+    ...(rubricId ? { rubricVersion: { rubricId } } : {}),
+  };
+
+  const [rows, stats] = await Promise.all([
+    prisma.review.findMany({
+      where,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      select: {
+        id: true,
+        auth0Sub: true,
+        sessionId: true,
+        messageId: true,
+        requestId: true,
+        score: true,
+        verdict: true,
+        breakdown: true,
+        riskGaps: true,
+        antiPatterns: true,
+        improvements: true,
+        repaired: true,
+        createdAt: true,
+        rubricVersion: { select: { id: true, version: true, rubric: { select: { id: true, name: true } } } },
+      },
+    }),
+    prisma.review.aggregate({
+      where,
+      _count: { _all: true },
+      _avg: { score: true },
+      _min: { score: true },
+      _max: { score: true },
+    }),
+  ]);
+
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    items: page.map(({ rubricVersion, ...r }) => ({
+      ...r,
+      rubric: rubricVersion
+        ? { id: rubricVersion.rubric.id, name: rubricVersion.rubric.name, version: rubricVersion.version }
+        : null, // built-in
+    })),
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+    stats: {
+      count: stats._count._all,
+      avgScore: stats._avg.score === null ? null : Math.round(stats._avg.score * 10) / 10,
+      minScore: stats._min.score,
+      maxScore: stats._max.score,
+    },
+  };
+}
@@ -0,0 +1,115 @@
+// lib/framework/reviewRepair.ts
+/**
+ * Review output repair.
+ * If the model's review JSON fails validation, run ONE bounded repair call that feeds
+ * the validation errors back. Billing of repair tokens is a policy decision:
+ * - REVIEW_REPAIR_BILLING=bill  (default) → repair tokens are charged and shown in usage
+ * - REVIEW_REPAIR_BILLING=waive → repair tokens are shown but not charged
+ */
+
+import {
+  formatReviewErrors,
+  parseReviewReply,
+  type ReviewFieldError,
+  type ReviewParseOutcome,
+} from "@/lib/framework/reviewSchema";
+import type { Rubric } from "@/lib/framework/rubric";
+import type { LlmProvider, LlmRequest, LlmUsage } from "@/lib/llm";
+
+export type RepairBillingPolicy = "bill" | "waive";
+
+export function repairBillingPolicy(): RepairBillingPolicy {
+  return process.env.REVIEW_REPAIR_BILLING === "waive" ? "waive" : "bill";
+}
+
+export type ReviewRepairInfo = {
+  attempted: boolean;
+  succeeded: boolean;
+  billed: boolean;
+  errors: ReviewFieldError[]; // validation errors that triggered the repair
+  usage: LlmUsage | null;
+};
+
+export type ReviewResolution = {
+  outcome: ReviewParseOutcome;
+  /** Final raw text (the repaired output when a repair ran) */
+  reply: string;
+  repair: ReviewRepairInfo | null;
+};
+
+/** Completion cap for the repair call (also used to size the credit hold). */
+export const REVIEW_REPAIR_MAX_TOKENS = 600;
+
+function repairInstruction(errors: ReviewFieldError[]) {
+  return [
+    "Your previous output failed validation against the required review JSON schema.",
+    "Validation errors:",
+    ...formatReviewErrors(errors.slice(0, 20)).map((e) => `- ${e}`),
+    "Return the corrected review as ONLY valid JSON matching the schema. No prose, no markdown.",
+  ].join("\n");
+}
+
+/** Parse a review reply; on failure run one repair pass through the same provider. */
+export async function resolveReview(params: {
+  llm: LlmProvider;
+  request: LlmRequest;
+  reply: string;
+  rubric?: Rubric;
+  signal?: AbortSignal;
+}): Promise<ReviewResolution> {
+  const { llm, request, reply, rubric, signal } = params;
+
+  const first = parseReviewReply(reply, rubric);
+  if (first.ok) return { outcome: first, reply, repair: null };
+
+  const repairRequest: LlmRequest = {
+    ...request,
+    maxTokens: REVIEW_REPAIR_MAX_TOKENS,
+    temperature: 0,
+    messages: [
+      ...request.messages,
+      { role: "assistant", content: reply },
+      { role: "user", content: repairInstruction(first.errors) },
+    ],
+  };
+
+  const billed = repairBillingPolicy() === "bill";
+
+  try {
+    const repaired = await llm.complete(repairRequest, { signal });
+    const outcome = parseReviewReply(repaired.text, rubric);
+
+    return {
+      outcome: outcome.ok ? outcome : first,
+      reply: outcome.ok ? repaired.text : reply,
+      repair: { attempted: true, succeeded: outcome.ok, billed, errors: first.errors, usage: repaired.usage },
+    };
+  } catch {
+    // Repair is best-effort: keep the original failure.
+    return {
+      outcome: first,
+      reply,
+      repair: { attempted: true, succeeded: false, billed, errors: first.errors, usage: null },
+    };
+  }
+}
+
+/** Response field + tokens to add to the charge (zero unless the repair is billed). */
+export function repairAccounting(repair: ReviewRepairInfo | null) {
+  if (!repair) return { meta: null, billedPromptTokens: 0, billedCompletionTokens: 0 };
+
+  const promptTokens = repair.usage?.promptTokens ?? 0;
+  const completionTokens = repair.usage?.completionTokens ?? 0;
+
+  return {
+    meta: {
+      attempted: repair.attempted,
+      succeeded: repair.succeeded,
+      billed: repair.billed,
+      promptTokens,
+      completionTokens,
+    },
+    billedPromptTokens: repair.billed ? promptTokens : 0,
+    billedCompletionTokens: repair.billed ? completionTokens : 0,
+  };
+}
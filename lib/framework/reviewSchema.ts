@@ -1,14 +1,13 @@
 /**
  * Review mode output contract.
  * The model MUST return JSON matching this shape (or we repair it).
+ * breakdown keys and ranges come from the rubric (see rubric.ts); BUILTIN_RUBRIC by default.
  */
-export type ReviewBreakdown = {
-  businessRelevance: number; // 0-25
-  riskCoverage: number; // 0-25
-  designQuality: number; // 0-20
-  levelAndScope: number; // 0-15
-  diagnosticValue: number; // 0-15
-};
+
+import { BUILTIN_RUBRIC, rubricScore, type Rubric } from "@/lib/framework/rubric";
+
+/** Criterion key → points (0..criterion.maxPoints). */
+export type ReviewBreakdown = Record<string, number>;
 
 export type ReviewResult = {
   score: number; // 0-100
@@ -19,28 +18,236 @@ export type ReviewResult = {
   improvements: string[];
 };
 
+const LIST_KEYS = ["riskGaps", "antiPatterns", "improvements"] as const;
+
+/** "Keep each list <= 6 items" from the review prompt. */
+export const REVIEW_LIST_MAX_ITEMS = 6;
+
+/** Allowed difference (points) between score and the rubric score of the breakdown. */
+export const REVIEW_SCORE_TOLERANCE = 5;
+
 /**
- * Minimal runtime validation to protect UI rendering.
- * (We keep it simple for MVP; later we can add zod.)
+ * JSON Schema sent to providers that support schema-constrained output
+ * (OpenAI response_format: json_schema, strict mode).
  */
-export function isReviewResult(x: unknown): x is ReviewResult {
-  if (typeof x !== "object" || x === null) return false;
+export function reviewJsonSchema(rubric: Rubric = BUILTIN_RUBRIC): Record<string, unknown> {
+  return {
+    type: "object",
+    additionalProperties: false,
+    required: ["score", "verdict", "breakdown", ...LIST_KEYS],
+    properties: {
+      score: { type: "number", minimum: 0, maximum: 100 },
+      verdict: { type: "string" },
+      breakdown: {
+        type: "object",
+        additionalProperties: false,
+        required: rubric.criteria.map((c) => c.key),
+        properties: Object.fromEntries(
+          rubric.criteria.map((c) => [c.key, { type: "number", minimum: 0, maximum: c.maxPoints }])
+        ),
+      },
+      ...Object.fromEntries(
+        LIST_KEYS.map((k) => [k, { type: "array", items: { type: "string" }, maxItems: REVIEW_LIST_MAX_ITEMS }])
+      ),
+    },
+  };
+}
+
+export type ReviewErrorCode =
+  | "json"
+  | "required"
+  | "type"
+  | "range"
+  | "too_many_items"
+  | "item_type"
+  | "unknown_field"
+  | "score_mismatch";
+
+/** One validation problem, addressed by a JSON path like "breakdown.riskCoverage" or "riskGaps[2]". */
+export type ReviewFieldError = {
+  field: string;
+  code: ReviewErrorCode;
+  message: string;
+};
+
+export function formatReviewErrors(errors: ReviewFieldError[]): string[] {
+  return errors.map((e) => `${e.field}: ${e.message}`);
+}
+
+function isFiniteNumber(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+function clamp(n: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, n));
+}
+
+/**
+ * Strict validation: types, ranges, list limits, string-only items and
+ * score/breakdown consistency. Returns every problem found (not just the first).
+ */
+export function validateReview(x: unknown, rubric: Rubric = BUILTIN_RUBRIC): ReviewFieldError[] {
+  if (typeof x !== "object" || x === null || Array.isArray(x)) {
+    return [{ field: "$", code: "type", message: "expected a JSON object" }];
+  }
+
+  const r = x as Record<string, unknown>;
+  const errors: ReviewFieldError[] = [];
+
+  const checkNumber = (field: string, value: unknown, max: number) => {
+    if (value === undefined) {
+      errors.push({ field, code: "required", message: "is required" });
+    } else if (!isFiniteNumber(value)) {
+      errors.push({ field, code: "type", message: "expected number" });
+    } else if (value < 0 || value > max) {
+      errors.push({ field, code: "range", message: `must be between 0 and ${max} (got ${value})` });
+    }
+  };
+
+  checkNumber("score", r.score, 100);
 
+  if (r.verdict === undefined) errors.push({ field: "verdict", code: "required", message: "is required" });
+  else if (typeof r.verdict !== "string") errors.push({ field: "verdict", code: "type", message: "expected string" });
+
+  const breakdown = r.breakdown;
+  if (breakdown === undefined) {
+    errors.push({ field: "breakdown", code: "required", message: "is required" });
+  } else if (typeof breakdown !== "object" || breakdown === null || Array.isArray(breakdown)) {
+    errors.push({ field: "breakdown", code: "type", message: "expected object" });
+  } else {
+    const b = breakdown as Record<string, unknown>;
+    for (const c of rubric.criteria) checkNumber(`breakdown.${c.key}`, b[c.key], c.maxPoints);
+
+    const known = new Set(rubric.criteria.map((c) => c.key));
+    for (const key of Object.keys(b)) {
+      if (!known.has(key)) errors.push({ field: `breakdown.${key}`, code: "unknown_field", message: "not in the rubric" });
+    }
+
+    // Consistency is only meaningful once every number is valid.
+    const numbersOk = !errors.some((e) => e.field === "score" || e.field.startsWith("breakdown."));
+    if (numbersOk) {
+      const expected = rubricScore(b as ReviewBreakdown, rubric);
+      if (Math.abs(expected - (r.score as number)) > REVIEW_SCORE_TOLERANCE) {
+        errors.push({
+          field: "score",
+          code: "score_mismatch",
+          message: `must be within ${REVIEW_SCORE_TOLERANCE} of the breakdown score (${expected}), got ${r.score}`,
+        });
+      }
+    }
+  }
+
+  for (const key of LIST_KEYS) {
+    const list = r[key];
+    if (list === undefined) {
+      errors.push({ field: key, code: "required", message: "is required" });
+      continue;
+    }
+    if (!Array.isArray(list)) {
+      errors.push({ field: key, code: "type", message: "expected array of strings" });
+      continue;
+    }
+    if (list.length > REVIEW_LIST_MAX_ITEMS) {
+      errors.push({
+        field: key,
+        code: "too_many_items",
+        message: `must have at most ${REVIEW_LIST_MAX_ITEMS} items (got ${list.length})`,
+      });
+    }
+    list.forEach((item, i) => {
+      if (typeof item !== "string") errors.push({ field: `${key}[${i}]`, code: "item_type", message: "expected string" });
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Best-effort clamped copy of an invalid review:
+ * numbers clamped into range, unknown criteria dropped, score re-derived from the breakdown when inconsistent,
+ * non-string list items dropped and lists cut to the limit.
+ * Returns null when required fields are missing or the wrong type (nothing sensible to clamp).
+ */
+export function normalizeReview(x: unknown, rubric: Rubric = BUILTIN_RUBRIC): ReviewResult | null {
+  if (typeof x !== "object" || x === null || Array.isArray(x)) return null;
   const r = x as Record<string, unknown>;
-  const breakdown = r.breakdown as Record<string, unknown> | undefined;
-
-  return (
-    typeof r.score === "number" &&
-    typeof r.verdict === "string" &&
-    typeof breakdown === "object" &&
-    breakdown !== null &&
-    typeof breakdown.businessRelevance === "number" &&
-    typeof breakdown.riskCoverage === "number" &&
-    typeof breakdown.designQuality === "number" &&
-    typeof breakdown.levelAndScope === "number" &&
-    typeof breakdown.diagnosticValue === "number" &&
-    Array.isArray(r.riskGaps) &&
-    Array.isArray(r.antiPatterns) &&
-    Array.isArray(r.improvements)
+
+  if (!isFiniteNumber(r.score) || typeof r.verdict !== "string") return null;
+  if (typeof r.breakdown !== "object" || r.breakdown === null) return null;
+
+  const b = r.breakdown as Record<string, unknown>;
+  if (!rubric.criteria.every((c) => isFiniteNumber(b[c.key]))) return null;
+  if (!LIST_KEYS.every((k) => Array.isArray(r[k]))) return null;
+
+  const breakdown: ReviewBreakdown = Object.fromEntries(
+    rubric.criteria.map((c) => [c.key, clamp(b[c.key] as number, 0, c.maxPoints)])
   );
+  const expected = rubricScore(breakdown, rubric);
+  const score = clamp(r.score, 0, 100);
+
+  const list = (k: (typeof LIST_KEYS)[number]) =>
+    (r[k] as unknown[])
+      .filter((item): item is string => typeof item === "string")
+      .slice(0, REVIEW_LIST_MAX_ITEMS);
+
+  return {
+    score: Math.abs(expected - score) > REVIEW_SCORE_TOLERANCE ? expected : score,
+    verdict: r.verdict,
+    breakdown,
+    riskGaps: list("riskGaps"),
+    antiPatterns: list("antiPatterns"),
+    improvements: list("improvements"),
+  };
+}
+
+export function isReviewResult(x: unknown, rubric: Rubric = BUILTIN_RUBRIC): x is ReviewResult {
+  return validateReview(x, rubric).length === 0;
+}
+
+export type ReviewParseOutcome =
+  | { ok: true; review: ReviewResult }
+  | {
+      ok: false;
+      reason: "invalid_shape" | "json_parse_failed";
+      error: string;
+      errors: ReviewFieldError[];
+      /** Clamped version of the reply, when one can be derived. */
+      normalized: ReviewResult | null;
+    };
+
+/**
+ * Extract the JSON object from a raw model reply and validate it.
+ * Models sometimes wrap JSON in prose/markdown, so we slice first "{" .. last "}".
+ */
+export function parseReviewReply(reply: string, rubric: Rubric = BUILTIN_RUBRIC): ReviewParseOutcome {
+  const raw = reply.trim();
+  const start = raw.indexOf("{");
+  const end = raw.lastIndexOf("}");
+  const jsonText = start >= 0 && end >= 0 ? raw.slice(start, end + 1) : raw;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch (e) {
+    const detail = e instanceof Error ? e.message : "invalid JSON";
+    return {
+      ok: false,
+      reason: "json_parse_failed",
+      error: "Failed to parse review JSON",
+      errors: [{ field: "$", code: "json", message: detail }],
+      normalized: null,
+    };
+  }
+
+  const errors = validateReview(parsed, rubric);
+  if (errors.length > 0) {
+    return {
+      ok: false,
+      reason: "invalid_shape",
+      error: "Invalid review JSON",
+      errors,
+      normalized: normalizeReview(parsed, rubric),
+    };
+  }
+  return { ok: true, review: parsed as ReviewResult };
 }
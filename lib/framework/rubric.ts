@@ -0,0 +1,209 @@
+// lib/framework/rubric.ts
+/**
+ * Review rubrics.
+ * A rubric is a list of criteria; the model scores each criterion 0..maxPoints and the
+ * overall score (0-100) is the weighted average of the criterion ratios.
+ *
+ * - BUILTIN_RUBRIC is the original QE scoring model (weights = max points, so score = sum)
+ * - Orgs define their own rubrics in the database (see rubricStore.ts); each edit of the
+ *   criteria creates a new immutable version so stored reviews keep their meaning
+ *
+ * Everything here is pure so the prompt, validator and UI all derive from the same data.
+ */
+
+export type RubricCriterion = {
+  key: string; // JSON key in review.breakdown
+  label: string;
+  description: string;
+  maxPoints: number;
+  weight: number;
+};
+
+export type Rubric = {
+  id: string | null; // null = built-in
+  versionId: string | null;
+  name: string;
+  version: number;
+  criteria: RubricCriterion[];
+};
+
+export const BUILTIN_RUBRIC: Rubric = {
+  id: null,
+  versionId: null,
+  name: "QE default",
+  version: 0,
+  criteria: [
+    {
+      key: "businessRelevance",
+      label: "Business relevance",
+      description: "Tests target the flows and rules that matter most to the business",
+      maxPoints: 25,
+      weight: 25,
+    },
+    {
+      key: "riskCoverage",
+      label: "Risk coverage",
+      description: "High-risk failure modes, negative paths and edge cases are covered",
+      maxPoints: 25,
+      weight: 25,
+    },
+    {
+      key: "designQuality",
+      label: "Design quality",
+      description: "Tests are focused, independent, deterministic and clearly named",
+      maxPoints: 20,
+      weight: 20,
+    },
+    {
+      key: "levelAndScope",
+      label: "Level & scope",
+      description: "Each check sits at the cheapest reliable level (unit/API before UI)",
+      maxPoints: 15,
+      weight: 15,
+    },
+    {
+      key: "diagnosticValue",
+      label: "Diagnostic value",
+      description: "A failure points clearly at the cause",
+      maxPoints: 15,
+      weight: 15,
+    },
+  ],
+};
+
+export const RUBRIC_LIMITS = {
+  minCriteria: 1,
+  maxCriteria: 10,
+  maxPoints: 100,
+  maxWeight: 100,
+  labelChars: 60,
+  descriptionChars: 300,
+  nameChars: 80,
+} as const;
+
+const KEY_PATTERN = /^[a-zA-Z][a-zA-Z0-9]{0,39}$/;
+
+/** Keys the review result already uses at the top level. */
+const RESERVED_KEYS = new Set(["score", "verdict", "breakdown", "riskGaps", "antiPatterns", "improvements"]);
+
+export type RubricCriteriaParse = { ok: true; criteria: RubricCriterion[] } | { ok: false; errors: string[] };
+
+/**
+ * Validate admin-supplied criteria (also used when reading versions back from the DB).
+ * weight defaults to maxPoints.
+ */
+export function parseRubricCriteria(input: unknown): RubricCriteriaParse {
+  if (!Array.isArray(input)) return { ok: false, errors: ["criteria: expected an array"] };
+
+  const errors: string[] = [];
+  if (input.length < RUBRIC_LIMITS.minCriteria || input.length > RUBRIC_LIMITS.maxCriteria) {
+    errors.push(`criteria: must have ${RUBRIC_LIMITS.minCriteria}-${RUBRIC_LIMITS.maxCriteria} items`);
+  }
+
+  const seen = new Set<string>();
+  const criteria: RubricCriterion[] = [];
+
+  input.forEach((raw, i) => {
+    const at = `criteria[${i}]`;
+    if (typeof raw !== "object" || raw === null) {
+      errors.push(`${at}: expected object`);
+      return;
+    }
+    const c = raw as Record<string, unknown>;
+
+    const key = typeof c.key === "string" ? c.key.trim() : "";
+    if (!KEY_PATTERN.test(key)) errors.push(`${at}.key: must be alphanumeric camelCase (max 40 chars)`);
+    else if (RESERVED_KEYS.has(key)) errors.push(`${at}.key: "${key}" is reserved`);
+    else if (seen.has(key)) errors.push(`${at}.key: duplicate "${key}"`);
+    seen.add(key);
+
+    const label = typeof c.label === "string" ? c.label.trim() : "";
+    if (!label || label.length > RUBRIC_LIMITS.labelChars) {
+      errors.push(`${at}.label: required, max ${RUBRIC_LIMITS.labelChars} chars`);
+    }
+
+    const description = typeof c.description === "string" ? c.description.trim() : "";
+    if (description.length > RUBRIC_LIMITS.descriptionChars) {
+      errors.push(`${at}.description: max ${RUBRIC_LIMITS.descriptionChars} chars`);
+    }
+
+    const maxPoints = c.maxPoints;
+    if (!Number.isInteger(maxPoints) || (maxPoints as number) < 1 || (maxPoints as number) > RUBRIC_LIMITS.maxPoints) {
+      errors.push(`${at}.maxPoints: integer 1-${RUBRIC_LIMITS.maxPoints}`);
+    }
+
+    const weight = c.weight ?? maxPoints;
+    if (typeof weight !== "number" || !(weight > 0) || weight > RUBRIC_LIMITS.maxWeight) {
+      errors.push(`${at}.weight: number greater than 0 and at most ${RUBRIC_LIMITS.maxWeight}`);
+    }
+
+    criteria.push({ key, label, description, maxPoints: maxPoints as number, weight: weight as number });
+  });
+
+  return errors.length ? { ok: false, errors } : { ok: true, criteria };
+}
+
+/** Weighted 0-100 score for a breakdown (criterion points clamped to their range). */
+export function rubricScore(breakdown: Record<string, number>, rubric: Rubric) {
+  const totalWeight = rubric.criteria.reduce((sum, c) => sum + c.weight, 0);
+  if (totalWeight <= 0) return 0;
+
+  const weighted = rubric.criteria.reduce((sum, c) => {
+    const points = Math.min(c.maxPoints, Math.max(0, breakdown[c.key] ?? 0));
+    return sum + (points / c.maxPoints) * c.weight;
+  }, 0);
+
+  return Math.round((weighted / totalWeight) * 100);
+}
+
+/** True when the overall score is simply the sum of the points (max points add up to 100, weights = max). */
+function isAdditive(rubric: Rubric) {
+  const total = rubric.criteria.reduce((sum, c) => sum + c.maxPoints, 0);
+  return total === 100 && rubric.criteria.every((c) => c.weight === c.maxPoints);
+}
+
+/** The REVIEW mode instruction for the model, generated from the rubric. */
+export function reviewModeInstruction(rubric: Rubric) {
+  const keys = rubric.criteria.map(
+    (c, i) => `    "${c.key}": number (0-${c.maxPoints})${i < rubric.criteria.length - 1 ? "," : ""}`
+  );
+
+  return [
+    "MODE: REVIEW & SCORING",
+    "Return ONLY valid JSON. No markdown. No prose outside JSON.",
+    "Schema:",
+    "{",
+    '  "score": number (0-100),',
+    '  "verdict": string,',
+    '  "breakdown": {',
+    ...keys,
+    "  },",
+    '  "riskGaps": string[],',
+    '  "antiPatterns": string[],',
+    '  "improvements": string[]',
+    "}",
+    `Scoring criteria (rubric "${rubric.name}"):`,
+    ...rubric.criteria.map(
+      (c) => `- ${c.key} – ${c.label}${c.description ? `: ${c.description}` : ""} (max ${c.maxPoints})`
+    ),
+    "Rules:",
+    isAdditive(rubric)
+      ? "- Ensure breakdown sums to score OR is consistent with score."
+      : `- score = sum(points / max * weight) / sum(weight) * 100, with weights: ${rubric.criteria
+          .map((c) => `${c.key}=${c.weight}`)
+          .join(", ")}.`,
+    "- riskGaps and improvements must be actionable and specific.",
+    "- Keep each list <= 6 items.",
+  ].join("\n");
+}
+
+/** What clients need to render a scorecard (and which version scored it). */
+export function rubricSummary(rubric: Rubric) {
+  return {
+    id: rubric.id,
+    versionId: rubric.versionId,
+    name: rubric.name,
+    version: rubric.version,
+    criteria: rubric.criteria.map((c) => ({ key: c.key, label: c.label, maxPoints: c.maxPoints, weight: c.weight })),
+  };
+}
@@ -0,0 +1,213 @@
+// lib/framework/rubricStore.ts
+/**
+ * Org-defined review rubrics (Postgres).
+ * - ReviewRubric: name/description/default flag, soft-deleted via archivedAt
+ * - ReviewRubricVersion: immutable criteria snapshot; ChatMessage.rubricVersionId points here
+ *
+ * At most one non-archived rubric per org is the default; with none, BUILTIN_RUBRIC applies.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@/generated/prisma/client";
+import { BUILTIN_RUBRIC, parseRubricCriteria, type Rubric, type RubricCriterion } from "@/lib/framework/rubric";
+
+export class RubricNotFoundError extends Error {
+  constructor() {
+    super("Rubric not found");
+    this.name = "RubricNotFoundError";
+  }
+}
+
+/** A concurrent criteria edit created the same version first; the caller should reload and retry. */
+export class RubricConflictError extends Error {
+  constructor() {
+    super("Rubric was changed by another edit");
+    this.name = "RubricConflictError";
+  }
+}
+
+/** Prisma select for a version row that rubricFromVersion understands. */
+export const RUBRIC_VERSION_SELECT = {
+  id: true,
+  version: true,
+  criteria: true,
+  rubric: { select: { id: true, name: true } },
+} as const;
+
+export function rubricFromVersion(row: {
+  id: string;
+  version: number;
+  criteria: unknown;
+  rubric: { id: string; name: string };
+}): Rubric {
+  const parsed = parseRubricCriteria(row.criteria);
+  // Stored criteria were validated on write; a bad row falls back rather than breaking reviews.
+  if (!parsed.ok) return BUILTIN_RUBRIC;
+
+  return {
+    id: row.rubric.id,
+    versionId: row.id,
+    name: row.rubric.name,
+    version: row.version,
+    criteria: parsed.criteria,
+  };
+}
+
+/**
+ * Rubric used to score a review:
+ * explicit rubricId (must belong to the org) → org default → BUILTIN_RUBRIC.
+ */
+export async function resolveRubricForOrg(params: { organizationId: string; rubricId?: string | null }) {
+  const { organizationId, rubricId } = params;
+
+  const rubric = await prisma.reviewRubric.findFirst({
+    where: rubricId
+      ? { id: rubricId, organizationId, archivedAt: null }
+      : { organizationId, isDefault: true, archivedAt: null },
+    select: { id: true, currentVersion: true },
+  });
+
+  if (!rubric) {
+    if (rubricId) throw new RubricNotFoundError();
+    return BUILTIN_RUBRIC;
+  }
+
+  const version = await prisma.reviewRubricVersion.findUnique({
+    where: { rubricId_version: { rubricId: rubric.id, version: rubric.currentVersion } },
+    select: RUBRIC_VERSION_SELECT,
+  });
+  if (!version) return BUILTIN_RUBRIC;
+
+  return rubricFromVersion(version);
+}
+
+/** Exact rubric version a stored review was scored with (null id → built-in). */
+export async function loadRubricVersion(versionId: string | null): Promise<Rubric> {
+  if (!versionId) return BUILTIN_RUBRIC;
+
+  const version = await prisma.reviewRubricVersion.findUnique({
+    where: { id: versionId },
+    select: RUBRIC_VERSION_SELECT,
+  });
+  return version ? rubricFromVersion(version) : BUILTIN_RUBRIC;
+}
+
+export async function listRubrics(organizationId: string) {
+  const rows = await prisma.reviewRubric.findMany({
+    where: { organizationId, archivedAt: null },
+    orderBy: [{ isDefault: "desc" }, { createdAt: "asc" }],
+    select: {
+      id: true,
+      name: true,
+      description: true,
+      isDefault: true,
+      currentVersion: true,
+      updatedAt: true,
+      createdAt: true,
+      versions: { orderBy: { version: "desc" }, take: 1, select: { id: true, criteria: true } },
+    },
+  });
+
+  return rows.map(({ versions, ...r }) => ({
+    ...r,
+    versionId: versions[0]?.id ?? null,
+    criteria: versions[0]?.criteria ?? [],
+  }));
+}
+
+async function clearDefault(tx: Prisma.TransactionClient, organizationId: string) {
+  await tx.reviewRubric.updateMany({
+    where: { organizationId, isDefault: true },
+    data: { isDefault: false },
+  });
+}
+
+export async function createRubric(params: {
+  organizationId: string;
+  name: string;
+  description?: string | null;
+  criteria: RubricCriterion[];
+  isDefault?: boolean;
+  createdBy: string;
+}) {
+  const { organizationId, name, description, criteria, isDefault, createdBy } = params;
+
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    if (isDefault) await clearDefault(tx, organizationId);
+
+    return tx.reviewRubric.create({
+      data: {
+        organizationId,
+        name,
+        description: description ?? null,
+        isDefault: Boolean(isDefault),
+        currentVersion: 1,
+        versions: { create: { version: 1, criteria: criteria as Prisma.InputJsonValue, createdBy } },
+      },
+      select: { id: true, name: true, isDefault: true, currentVersion: true },
+    });
+  });
+}
+
+/** Name/description/default edit in place; new criteria create the next version. */
+export async function updateRubric(params: {
+  organizationId: string;
+  rubricId: string;
+  name?: string;
+  description?: string | null;
+  criteria?: RubricCriterion[];
+  isDefault?: boolean;
+  updatedBy: string;
+}) {
+  const { organizationId, rubricId, name, description, criteria, isDefault, updatedBy } = params;
+
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const rubric = await tx.reviewRubric.findFirst({
+      where: { id: rubricId, organizationId, archivedAt: null },
+      select: { id: true, currentVersion: true },
+    });
+    if (!rubric) throw new RubricNotFoundError();
+
+    if (isDefault) await clearDefault(tx, organizationId);
+
+    let currentVersion = rubric.currentVersion;
+    if (criteria) {
+      // Compare-and-set: of two concurrent edits, only one may claim the next version number.
+      const claimed = await tx.reviewRubric.updateMany({
+        where: { id: rubricId, currentVersion },
+        data: { currentVersion: currentVersion + 1 },
+      });
+      if (claimed.count === 0) throw new RubricConflictError();
+
+      currentVersion += 1;
+      await tx.reviewRubricVersion.create({
+        data: {
+          rubricId,
+          version: currentVersion,
+          criteria: criteria as Prisma.InputJsonValue,
+          createdBy: updatedBy,
+        },
+      });
+    }
+
+    return tx.reviewRubric.update({
+      where: { id: rubricId },
+      data: {
+        ...(name !== undefined ? { name } : {}),
+        ...(description !== undefined ? { description } : {}),
+        ...(isDefault !== undefined ? { isDefault } : {}),
+        currentVersion,
+      },
+      select: { id: true, name: true, isDefault: true, currentVersion: true },
+    });
+  });
+}
+
+/** Soft delete: versions stay so stored reviews keep their rubric. */
+export async function archiveRubric(params: { organizationId: string; rubricId: string }) {
+  const res = await prisma.reviewRubric.updateMany({
+    where: { id: params.rubricId, organizationId: params.organizationId, archivedAt: null },
+    data: { archivedAt: new Date(), isDefault: false },
+  });
+  if (res.count === 0) throw new RubricNotFoundError();
+}
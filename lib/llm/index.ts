@@ -0,0 +1,51 @@
+// lib/llm/index.ts
+/**
+ * Provider selection (env):
+ * - LLM_PROVIDER: "openai" (default) | "openai-compatible" | "mock"
+ * - LLM_MODEL: model id (default "gpt-4.1-mini"; "mock-coach-1" for mock)
+ * - OPENAI_API_KEY: key for "openai"
+ * - LLM_BASE_URL + LLM_API_KEY: self-hosted gateway for "openai-compatible"
+ * - LLM_JSON_SCHEMA=true: gateway supports json_schema structured outputs
+ */
+
+import { createMockProvider } from "@/lib/llm/mock";
+import { createOpenAIProvider } from "@/lib/llm/openai";
+import type { LlmProvider } from "@/lib/llm/types";
+
+export type { LlmMessage, LlmProvider, LlmRequest, LlmUsage, LlmErrorKind } from "@/lib/llm/types";
+
+const DEFAULT_MODEL = "gpt-4.1-mini";
+
+let cached: LlmProvider | null = null;
+
+function createProviderFromEnv(): LlmProvider {
+  const provider = (process.env.LLM_PROVIDER ?? "openai").trim().toLowerCase();
+  const model = process.env.LLM_MODEL?.trim();
+
+  switch (provider) {
+    case "mock":
+      return createMockProvider(model || undefined);
+
+    case "openai-compatible":
+      return createOpenAIProvider({
+        name: "openai-compatible",
+        apiKey: process.env.LLM_API_KEY ?? process.env.OPENAI_API_KEY,
+        baseURL: process.env.LLM_BASE_URL ?? "",
+        jsonSchema: process.env.LLM_JSON_SCHEMA === "true",
+        model: model || DEFAULT_MODEL,
+      });
+
+    case "openai":
+    default:
+      return createOpenAIProvider({
+        apiKey: process.env.OPENAI_API_KEY,
+        model: model || DEFAULT_MODEL,
+      });
+  }
+}
+
+/** Process-wide provider (env is read once per instance). */
+export function getLlmProvider(): LlmProvider {
+  if (!cached) cached = createProviderFromEnv();
+  return cached;
+}
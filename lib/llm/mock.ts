@@ -0,0 +1,122 @@
+// lib/llm/mock.ts
+/**
+ * Deterministic offline provider (LLM_PROVIDER=mock).
+ * Lets the whole chat → persistence → billing pipeline run without a key or network.
+ * - text requests: canned coach reply
+ * - json requests: schema-valid ReviewResult (breakdown follows the rubric in the json_schema, ~72%)
+ *   (include MOCK_INVALID_REVIEW_MARKER in the message to get an invalid one and exercise repair)
+ */
+
+import { estimateTokens } from "@/lib/chat/tokens";
+import type { ReviewResult } from "@/lib/framework/reviewSchema";
+import type { LlmCompletion, LlmProvider, LlmRequest, LlmStreamEvent, LlmUsage } from "@/lib/llm/types";
+
+export const MOCK_REVIEW: ReviewResult = {
+  score: 72,
+  verdict: "Fair – core flows covered, negative and security paths thin",
+  breakdown: {
+    businessRelevance: 18,
+    riskCoverage: 17,
+    designQuality: 15,
+    levelAndScope: 11,
+    diagnosticValue: 11,
+  },
+  riskGaps: [
+    "No test for account lockout after repeated failed attempts",
+    "Session expiry and token refresh are not exercised",
+  ],
+  antiPatterns: ["Happy-path UI tests used where API-level checks would be faster and more stable"],
+  improvements: [
+    "Add an API-level test for the lockout policy (5 failures -> 15 min lock)",
+    "Cover MFA bypass attempts and OTP replay",
+    "Move credential validation checks below the UI layer",
+  ],
+};
+
+export const MOCK_INVALID_REVIEW_MARKER = "#mock-invalid-review";
+
+function lastUserMessage(req: LlmRequest) {
+  for (let i = req.messages.length - 1; i >= 0; i--) {
+    if (req.messages[i].role === "user") return req.messages[i].content;
+  }
+  return "";
+}
+
+/** MOCK_REVIEW, re-scored for a custom rubric when the request carries its schema. */
+function mockReview(req: LlmRequest): ReviewResult {
+  const format = req.responseFormat;
+  if (typeof format !== "object") return MOCK_REVIEW;
+
+  const breakdownSchema = (format.schema.properties as Record<string, { properties?: unknown }> | undefined)
+    ?.breakdown?.properties as Record<string, { maximum?: number }> | undefined;
+  if (!breakdownSchema) return MOCK_REVIEW;
+
+  const breakdown = Object.fromEntries(
+    Object.entries(breakdownSchema).map(([key, prop]) => [key, Math.round((prop.maximum ?? 10) * 0.72)])
+  );
+  return { ...MOCK_REVIEW, breakdown };
+}
+
+function mockReply(req: LlmRequest) {
+  if (req.responseFormat && req.responseFormat !== "text") {
+    const review = mockReview(req);
+    if (lastUserMessage(req).includes(MOCK_INVALID_REVIEW_MARKER)) {
+      // Wrong score type and no improvements list
+      return JSON.stringify({ ...review, score: "seventy-two", improvements: undefined });
+    }
+    return JSON.stringify(review);
+  }
+
+  const topic = lastUserMessage(req).split("\n")[0].trim().slice(0, 80) || "this feature";
+  return [
+    `Before proposing tests for "${topic}", a few clarifying questions:`,
+    "1. Which user journeys carry the most business risk?",
+    "2. What changed in this release, and which components does it touch?",
+    "3. Which failures would be silent (no error shown) versus loud?",
+    "",
+    "Initial risk-based strategy:",
+    "- API-level tests for the highest-risk rules and validation paths",
+    "- One end-to-end smoke test for the primary journey",
+    "- Targeted negative tests for the failure modes above",
+  ].join("\n");
+}
+
+function mockUsage(req: LlmRequest, text: string): LlmUsage {
+  const promptTokens = estimateTokens(req.messages.map((m) => m.content).join("\n"));
+  const completionTokens = Math.min(req.maxTokens, estimateTokens(text));
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+export function createMockProvider(model = "mock-coach-1"): LlmProvider {
+  return {
+    name: "mock",
+    model,
+
+    configError() {
+      return null;
+    },
+
+    async complete(req): Promise<LlmCompletion> {
+      const text = mockReply(req);
+      return { text, model, usage: mockUsage(req, text) };
+    },
+
+    async *stream(req, opts): AsyncIterable<LlmStreamEvent> {
+      const text = mockReply(req);
+      // Word-sized deltas so the UI exercises incremental rendering.
+      for (const piece of text.match(/\S+\s*/g) ?? []) {
+        if (opts?.signal?.aborted) {
+          const err = new Error("Mock stream aborted");
+          err.name = "AbortError";
+          throw err;
+        }
+        yield { type: "delta", text: piece };
+      }
+      yield { type: "usage", usage: mockUsage(req, text) };
+    },
+
+    classifyError(e) {
+      return e instanceof Error && e.name === "AbortError" ? "aborted" : "unknown";
+    },
+  };
+}
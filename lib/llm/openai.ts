@@ -0,0 +1,116 @@
+// lib/llm/openai.ts
+/**
+ * OpenAI Chat Completions provider.
+ * Also used for OpenAI-compatible gateways (vLLM, LiteLLM, Ollama, ...) via baseURL.
+ */
+
+import OpenAI, {
+  APIConnectionTimeoutError,
+  APIError,
+  APIUserAbortError,
+  AuthenticationError,
+  BadRequestError,
+  PermissionDeniedError,
+  RateLimitError,
+} from "openai";
+
+import type {
+  LlmCompletion,
+  LlmErrorKind,
+  LlmProvider,
+  LlmRequest,
+  LlmResponseFormat,
+  LlmStreamEvent,
+  LlmUsage,
+} from "@/lib/llm/types";
+
+type OpenAIUsage = { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+
+function toUsage(u: OpenAIUsage | null | undefined): LlmUsage | null {
+  if (!u) return null;
+  return {
+    promptTokens: u.prompt_tokens ?? 0,
+    completionTokens: u.completion_tokens ?? 0,
+    totalTokens: u.total_tokens ?? (u.prompt_tokens ?? 0) + (u.completion_tokens ?? 0),
+  };
+}
+
+function classifyOpenAIError(e: unknown): LlmErrorKind {
+  if (e instanceof APIUserAbortError) return "aborted";
+  if (e instanceof APIConnectionTimeoutError) return "timeout";
+  if (e instanceof AuthenticationError || e instanceof PermissionDeniedError) return "auth";
+  if (e instanceof RateLimitError) return "rate_limited";
+  if (e instanceof BadRequestError) return "bad_request";
+  if (e instanceof APIError) return "unavailable"; // 5xx + connection errors
+  if (e instanceof Error && e.name === "AbortError") return "aborted";
+  return "unknown";
+}
+
+function toResponseFormat(format: LlmResponseFormat | undefined, jsonSchema: boolean) {
+  if (!format || format === "text") return {};
+  if (format === "json" || !jsonSchema) return { response_format: { type: "json_object" as const } };
+
+  return {
+    response_format: {
+      type: "json_schema" as const,
+      json_schema: { name: format.name, schema: format.schema, strict: true },
+    },
+  };
+}
+
+export function createOpenAIProvider(params: {
+  name?: string;
+  apiKey: string | undefined;
+  model: string;
+  baseURL?: string;
+  /** Gateways without structured outputs fall back to plain JSON mode. */
+  jsonSchema?: boolean;
+}): LlmProvider {
+  const name = params.name ?? "openai";
+  const client = new OpenAI({ apiKey: params.apiKey ?? "", baseURL: params.baseURL || undefined });
+
+  const baseParams = (req: LlmRequest) => ({
+    model: params.model,
+    temperature: req.temperature ?? 0.2,
+    max_tokens: req.maxTokens,
+    messages: req.messages,
+    ...toResponseFormat(req.responseFormat, params.jsonSchema ?? true),
+  });
+
+  return {
+    name,
+    model: params.model,
+
+    configError() {
+      // Self-hosted gateways often run without auth, but always need a base URL.
+      if (params.baseURL === undefined) return params.apiKey ? null : "OPENAI_API_KEY is not set";
+      return params.baseURL ? null : "LLM_BASE_URL is not set";
+    },
+
+    async complete(req, opts): Promise<LlmCompletion> {
+      const completion = await client.chat.completions.create(baseParams(req), { signal: opts?.signal });
+      return {
+        text: completion.choices[0]?.message?.content ?? "",
+        model: completion.model ?? params.model,
+        usage: toUsage(completion.usage),
+      };
+    },
+
+    async *stream(req, opts): AsyncIterable<LlmStreamEvent> {
+      const upstream = await client.chat.completions.create(
+        { ...baseParams(req), stream: true, stream_options: { include_usage: true } },
+        { signal: opts?.signal }
+      );
+
+      for await (const chunk of upstream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield { type: "delta", text: delta };
+
+        const usage = toUsage(chunk.usage);
+        if (usage) yield { type: "usage", usage };
+      }
+    },
+
+    classifyError: classifyOpenAIError,
+  };
+}
@@ -0,0 +1,66 @@
+// lib/llm/types.ts
+/**
+ * Provider-agnostic LLM contract used by /api/chat.
+ * Keeps vendor SDK types out of route handlers so providers can be swapped by env.
+ */
+
+export type LlmRole = "system" | "user" | "assistant";
+
+export type LlmMessage = { role: LlmRole; content: string };
+
+/**
+ * - "json": any JSON object
+ * - json_schema: output constrained to the given JSON Schema (where the provider supports it)
+ */
+export type LlmResponseFormat =
+  | "text"
+  | "json"
+  | { type: "json_schema"; name: string; schema: Record<string, unknown> };
+
+export type LlmRequest = {
+  messages: LlmMessage[];
+  maxTokens: number;
+  temperature?: number;
+  responseFormat?: LlmResponseFormat;
+};
+
+export type LlmUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+export type LlmCompletion = {
+  text: string;
+  model: string;
+  /** null when the provider did not report usage */
+  usage: LlmUsage | null;
+};
+
+export type LlmStreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "usage"; usage: LlmUsage };
+
+export type LlmErrorKind =
+  | "auth"
+  | "rate_limited"
+  | "bad_request"
+  | "timeout"
+  | "aborted"
+  | "unavailable"
+  | "unknown";
+
+export interface LlmProvider {
+  /** Provider id, e.g. "openai" | "openai-compatible" | "mock" */
+  readonly name: string;
+  /** Model id sent to the provider (also used for logging/billing) */
+  readonly model: string;
+
+  /** Returns a human-readable reason when required config is missing, else null. */
+  configError(): string | null;
+
+  complete(req: LlmRequest, opts?: { signal?: AbortSignal }): Promise<LlmCompletion>;
+  stream(req: LlmRequest, opts?: { signal?: AbortSignal }): AsyncIterable<LlmStreamEvent>;
+
+  classifyError(e: unknown): LlmErrorKind;
+}
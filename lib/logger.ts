@@ -15,7 +15,31 @@ export type LogEvent =
   | "forbidden_review_access"
   | "rate_limit_exceeded"
   | "unauthorized"
-  | "chat_error";
+  | "chat_error"
+  | "reviews_error"
+  | "chat_stream_aborted"
+  | "chat_replayed"
+  | "chat_duplicate_in_flight"
+  | "rubric_updated"
+  | "org_member_changed"
+  | "admin_error"
+  | "access_token_invalid"
+  | "renewals_completed"
+  | "renewals_error"
+  | "plan_changed"
+  | "member_budget_exceeded"
+  | "ledger_drift"
+  | "balance_alert_fired"
+  | "balance_alert_error"
+  | "alert_settings_updated"
+  | "notifications_error"
+  | "checkout_started"
+  | "payment_event_processed"
+  | "payment_webhook_rejected"
+  | "payment_webhook_error"
+  | "metrics_rollup_completed"
+  | "metrics_rollup_error"
+  | "metrics_scrape_error";
 
 export type LogPayload = {
   requestId: string;
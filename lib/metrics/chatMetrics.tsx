@@ -2,20 +2,40 @@
 /**
  * Redis-backed chat metrics.
  * We write small counters to 5-minute buckets and keep TTL for easy rollups.
+ * Latency also goes into a per-mode histogram (lib/metrics/latency.ts) for percentiles,
+ * and requests that reached the model add their tokens/credits (lib/metrics/usage.ts).
+ *
+ * Alongside the buckets, CUMULATIVE_METRICS_KEY holds never-expiring counters labelled the way
+ * Prometheus wants them (mode × status, mode × model); /api/metrics exposes them.
  */
 
 import { Redis } from "@upstash/redis";
+import { latencyBucketIndex, latencyField } from "@/lib/metrics/latency";
+import { modeModelUsageIncrements, usageIncrements, type ChatUsageInput } from "@/lib/metrics/usage";
 
 export type ChatMetricMode = "coach" | "review" | "unknown";
-export type ChatMetricStatus = 200 | 400 | 401 | 402 | 403 | 429 | 500;
+export type ChatMetricStatus = 200 | 400 | 401 | 402 | 403 | 409 | 429 | 500;
 
 const redis = Redis.fromEnv();
 
-function bucketKey(nowMs: number) {
-  const bucketSeconds = Math.floor(nowMs / 1000 / 300) * 300; // 5-minute buckets
+export const METRIC_BUCKET_SECONDS = 300; // 5-minute buckets
+export const METRIC_BUCKET_TTL_SECONDS = 60 * 60 * 2; // refreshed on every write
+
+/**
+ * Monotonic counters (no TTL): req_<mode>_<status>, rate_limited_<mode>,
+ * lat_<mode>_<i> + lat_sum_ms_<mode>, usage_*_mode_model:<mode>:<model>.
+ */
+export const CUMULATIVE_METRICS_KEY = "metrics:chat:cumulative";
+
+export function metricBucketKey(bucketSeconds: number) {
   return `metrics:chat:bucket:${bucketSeconds}`;
 }
 
+function bucketKey(nowMs: number) {
+  const bucketSeconds = Math.floor(nowMs / 1000 / METRIC_BUCKET_SECONDS) * METRIC_BUCKET_SECONDS;
+  return metricBucketKey(bucketSeconds);
+}
+
 /**
  * Record per-request metrics.
  * Important: metrics must NEVER block request handling.
@@ -26,6 +46,7 @@ export async function recordChatMetric(input: {
   status: ChatMetricStatus;
   latencyMs: number;
   rateLimited?: boolean;
+  usage?: ChatUsageInput;
 }) {
   try {
     const key = bucketKey(input.nowMs);
@@ -46,11 +67,26 @@ export async function recordChatMetric(input: {
     pipeline.hincrby(key, statusField, 1);
     pipeline.hincrby(key, "latency_sum_ms", latency);
     pipeline.hincrby(key, "latency_count", 1);
+    pipeline.hincrby(key, latencyField(input.mode, latencyBucketIndex(latency)), 1);
 
     if (input.rateLimited) pipeline.hincrby(key, "rate_limited", 1);
+    if (input.usage) {
+      for (const [field, n] of usageIncrements(input.mode, input.usage)) pipeline.hincrby(key, field, n);
+    }
+
+    // Keep buckets long enough to read last 60m with slack (and for lib/metrics/rollup.ts to fold them)
+    pipeline.expire(key, METRIC_BUCKET_TTL_SECONDS);
+
+    pipeline.hincrby(CUMULATIVE_METRICS_KEY, `req_${input.mode}_${input.status}`, 1);
+    pipeline.hincrby(CUMULATIVE_METRICS_KEY, latencyField(input.mode, latencyBucketIndex(latency)), 1);
+    pipeline.hincrby(CUMULATIVE_METRICS_KEY, `lat_sum_ms_${input.mode}`, latency);
+    if (input.rateLimited) pipeline.hincrby(CUMULATIVE_METRICS_KEY, `rate_limited_${input.mode}`, 1);
+    if (input.usage) {
+      for (const [field, n] of modeModelUsageIncrements(input.mode, input.usage)) {
+        pipeline.hincrby(CUMULATIVE_METRICS_KEY, field, n);
+      }
+    }
 
-    // Keep buckets long enough to read last 60m with slack
-    pipeline.expire(key, 60 * 60 * 2); // 2 hours
     await pipeline.exec();
   } catch {
     // Swallow metrics failures by design.
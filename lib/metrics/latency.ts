@@ -0,0 +1,104 @@
+// lib/metrics/latency.ts
+/**
+ * Fixed-bucket latency histograms for chat metrics.
+ * Each 5-minute Redis bucket holds one counter per (mode, latency bucket):
+ *   lat_<mode>_<i>  → requests with LATENCY_BOUNDS_MS[i-1] < latency <= LATENCY_BOUNDS_MS[i]
+ * (the last index is the overflow bucket, > the largest bound).
+ * Counts are not cumulative, so histograms from different buckets/modes just add up.
+ *
+ * Percentiles are estimated by linear interpolation inside the bucket that contains them;
+ * anything in the overflow bucket reports the largest bound.
+ */
+
+import type { ChatMetricMode } from "@/lib/metrics/chatMetrics";
+
+export const LATENCY_BOUNDS_MS = [100, 250, 500, 1000, 2000, 3000, 5000, 8000, 13000, 20000, 30000, 60000] as const;
+
+export const LATENCY_MODES = ["coach", "review", "unknown"] as const satisfies readonly ChatMetricMode[];
+
+/** Counts per bucket: LATENCY_BOUNDS_MS.length finite buckets + 1 overflow. */
+export type LatencyHistogram = number[];
+
+export type LatencyHistograms = Record<ChatMetricMode, LatencyHistogram>;
+
+export type LatencyPercentiles = { p50: number; p90: number; p95: number; p99: number };
+
+export function emptyHistogram(): LatencyHistogram {
+  return new Array(LATENCY_BOUNDS_MS.length + 1).fill(0);
+}
+
+export function emptyHistograms(): LatencyHistograms {
+  return { coach: emptyHistogram(), review: emptyHistogram(), unknown: emptyHistogram() };
+}
+
+export function latencyBucketIndex(latencyMs: number) {
+  const i = LATENCY_BOUNDS_MS.findIndex((bound) => latencyMs <= bound);
+  return i === -1 ? LATENCY_BOUNDS_MS.length : i;
+}
+
+export function latencyField(mode: ChatMetricMode, index: number) {
+  return `lat_${mode}_${index}`;
+}
+
+/** Add `from` into `into` (in place). */
+export function addHistogram(into: LatencyHistogram, from: readonly number[] | undefined) {
+  if (!from) return into;
+  for (let i = 0; i < into.length; i++) into[i] += Number(from[i] ?? 0) || 0;
+  return into;
+}
+
+export function addHistograms(into: LatencyHistograms, from: Partial<LatencyHistograms> | null | undefined) {
+  for (const mode of LATENCY_MODES) addHistogram(into[mode], from?.[mode]);
+  return into;
+}
+
+/** Per-mode histograms from a Redis bucket hash. */
+export function histogramsFromHash(raw: Record<string, unknown>): LatencyHistograms {
+  const out = emptyHistograms();
+  for (const mode of LATENCY_MODES) {
+    for (let i = 0; i < out[mode].length; i++) out[mode][i] = Number(raw[latencyField(mode, i)] ?? 0) || 0;
+  }
+  return out;
+}
+
+/** All modes folded into one histogram. */
+export function combinedHistogram(h: LatencyHistograms) {
+  const out = emptyHistogram();
+  for (const mode of LATENCY_MODES) addHistogram(out, h[mode]);
+  return out;
+}
+
+export function percentile(hist: LatencyHistogram, p: number) {
+  const count = hist.reduce((a, b) => a + b, 0);
+  if (count === 0) return 0;
+
+  const rank = (p / 100) * count;
+  let seen = 0;
+  for (let i = 0; i < hist.length; i++) {
+    if (hist[i] === 0) continue;
+    if (seen + hist[i] >= rank) {
+      if (i === LATENCY_BOUNDS_MS.length) return LATENCY_BOUNDS_MS[i - 1];
+      const lower = i === 0 ? 0 : LATENCY_BOUNDS_MS[i - 1];
+      const upper = LATENCY_BOUNDS_MS[i];
+      return Math.round(lower + ((rank - seen) / hist[i]) * (upper - lower));
+    }
+    seen += hist[i];
+  }
+  return LATENCY_BOUNDS_MS[LATENCY_BOUNDS_MS.length - 1];
+}
+
+export function percentiles(hist: LatencyHistogram): LatencyPercentiles {
+  return { p50: percentile(hist, 50), p90: percentile(hist, 90), p95: percentile(hist, 95), p99: percentile(hist, 99) };
+}
+
+/** Overall + per-mode percentiles for API responses. */
+export function latencySummary(h: LatencyHistograms) {
+  return {
+    ...percentiles(combinedHistogram(h)),
+    byMode: {
+      coach: percentiles(h.coach),
+      review: percentiles(h.review),
+      unknown: percentiles(h.unknown),
+    },
+  };
+}
@@ -0,0 +1,131 @@
+// lib/metrics/prometheus.ts
+/**
+ * Prometheus text exposition (format 0.0.4) for /api/metrics.
+ * Chat series come from the never-expiring Redis hash (CUMULATIVE_METRICS_KEY in lib/metrics/chatMetrics.tsx),
+ * wallet gauges from Postgres at scrape time.
+ *
+ * Exported metrics (names and labels are a contract with dashboards/alerts: add, don't rename):
+ *   chat_requests_total{mode,status}                  counter   requests by mode and HTTP status
+ *   chat_rate_limited_total{mode}                     counter   requests rejected by the rate limiter
+ *   chat_request_duration_seconds{mode,le}            histogram request latency (_bucket, _sum, _count)
+ *   chat_tokens_total{mode,model,type}                counter   charged tokens, type = prompt | completion
+ *   chat_credits_charged_total{mode,model}            counter   credits settled for chat requests
+ *   credit_wallet_balance{organization_id,currency}   gauge     wallet balance
+ *   credit_wallet_reserved{organization_id,currency}  gauge     credits held by in-flight requests
+ *
+ * mode = coach | review | unknown; status = the ChatMetricStatus values; model = lowercased model name.
+ * Every mode × status pair is exported (zero included) so rate() works from the first scrape.
+ */
+
+import { Redis } from "@upstash/redis";
+import { prisma } from "@/lib/prisma";
+import { CUMULATIVE_METRICS_KEY, type ChatMetricStatus } from "@/lib/metrics/chatMetrics";
+import { LATENCY_BOUNDS_MS, LATENCY_MODES, histogramsFromHash } from "@/lib/metrics/latency";
+import { modeModelUsageFromHash } from "@/lib/metrics/usage";
+
+const redis = Redis.fromEnv();
+
+export const EXPOSITION_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+const STATUSES = [200, 400, 401, 402, 403, 409, 429, 500] as const satisfies readonly ChatMetricStatus[];
+
+type Labels = Record<string, string>;
+type Sample = { suffix?: string; labels: Labels; value: number };
+type MetricFamily = { name: string; help: string; type: "counter" | "gauge" | "histogram"; samples: Sample[] };
+
+function escapeLabel(v: string) {
+  return v.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatValue(v: number) {
+  if (v === Infinity) return "+Inf";
+  if (v === -Infinity) return "-Inf";
+  return Number.isFinite(v) ? String(v) : "NaN";
+}
+
+function formatLabels(labels: Labels) {
+  const parts = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return parts.length ? `{${parts.join(",")}}` : "";
+}
+
+export function renderExposition(families: MetricFamily[]) {
+  const lines: string[] = [];
+  for (const f of families) {
+    lines.push(`# HELP ${f.name} ${f.help}`, `# TYPE ${f.name} ${f.type}`);
+    for (const s of f.samples) lines.push(`${f.name}${s.suffix ?? ""}${formatLabels(s.labels)} ${formatValue(s.value)}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+function chatFamilies(raw: Record<string, unknown>): MetricFamily[] {
+  const num = (field: string) => Number(raw[field] ?? 0) || 0;
+
+  const requests: Sample[] = LATENCY_MODES.flatMap((mode) =>
+    STATUSES.map((status) => ({ labels: { mode, status: String(status) }, value: num(`req_${mode}_${status}`) }))
+  );
+
+  const rateLimited: Sample[] = LATENCY_MODES.map((mode) => ({ labels: { mode }, value: num(`rate_limited_${mode}`) }));
+
+  const histograms = histogramsFromHash(raw);
+  const duration: Sample[] = LATENCY_MODES.flatMap((mode) => {
+    let cumulative = 0;
+    const buckets = LATENCY_BOUNDS_MS.map((bound, i) => {
+      cumulative += histograms[mode][i];
+      return { suffix: "_bucket", labels: { mode, le: formatValue(bound / 1000) }, value: cumulative };
+    });
+    const count = cumulative + histograms[mode][LATENCY_BOUNDS_MS.length];
+    return [
+      ...buckets,
+      { suffix: "_bucket", labels: { mode, le: "+Inf" }, value: count },
+      { suffix: "_sum", labels: { mode }, value: num(`lat_sum_ms_${mode}`) / 1000 },
+      { suffix: "_count", labels: { mode }, value: count },
+    ];
+  });
+
+  const usage = modeModelUsageFromHash(raw);
+  const tokens: Sample[] = usage.flatMap(({ mode, model, promptTokens, completionTokens }) => [
+    { labels: { mode, model, type: "prompt" }, value: promptTokens },
+    { labels: { mode, model, type: "completion" }, value: completionTokens },
+  ]);
+  const credits: Sample[] = usage.map(({ mode, model, credits }) => ({ labels: { mode, model }, value: credits }));
+
+  return [
+    { name: "chat_requests_total", help: "Chat requests by mode and HTTP status.", type: "counter", samples: requests },
+    { name: "chat_rate_limited_total", help: "Chat requests rejected by the rate limiter.", type: "counter", samples: rateLimited },
+    { name: "chat_request_duration_seconds", help: "Chat request latency.", type: "histogram", samples: duration },
+    { name: "chat_tokens_total", help: "Charged tokens by mode, model and type.", type: "counter", samples: tokens },
+    { name: "chat_credits_charged_total", help: "Credits charged for chat requests.", type: "counter", samples: credits },
+  ];
+}
+
+async function walletFamilies(): Promise<MetricFamily[]> {
+  const wallets = await prisma.creditWallet.findMany({
+    select: { organizationId: true, currency: true, balance: true, reserved: true },
+    orderBy: [{ organizationId: "asc" }, { currency: "asc" }],
+  });
+
+  const labels = (w: (typeof wallets)[number]) => ({ organization_id: w.organizationId, currency: w.currency });
+  return [
+    {
+      name: "credit_wallet_balance",
+      help: "Credit wallet balance per organization.",
+      type: "gauge",
+      samples: wallets.map((w) => ({ labels: labels(w), value: w.balance })),
+    },
+    {
+      name: "credit_wallet_reserved",
+      help: "Credits held by in-flight requests per organization.",
+      type: "gauge",
+      samples: wallets.map((w) => ({ labels: labels(w), value: w.reserved })),
+    },
+  ];
+}
+
+/** Full scrape body. */
+export async function collectMetrics() {
+  const [raw, wallets] = await Promise.all([
+    redis.hgetall<Record<string, unknown>>(CUMULATIVE_METRICS_KEY),
+    walletFamilies(),
+  ]);
+  return renderExposition([...chatFamilies(raw ?? {}), ...wallets]);
+}
@@ -0,0 +1,265 @@
+// lib/metrics/rollup.ts
+/**
+ * Long-term chat metrics (Postgres) built from the Redis 5-minute buckets (lib/metrics/chatMetrics.tsx).
+ * - rollupChatMetrics: recompute every hour whose buckets are all still in Redis, then the days
+ *   those hours belong to (sum of their hourly rows, latency histograms and token/credit usage included).
+ *   Rows are overwritten, never incremented, so the job can run as often as you like;
+ *   the current hour simply gets refreshed.
+ * - readMetricsHistory: zero-filled hourly/daily series + totals for an arbitrary range.
+ *
+ * Buckets expire METRIC_BUCKET_TTL_SECONDS after their last write, so the job must run at least
+ * every ~90 minutes for each hour to be captured complete (cron: every 15 minutes).
+ */
+
+import { Redis } from "@upstash/redis";
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@/generated/prisma/client";
+import { METRIC_BUCKET_SECONDS, METRIC_BUCKET_TTL_SECONDS, metricBucketKey } from "@/lib/metrics/chatMetrics";
+import {
+  addHistograms,
+  combinedHistogram,
+  emptyHistograms,
+  histogramsFromHash,
+  latencySummary,
+  percentiles,
+  type LatencyHistograms,
+} from "@/lib/metrics/latency";
+import { addUsage, emptyUsage, usageFromHash, usageSummary, usageTotals, type ChatUsage } from "@/lib/metrics/usage";
+
+const redis = Redis.fromEnv();
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const EXPIRY_MARGIN_MS = 10 * 60 * 1000; // don't trust hours whose first bucket is about to expire
+
+export const MAX_HISTORY_POINTS = 1000;
+
+/** Redis hash field → rollup column. */
+const COUNTER_FIELDS = {
+  total: "total",
+  mode_coach: "modeCoach",
+  mode_review: "modeReview",
+  mode_unknown: "modeUnknown",
+  status_200: "status200",
+  status_400: "status400",
+  status_401: "status401",
+  status_402: "status402",
+  status_403: "status403",
+  status_409: "status409",
+  status_429: "status429",
+  status_500: "status500",
+  rate_limited: "rateLimited",
+  latency_sum_ms: "latencySumMs",
+  latency_count: "latencyCount",
+} as const;
+
+type CounterColumn = (typeof COUNTER_FIELDS)[keyof typeof COUNTER_FIELDS];
+type MetricCounters = Record<CounterColumn, number>;
+
+const COUNTER_COLUMNS = Object.values(COUNTER_FIELDS);
+
+const STATUS_CODES = [200, 400, 401, 402, 403, 409, 429, 500] as const;
+
+export type MetricGranularity = "hour" | "day";
+
+function unitMs(granularity: MetricGranularity) {
+  return granularity === "hour" ? HOUR_MS : DAY_MS;
+}
+
+function floorTo(ms: number, unit: number) {
+  return Math.floor(ms / unit) * unit;
+}
+
+function emptyCounters(): MetricCounters {
+  return Object.fromEntries(COUNTER_COLUMNS.map((c) => [c, 0])) as MetricCounters;
+}
+
+/** Prisma row (latencySumMs is BigInt) → plain numbers. */
+function countersOf(row: Record<CounterColumn, number | bigint | null>): MetricCounters {
+  const out = emptyCounters();
+  for (const c of COUNTER_COLUMNS) out[c] = Number(row[c] ?? 0);
+  return out;
+}
+
+type Rollup = { counters: MetricCounters; histograms: LatencyHistograms; usage: ChatUsage };
+
+function toRowData({ counters, histograms, usage }: Rollup) {
+  return {
+    ...counters,
+    latencySumMs: BigInt(counters.latencySumMs),
+    latencyHistogram: histograms as unknown as Prisma.InputJsonValue,
+    usage: usage as unknown as Prisma.InputJsonValue,
+  };
+}
+
+function histogramsOf(json: Prisma.JsonValue) {
+  return addHistograms(emptyHistograms(), json as Partial<LatencyHistograms> | null);
+}
+
+function usageOf(json: Prisma.JsonValue) {
+  return addUsage(emptyUsage(), json as Partial<ChatUsage> | null);
+}
+
+/** Hours (UTC starts, oldest first) whose 5-minute buckets are all still readable, up to the current hour. */
+export function rollupHours(now: Date) {
+  const oldestSafe = now.getTime() - METRIC_BUCKET_TTL_SECONDS * 1000 + EXPIRY_MARGIN_MS;
+  const hours: Date[] = [];
+  for (let h = Math.ceil(oldestSafe / HOUR_MS) * HOUR_MS; h <= now.getTime(); h += HOUR_MS) {
+    hours.push(new Date(h));
+  }
+  return hours;
+}
+
+async function readHourFromRedis(hourStart: Date): Promise<Rollup> {
+  const first = hourStart.getTime() / 1000;
+  const pipeline = redis.pipeline();
+  for (let b = first; b < first + HOUR_MS / 1000; b += METRIC_BUCKET_SECONDS) pipeline.hgetall(metricBucketKey(b));
+  const rows = (await pipeline.exec()) as (Record<string, unknown> | null)[];
+
+  const counters = emptyCounters();
+  const histograms = emptyHistograms();
+  const usage = emptyUsage();
+  for (const raw of rows) {
+    if (!raw) continue;
+    for (const [field, column] of Object.entries(COUNTER_FIELDS)) {
+      counters[column] += Number(raw[field] ?? 0) || 0;
+    }
+    addHistograms(histograms, histogramsFromHash(raw));
+    addUsage(usage, usageFromHash(raw));
+  }
+  return { counters, histograms, usage };
+}
+
+async function writeRollup(granularity: MetricGranularity, bucketStart: Date, rollup: Rollup) {
+  const data = toRowData(rollup);
+  await prisma.chatMetricRollup.upsert({
+    where: { granularity_bucketStart: { granularity, bucketStart } },
+    create: { granularity, bucketStart, ...data },
+    update: data,
+  });
+}
+
+/** Histograms and usage are JSON, so the day is summed here rather than with a SQL aggregate (≤ 24 rows). */
+async function rollupDay(dayStart: Date) {
+  const hours = await prisma.chatMetricRollup.findMany({
+    where: { granularity: "hour", bucketStart: { gte: dayStart, lt: new Date(dayStart.getTime() + DAY_MS) } },
+  });
+  if (hours.length === 0) return false;
+
+  const counters = emptyCounters();
+  const histograms = emptyHistograms();
+  const usage = emptyUsage();
+  for (const row of hours) {
+    const c = countersOf(row);
+    for (const col of COUNTER_COLUMNS) counters[col] += c[col];
+    addHistograms(histograms, histogramsOf(row.latencyHistogram));
+    addUsage(usage, usageOf(row.usage));
+  }
+
+  await writeRollup("day", dayStart, { counters, histograms, usage });
+  return true;
+}
+
+export type RollupResult = { hours: number; days: number };
+
+export async function rollupChatMetrics(now = new Date()): Promise<RollupResult> {
+  const days = new Set<number>();
+  let hours = 0;
+
+  for (const hourStart of rollupHours(now)) {
+    const rollup = await readHourFromRedis(hourStart);
+    if (rollup.counters.total === 0 && rollup.counters.latencyCount === 0) continue; // no traffic: no row
+
+    await writeRollup("hour", hourStart, rollup);
+    hours++;
+    days.add(floorTo(hourStart.getTime(), DAY_MS));
+  }
+
+  let dayRows = 0;
+  for (const day of days) if (await rollupDay(new Date(day))) dayRows++;
+
+  return { hours, days: dayRows };
+}
+
+function statusMap(c: MetricCounters) {
+  return Object.fromEntries(STATUS_CODES.map((s) => [s, c[`status${s}`]])) as Record<(typeof STATUS_CODES)[number], number>;
+}
+
+function avgLatency(c: MetricCounters) {
+  return c.latencyCount > 0 ? Math.round(c.latencySumMs / c.latencyCount) : 0;
+}
+
+/** [from, to) snapped outward to whole buckets; series has one point per bucket (gaps are zeros). */
+export async function readMetricsHistory(params: { from: Date; to: Date; granularity: MetricGranularity }) {
+  const { granularity } = params;
+  const unit = unitMs(granularity);
+  const from = floorTo(params.from.getTime(), unit);
+  const to = Math.ceil(params.to.getTime() / unit) * unit;
+
+  const rows = await prisma.chatMetricRollup.findMany({
+    where: { granularity, bucketStart: { gte: new Date(from), lt: new Date(to) } },
+    orderBy: { bucketStart: "asc" },
+  });
+  const byStart = new Map(
+    rows.map((r) => [
+      r.bucketStart.getTime(),
+      { counters: countersOf(r), histograms: histogramsOf(r.latencyHistogram), usage: usageOf(r.usage) },
+    ])
+  );
+
+  const totals = emptyCounters();
+  const totalHistograms = emptyHistograms();
+  const totalUsage = emptyUsage();
+  const series = [];
+  for (let t = from; t < to; t += unit) {
+    const row = byStart.get(t);
+    const c = row?.counters ?? emptyCounters();
+    const h = row?.histograms ?? emptyHistograms();
+    const u = row?.usage ?? emptyUsage();
+    for (const col of COUNTER_COLUMNS) totals[col] += c[col];
+    addHistograms(totalHistograms, h);
+    addUsage(totalUsage, u);
+    const { promptTokens, completionTokens, totalTokens, credits } = usageTotals(u);
+
+    series.push({
+      bucketStart: new Date(t).toISOString(),
+      total: c.total,
+      coach: c.modeCoach,
+      review: c.modeReview,
+      status200: c.status200,
+      status403: c.status403,
+      status429: c.status429,
+      status500: c.status500,
+      rateLimited: c.rateLimited,
+      avgLatencyMs: avgLatency(c),
+      ...percentiles(combinedHistogram(h)),
+      promptTokens,
+      completionTokens,
+      totalTokens,
+      credits,
+    });
+  }
+
+  return {
+    from: new Date(from),
+    to: new Date(to),
+    granularity,
+    totals: {
+      total: totals.total,
+      coach: totals.modeCoach,
+      review: totals.modeReview,
+      unknown: totals.modeUnknown,
+      status: statusMap(totals),
+      rateLimited: totals.rateLimited,
+      avgLatencyMs: avgLatency(totals),
+      latency: latencySummary(totalHistograms),
+      usage: usageSummary(totalUsage),
+    },
+    series,
+  };
+}
+
+export function historyPoints(from: Date, to: Date, granularity: MetricGranularity) {
+  const unit = unitMs(granularity);
+  return Math.ceil(to.getTime() / unit) - Math.floor(from.getTime() / unit);
+}
@@ -0,0 +1,165 @@
+// lib/metrics/usage.ts
+/**
+ * Token + credit consumption for chat metrics.
+ * Each 5-minute Redis bucket holds, for every request that reached the model:
+ *   usage_<metric>_mode_<mode>    → per mode
+ *   usage_<metric>_model:<model>  → per model (name lowercased, limited to [a-z0-9._-])
+ * where <metric> is req | prompt | completion | credits.
+ * Tokens are the charged ones (repair passes included when billed), so credits line up with the ledger.
+ *
+ * Models come from server config (LLM provider), so the per-model field set stays small.
+ */
+
+import type { ChatMetricMode } from "@/lib/metrics/chatMetrics";
+import { LATENCY_MODES } from "@/lib/metrics/latency";
+
+const USAGE_METRICS = {
+  req: "requests",
+  prompt: "promptTokens",
+  completion: "completionTokens",
+  credits: "credits",
+} as const;
+
+type UsageMetric = keyof typeof USAGE_METRICS;
+
+export type UsageCounters = Record<(typeof USAGE_METRICS)[UsageMetric], number>;
+
+export type ChatUsage = {
+  byMode: Record<ChatMetricMode, UsageCounters>;
+  byModel: Record<string, UsageCounters>;
+};
+
+export type ChatUsageInput = {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  credits: number;
+};
+
+const MODEL_FIELD = /^usage_(req|prompt|completion|credits)_model:(.+)$/;
+const MODE_MODEL_FIELD = /^usage_(prompt|completion|credits)_mode_model:([a-z]+):(.+)$/;
+
+export function emptyUsageCounters(): UsageCounters {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, credits: 0 };
+}
+
+export function emptyUsage(): ChatUsage {
+  return {
+    byMode: { coach: emptyUsageCounters(), review: emptyUsageCounters(), unknown: emptyUsageCounters() },
+    byModel: {},
+  };
+}
+
+export function modelKey(model: string) {
+  return model.toLowerCase().replace(/[^a-z0-9._-]/g, "_").slice(0, 64) || "unknown";
+}
+
+function nonNegative(n: number) {
+  return Math.max(0, Math.floor(Number(n) || 0));
+}
+
+/** Hash increments for one request. */
+export function usageIncrements(mode: ChatMetricMode, input: ChatUsageInput): [string, number][] {
+  const model = modelKey(input.model);
+  const values: Record<UsageMetric, number> = {
+    req: 1,
+    prompt: nonNegative(input.promptTokens),
+    completion: nonNegative(input.completionTokens),
+    credits: nonNegative(input.credits),
+  };
+
+  return (Object.keys(values) as UsageMetric[]).flatMap((metric) => [
+    [`usage_${metric}_mode_${mode}`, values[metric]] as [string, number],
+    [`usage_${metric}_model:${model}`, values[metric]] as [string, number],
+  ]);
+}
+
+/**
+ * Mode × model increments for the cumulative hash (Prometheus labels need both at once):
+ *   usage_<prompt|completion|credits>_mode_model:<mode>:<model>
+ */
+export function modeModelUsageIncrements(mode: ChatMetricMode, input: ChatUsageInput): [string, number][] {
+  const model = modelKey(input.model);
+  return [
+    [`usage_prompt_mode_model:${mode}:${model}`, nonNegative(input.promptTokens)],
+    [`usage_completion_mode_model:${mode}:${model}`, nonNegative(input.completionTokens)],
+    [`usage_credits_mode_model:${mode}:${model}`, nonNegative(input.credits)],
+  ];
+}
+
+export type ModeModelUsage = {
+  mode: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  credits: number;
+};
+
+export function modeModelUsageFromHash(raw: Record<string, unknown>): ModeModelUsage[] {
+  const byKey = new Map<string, ModeModelUsage>();
+  for (const [field, value] of Object.entries(raw)) {
+    const m = MODE_MODEL_FIELD.exec(field);
+    if (!m) continue;
+    const key = `${m[2]}:${m[3]}`;
+    let row = byKey.get(key);
+    if (!row) byKey.set(key, (row = { mode: m[2], model: m[3], promptTokens: 0, completionTokens: 0, credits: 0 }));
+    const column = m[1] === "prompt" ? "promptTokens" : m[1] === "completion" ? "completionTokens" : "credits";
+    row[column] += Number(value ?? 0) || 0;
+  }
+  return [...byKey.values()].sort((a, b) => a.mode.localeCompare(b.mode) || a.model.localeCompare(b.model));
+}
+
+/** Usage from a Redis bucket hash. */
+export function usageFromHash(raw: Record<string, unknown>): ChatUsage {
+  const out = emptyUsage();
+  for (const mode of LATENCY_MODES) {
+    for (const [metric, column] of Object.entries(USAGE_METRICS)) {
+      out.byMode[mode][column] = Number(raw[`usage_${metric}_mode_${mode}`] ?? 0) || 0;
+    }
+  }
+  for (const [field, value] of Object.entries(raw)) {
+    const m = MODEL_FIELD.exec(field);
+    if (!m) continue;
+    const counters = (out.byModel[m[2]] ??= emptyUsageCounters());
+    counters[USAGE_METRICS[m[1] as UsageMetric]] += Number(value ?? 0) || 0;
+  }
+  return out;
+}
+
+function addCounters(into: UsageCounters, from: Partial<UsageCounters> | undefined) {
+  if (!from) return into;
+  for (const column of Object.values(USAGE_METRICS)) into[column] += Number(from[column] ?? 0) || 0;
+  return into;
+}
+
+/** Add `from` into `into` (in place). Also accepts rollup JSON. */
+export function addUsage(into: ChatUsage, from: Partial<ChatUsage> | null | undefined) {
+  for (const mode of LATENCY_MODES) addCounters(into.byMode[mode], from?.byMode?.[mode]);
+  for (const [model, counters] of Object.entries(from?.byModel ?? {})) {
+    addCounters((into.byModel[model] ??= emptyUsageCounters()), counters);
+  }
+  return into;
+}
+
+/** All modes folded together. */
+export function usageTotals(u: ChatUsage) {
+  const out = emptyUsageCounters();
+  for (const mode of LATENCY_MODES) addCounters(out, u.byMode[mode]);
+  return { ...out, totalTokens: out.promptTokens + out.completionTokens };
+}
+
+/** Overall + per-mode + per-model usage for API responses (models by credits, highest first). */
+export function usageSummary(u: ChatUsage) {
+  const withTotal = (c: UsageCounters) => ({ ...c, totalTokens: c.promptTokens + c.completionTokens });
+  return {
+    ...usageTotals(u),
+    byMode: {
+      coach: withTotal(u.byMode.coach),
+      review: withTotal(u.byMode.review),
+      unknown: withTotal(u.byMode.unknown),
+    },
+    byModel: Object.entries(u.byModel)
+      .sort(([, a], [, b]) => b.credits - a.credits || b.requests - a.requests)
+      .map(([model, c]) => ({ model, ...withTotal(c) })),
+  };
+}
@@ -0,0 +1,186 @@
+// lib/notify/smtp.ts
+/**
+ * Minimal SMTP client for plain-text notification emails (no extra dependency).
+ * - SMTP_HOST / SMTP_PORT (default 587) / SMTP_FROM, optional SMTP_USER + SMTP_PASS (AUTH PLAIN)
+ * - SMTP_SECURE=true → implicit TLS (port 465); otherwise STARTTLS when the server offers it
+ * - Credentials are only sent over TLS: with SMTP_USER set, a server without STARTTLS is an error
+ * - Local testing: point it at a catcher like Mailpit/MailHog (SMTP_HOST=localhost SMTP_PORT=1025)
+ */
+
+import net from "net";
+import tls from "tls";
+import { randomUUID } from "crypto";
+
+const SMTP_TIMEOUT_MS = 10_000;
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+};
+
+/** Null when SMTP isn't configured (email delivery is skipped). */
+export function smtpConfigFromEnv(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST?.trim();
+  const from = process.env.SMTP_FROM?.trim();
+  if (!host || !from) return null;
+
+  const secure = process.env.SMTP_SECURE === "true";
+  const port = Number(process.env.SMTP_PORT) || (secure ? 465 : 587);
+
+  return { host, port, secure, user: process.env.SMTP_USER || undefined, pass: process.env.SMTP_PASS || undefined, from };
+}
+
+export class SmtpError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SmtpError";
+  }
+}
+
+/** Line-based reader for multi-line SMTP replies ("250-..." continues, "250 ..." ends). */
+function replyReader(socket: net.Socket | tls.TLSSocket) {
+  let buffer = "";
+  let waiting: ((reply: { code: number; text: string }) => void) | null = null;
+  let failed: ((e: Error) => void) | null = null;
+  let lines: string[] = [];
+  let error: Error | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let idx: number;
+    while ((idx = buffer.indexOf("\r\n")) >= 0) {
+      const line = buffer.slice(0, idx);
+      buffer = buffer.slice(idx + 2);
+      lines.push(line);
+      if (/^\d{3} /.test(line) || /^\d{3}$/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), text: lines.join("\n") };
+        lines = [];
+        waiting?.(reply);
+        waiting = null;
+      }
+    }
+  };
+  const onError = (e: Error) => {
+    error = e;
+    failed?.(e);
+  };
+  const onClose = () => onError(error ?? new SmtpError("SMTP connection closed"));
+
+  socket.on("data", onData);
+  socket.on("error", onError);
+  socket.on("close", onClose);
+
+  return {
+    next() {
+      if (error) return Promise.reject(error);
+      return new Promise<{ code: number; text: string }>((resolve, reject) => {
+        waiting = resolve;
+        failed = reject;
+      });
+    },
+    detach() {
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", onClose);
+    },
+  };
+}
+
+function dotStuff(body: string) {
+  return body.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+}
+
+function headerSafe(v: string) {
+  return v.replace(/[\r\n]+/g, " ");
+}
+
+/** RFC 2047 encoded words for non-ASCII header values (≤ 45 UTF-8 bytes per word, whole code points). */
+function encodeHeader(v: string) {
+  const safe = headerSafe(v);
+  if (/^[\x20-\x7e]*$/.test(safe)) return safe;
+
+  const words: string[] = [];
+  let chunk = "";
+  for (const ch of safe) {
+    if (Buffer.byteLength(chunk + ch) > 45) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += ch;
+  }
+  if (chunk) words.push(chunk);
+  return words.map((w) => `=?UTF-8?B?${Buffer.from(w).toString("base64")}?=`).join("\r\n ");
+}
+
+export async function sendMail(
+  config: SmtpConfig,
+  mail: { to: string[]; subject: string; text: string }
+): Promise<void> {
+  if (mail.to.length === 0) return;
+
+  let socket: net.Socket | tls.TLSSocket = config.secure
+    ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+    : net.connect({ host: config.host, port: config.port });
+  socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new SmtpError("SMTP timeout")));
+
+  let reader = replyReader(socket);
+
+  async function command(line: string | null, expect: number[]) {
+    const pending = reader.next();
+    if (line !== null) socket.write(`${line}\r\n`);
+    const reply = await pending;
+    if (!expect.includes(reply.code)) {
+      throw new SmtpError(`SMTP ${line?.split(" ")[0] ?? "greeting"} failed: ${reply.text}`);
+    }
+    return reply;
+  }
+
+  try {
+    await command(null, [220]);
+    const ehlo = await command("EHLO stefans-mvp", [250]);
+    const auth = Boolean(config.user && config.pass);
+
+    if (!config.secure && /STARTTLS/i.test(ehlo.text)) {
+      await command("STARTTLS", [220]);
+      reader.detach();
+      socket = tls.connect({ socket, servername: config.host });
+      socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new SmtpError("SMTP timeout")));
+      reader = replyReader(socket);
+      await command("EHLO stefans-mvp", [250]);
+    } else if (!config.secure && auth) {
+      throw new SmtpError("SMTP server does not offer STARTTLS; refusing to send credentials unencrypted");
+    }
+
+    if (auth) {
+      const token = Buffer.from(`\u0000${config.user}\u0000${config.pass}`).toString("base64");
+      await command(`AUTH PLAIN ${token}`, [235]);
+    }
+
+    await command(`MAIL FROM:<${config.from}>`, [250]);
+    for (const to of mail.to) await command(`RCPT TO:<${to}>`, [250, 251]);
+    await command("DATA", [354]);
+
+    const message = [
+      `From: ${headerSafe(config.from)}`,
+      `To: ${mail.to.map(headerSafe).join(", ")}`,
+      `Subject: ${encodeHeader(mail.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${randomUUID()}@stefans-mvp>`,
+      "MIME-Version: 1.0",
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: 8bit",
+      "",
+      dotStuff(mail.text),
+    ].join("\r\n");
+
+    await command(`${message}\r\n.`, [250]);
+    await command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    reader.detach();
+    socket.destroy();
+  }
+}
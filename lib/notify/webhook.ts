@@ -0,0 +1,90 @@
+// lib/notify/webhook.ts
+/**
+ * Outbound webhook delivery (JSON POST).
+ * When ALERT_WEBHOOK_SECRET is set, the body is signed:
+ *   X-Signature: sha256=<hex HMAC-SHA256(secret, rawBody)>
+ * Receivers should verify it and reject unsigned/mismatched requests.
+ *
+ * URLs are org-admin supplied, so only public https targets are accepted; set
+ * ALERT_WEBHOOK_ALLOW_LOCAL=true to allow http/localhost receivers in development.
+ * isValidWebhookUrl only sees the hostname text, so postWebhook resolves the name again
+ * at send time and refuses private addresses (a public DNS name can point at 10.x).
+ */
+
+import { createHmac } from "crypto";
+import { lookup } from "dns/promises";
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+export class WebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookError";
+  }
+}
+
+const PRIVATE_HOST = [
+  /^localhost$/i,
+  /\.localhost$/i,
+  /^127\./,
+  /^10\./,
+  /^192\.168\./,
+  /^172\.(1[6-9]|2\d|3[01])\./,
+  /^169\.254\./,
+  /^0\./,
+  /^\[?(::1?|f[cd][0-9a-f]{2}:.*|fe80:.*)\]?$/i,
+];
+
+/** Textual check for saving a URL; the resolved address is checked in postWebhook. */
+export function isValidWebhookUrl(v: string) {
+  if (v.length > 500) return false;
+  try {
+    const url = new URL(v);
+    if (process.env.ALERT_WEBHOOK_ALLOW_LOCAL === "true") return url.protocol === "https:" || url.protocol === "http:";
+    return url.protocol === "https:" && !PRIVATE_HOST.some((re) => re.test(url.hostname));
+  } catch {
+    return false;
+  }
+}
+
+function isPrivateAddress(address: string) {
+  const v4 = address.replace(/^::ffff:/i, ""); // IPv4-mapped IPv6
+  return PRIVATE_HOST.some((re) => re.test(v4)) || address === "::";
+}
+
+/**
+ * Refuse hostnames that resolve to private/loopback/link-local addresses.
+ * fetch resolves again, so a rebinding DNS server can still race this; it stops the static case.
+ */
+async function assertPublicTarget(url: string) {
+  if (process.env.ALERT_WEBHOOK_ALLOW_LOCAL === "true") return;
+
+  const { hostname } = new URL(url);
+  const addresses = await lookup(hostname.replace(/^\[|\]$/g, ""), { all: true }).catch(() => {
+    throw new WebhookError(`Webhook host ${hostname} did not resolve`);
+  });
+  if (addresses.some((a) => isPrivateAddress(a.address))) {
+    throw new WebhookError(`Webhook host ${hostname} resolves to a private address`);
+  }
+}
+
+export async function postWebhook(url: string, payload: Record<string, unknown>) {
+  await assertPublicTarget(url);
+
+  const body = JSON.stringify(payload);
+  const secret = process.env.ALERT_WEBHOOK_SECRET;
+
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": "stefans-mvp-alerts",
+      ...(secret ? { "X-Signature": `sha256=${createHmac("sha256", secret).update(body).digest("hex")}` } : {}),
+    },
+    body,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    redirect: "manual",
+  });
+
+  if (!res.ok) throw new WebhookError(`Webhook responded ${res.status}`);
+}
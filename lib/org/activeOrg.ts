@@ -0,0 +1,101 @@
+// lib/org/activeOrg.ts
+/**
+ * Active organization for a request (users can belong to several orgs).
+ * - Requested via the X-Org-Id header (API clients) or the active_org cookie (UI switcher)
+ * - Always validated against OrgMember; a header naming an org the user isn't in is an error,
+ *   never a silent fallback (that would bill the wrong org). A stale cookie (e.g. after
+ *   being removed from that org) is ignored.
+ * - Nothing requested → the user's oldest membership (deterministic)
+ */
+
+import { prisma } from "@/lib/prisma";
+
+export const ACTIVE_ORG_HEADER = "x-org-id";
+export const ACTIVE_ORG_COOKIE = "active_org";
+
+export class ActiveOrgError extends Error {
+  constructor() {
+    super("Not a member of the requested organization");
+    this.name = "ActiveOrgError";
+  }
+}
+
+function readCookie(req: Request, name: string) {
+  const header = req.headers.get("cookie");
+  if (!header) return null;
+
+  for (const part of header.split(";")) {
+    const [k, ...v] = part.trim().split("=");
+    if (k === name) return decodeURIComponent(v.join("="));
+  }
+  return null;
+}
+
+export type RequestedOrg = { organizationId: string; source: "header" | "cookie" };
+
+/** Org the client asked for (header wins over cookie), or null. */
+export function requestedOrg(req: Request): RequestedOrg | null {
+  const header = req.headers.get(ACTIVE_ORG_HEADER)?.trim();
+  if (header && header.length < 100) return { organizationId: header, source: "header" };
+
+  const cookie = readCookie(req, ACTIVE_ORG_COOKIE)?.trim();
+  if (cookie && cookie.length < 100) return { organizationId: cookie, source: "cookie" };
+
+  return null;
+}
+
+export async function listMemberships(auth0Sub: string) {
+  const rows = await prisma.orgMember.findMany({
+    where: { auth0Sub },
+    orderBy: { createdAt: "asc" },
+    select: { organizationId: true, role: true, createdAt: true, organization: { select: { name: true } } },
+  });
+
+  return rows.map((m) => ({
+    organizationId: m.organizationId,
+    name: m.organization.name,
+    role: m.role,
+    joinedAt: m.createdAt,
+  }));
+}
+
+/**
+ * Membership for the active org, or null when the user has no memberships at all.
+ * Throws ActiveOrgError when the header names an org the user isn't a member of.
+ */
+export async function resolveActiveOrg(params: { auth0Sub: string; requested?: RequestedOrg | null }) {
+  const { auth0Sub, requested } = params;
+
+  if (requested) {
+    const member = await prisma.orgMember.findUnique({
+      where: { organizationId_auth0Sub: { organizationId: requested.organizationId, auth0Sub } },
+      select: { organizationId: true, role: true },
+    });
+    if (member) return member;
+    if (requested.source === "header") throw new ActiveOrgError();
+  }
+
+  return prisma.orgMember.findFirst({
+    where: { auth0Sub },
+    orderBy: { createdAt: "asc" },
+    select: { organizationId: true, role: true },
+  });
+}
+
+/** ChatSession filter for the active org (sessions from before orgs were tracked show everywhere). */
+export function sessionOrgWhere(organizationId: string | null) {
+  return organizationId
+    ? { OR: [{ organizationId }, { organizationId: null }] }
+    : { organizationId: null };
+}
+
+/** Active org id for read-only views; a bad header yields null rather than an error. */
+export async function activeOrgIdForRequest(req: Request, auth0Sub: string) {
+  try {
+    const member = await resolveActiveOrg({ auth0Sub, requested: requestedOrg(req) });
+    return member?.organizationId ?? null;
+  } catch (e) {
+    if (e instanceof ActiveOrgError) return null;
+    throw e;
+  }
+}
@@ -0,0 +1,178 @@
+// lib/org/invitations.ts
+/**
+ * Organization invitations.
+ * - Admin invites by email → single-use token (only its SHA-256 is stored), valid INVITATION_TTL_MS
+ * - Accepting: via the invite link (/invite/<token>), or automatically on first login
+ *   when a pending invitation matches the user's verified email (see ensureOrgForUser)
+ * - Seats are checked both when inviting and when accepting
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@/generated/prisma/client";
+import { MembershipError, SeatLimitError, seatUsage, type OrgRole } from "@/lib/org/members";
+
+export const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+export function isValidEmail(email: string) {
+  return email.length <= 254 && EMAIL_PATTERN.test(email);
+}
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/** Path of the accept link (prefix with the app origin). */
+export function invitationPath(token: string) {
+  return `/invite/${token}`;
+}
+
+/**
+ * Serialize seat checks per org: lock the active subscription row before counting, so two
+ * concurrent invites/accepts can't both take the last seat (seatUsage is plain counts).
+ */
+async function lockSeats(tx: Prisma.TransactionClient, organizationId: string) {
+  await tx.$queryRaw`
+    SELECT 1 FROM "Subscription"
+    WHERE "organizationId" = ${organizationId} AND "status" = 'active'
+    FOR UPDATE
+  `;
+}
+
+/**
+ * Create an invitation. Re-inviting the same email revokes the older pending invite
+ * (so the seat isn't counted twice). Returns the plain token exactly once.
+ */
+export async function createInvitation(params: {
+  organizationId: string;
+  email: string;
+  role: OrgRole;
+  invitedBy: string;
+}) {
+  const { organizationId, role, invitedBy } = params;
+  const email = normalizeEmail(params.email);
+  const token = randomBytes(32).toString("base64url");
+
+  const invitation = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await tx.orgInvitation.updateMany({
+      where: { organizationId, email, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    await lockSeats(tx, organizationId);
+    const usage = await seatUsage(tx, organizationId);
+    if (usage.available <= 0) throw new SeatLimitError(usage.seats);
+
+    return tx.orgInvitation.create({
+      data: {
+        organizationId,
+        email,
+        role,
+        tokenHash: hashToken(token),
+        invitedBy,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+      },
+      select: { id: true, email: true, role: true, expiresAt: true, createdAt: true },
+    });
+  });
+
+  return { invitation, token };
+}
+
+export async function listPendingInvitations(organizationId: string) {
+  return prisma.orgInvitation.findMany({
+    where: { organizationId, acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { createdAt: "desc" },
+    select: { id: true, email: true, role: true, invitedBy: true, expiresAt: true, createdAt: true },
+  });
+}
+
+export async function revokeInvitation(params: { organizationId: string; invitationId: string }) {
+  const res = await prisma.orgInvitation.updateMany({
+    where: { id: params.invitationId, organizationId: params.organizationId, acceptedAt: null, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (res.count === 0) throw new MembershipError("invitation_not_found", "Invitation not found");
+}
+
+/** Claim the invitation and create the membership (one transaction; the claim is race-safe). */
+async function claimInvitation(
+  tx: Prisma.TransactionClient,
+  invitation: { id: string; organizationId: string; role: string },
+  auth0Sub: string
+) {
+  const existing = await tx.orgMember.findUnique({
+    where: { organizationId_auth0Sub: { organizationId: invitation.organizationId, auth0Sub } },
+    select: { id: true },
+  });
+  if (existing) throw new MembershipError("already_member", "Already a member of this organization");
+
+  const claimed = await tx.orgInvitation.updateMany({
+    where: { id: invitation.id, acceptedAt: null, revokedAt: null },
+    data: { acceptedAt: new Date(), acceptedBy: auth0Sub },
+  });
+  if (claimed.count === 0) throw new MembershipError("invitation_used", "Invitation was already used");
+
+  // This invitation's seat is already counted as pending, so members alone must fit.
+  await lockSeats(tx, invitation.organizationId);
+  const usage = await seatUsage(tx, invitation.organizationId);
+  if (usage.members >= usage.seats) throw new SeatLimitError(usage.seats);
+
+  return tx.orgMember.create({
+    data: { organizationId: invitation.organizationId, auth0Sub, role: invitation.role },
+    select: { id: true, organizationId: true, role: true },
+  });
+}
+
+/** Accept via invite link. The signed-in email must match the invited one. */
+export async function acceptInvitation(params: { token: string; auth0Sub: string; email: string | null }) {
+  const { token, auth0Sub } = params;
+
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const invitation = await tx.orgInvitation.findUnique({
+      where: { tokenHash: hashToken(token) },
+      select: { id: true, organizationId: true, email: true, role: true, expiresAt: true, acceptedAt: true, revokedAt: true },
+    });
+
+    if (!invitation || invitation.revokedAt) {
+      throw new MembershipError("invitation_not_found", "Invitation not found");
+    }
+    if (invitation.acceptedAt) throw new MembershipError("invitation_used", "Invitation was already used");
+    if (invitation.expiresAt <= new Date()) throw new MembershipError("invitation_expired", "Invitation expired");
+    if (!params.email || normalizeEmail(params.email) !== invitation.email) {
+      throw new MembershipError("invitation_email_mismatch", "Invitation was sent to a different email");
+    }
+
+    return claimInvitation(tx, invitation, auth0Sub);
+  });
+}
+
+/**
+ * First login: accept the newest pending invitation for a verified email, if any.
+ * Returns null when there is nothing to accept (or it can't be accepted).
+ */
+export async function acceptPendingInvitationForEmail(params: { auth0Sub: string; email: string }) {
+  const email = normalizeEmail(params.email);
+
+  const invitation = await prisma.orgInvitation.findFirst({
+    where: { email, acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { createdAt: "desc" },
+    select: { id: true, organizationId: true, role: true },
+  });
+  if (!invitation) return null;
+
+  try {
+    return await prisma.$transaction((tx: Prisma.TransactionClient) =>
+      claimInvitation(tx, invitation, params.auth0Sub)
+    );
+  } catch (e) {
+    if (e instanceof MembershipError || e instanceof SeatLimitError) return null;
+    throw e;
+  }
+}
@@ -0,0 +1,149 @@
+// lib/org/members.ts
+/**
+ * Organization membership management (admin APIs).
+ * - Seats come from the org's active Subscription.seats
+ * - A seat is used by every member AND every pending (unexpired, unrevoked) invitation
+ * - The last admin can't be demoted or removed (the org would become unmanageable)
+ * - Per-member credit budgets: see lib/billing/memberBudgets.ts
+ */
+
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@/generated/prisma/client";
+
+export const ORG_ROLES = ["admin", "member"] as const;
+export type OrgRole = (typeof ORG_ROLES)[number];
+
+export function isOrgRole(v: unknown): v is OrgRole {
+  return typeof v === "string" && (ORG_ROLES as readonly string[]).includes(v);
+}
+
+export class SeatLimitError extends Error {
+  constructor(public seats: number) {
+    super(seats > 0 ? `All ${seats} seats are in use` : "No active subscription with seats");
+    this.name = "SeatLimitError";
+  }
+}
+
+export type MembershipErrorCode =
+  | "member_not_found"
+  | "last_admin"
+  | "already_member"
+  | "invitation_not_found"
+  | "invitation_expired"
+  | "invitation_used"
+  | "invitation_email_mismatch";
+
+export class MembershipError extends Error {
+  constructor(
+    public code: MembershipErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "MembershipError";
+  }
+}
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+/** Seats on the active plan vs. members + pending invitations. */
+export async function seatUsage(db: Db, organizationId: string) {
+  const now = new Date();
+
+  const [subscription, members, pendingInvitations] = await Promise.all([
+    db.subscription.findFirst({
+      where: { organizationId, status: "active" },
+      orderBy: { createdAt: "desc" },
+      select: { seats: true },
+    }),
+    db.orgMember.count({ where: { organizationId } }),
+    db.orgInvitation.count({
+      where: { organizationId, acceptedAt: null, revokedAt: null, expiresAt: { gt: now } },
+    }),
+  ]);
+
+  const seats = subscription?.seats ?? 0;
+  return { seats, members, pendingInvitations, available: Math.max(0, seats - members - pendingInvitations) };
+}
+
+export async function listMembers(organizationId: string) {
+  return prisma.orgMember.findMany({
+    where: { organizationId },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, auth0Sub: true, role: true, creditBudget: true, createdAt: true },
+  });
+}
+
+async function assertNotLastAdmin(tx: Prisma.TransactionClient, organizationId: string, memberId: string) {
+  const admins = await tx.orgMember.findMany({
+    where: { organizationId, role: "admin" },
+    select: { id: true },
+  });
+  if (admins.length === 1 && admins[0].id === memberId) {
+    throw new MembershipError("last_admin", "An organization needs at least one admin");
+  }
+}
+
+/**
+ * Change a member's role and/or credit budget in one transaction (both or neither are applied).
+ * creditBudget null = fall back to the org default; undefined = leave unchanged.
+ */
+export async function updateMember(params: {
+  organizationId: string;
+  memberId: string;
+  role?: OrgRole;
+  creditBudget?: number | null;
+}) {
+  const { organizationId, memberId, role, creditBudget } = params;
+
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const member = await tx.orgMember.findFirst({
+      where: { id: memberId, organizationId },
+      select: { id: true, role: true },
+    });
+    if (!member) throw new MembershipError("member_not_found", "Member not found");
+
+    if (role && member.role === "admin" && role !== "admin") await assertNotLastAdmin(tx, organizationId, memberId);
+
+    return tx.orgMember.update({
+      where: { id: memberId },
+      data: {
+        ...(role ? { role } : {}),
+        ...(creditBudget !== undefined ? { creditBudget } : {}),
+      },
+      select: { id: true, auth0Sub: true, role: true, creditBudget: true, createdAt: true },
+    });
+  });
+}
+
+export async function removeMember(params: { organizationId: string; memberId: string }) {
+  const { organizationId, memberId } = params;
+
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const member = await tx.orgMember.findFirst({
+      where: { id: memberId, organizationId },
+      select: { id: true, role: true, auth0Sub: true },
+    });
+    if (!member) throw new MembershipError("member_not_found", "Member not found");
+
+    if (member.role === "admin") await assertNotLastAdmin(tx, organizationId, memberId);
+
+    await tx.orgMember.delete({ where: { id: memberId } });
+    return { auth0Sub: member.auth0Sub };
+  });
+}
+
+/** HTTP status for membership errors (routes map these to JSON responses). */
+export function membershipErrorStatus(e: MembershipError) {
+  switch (e.code) {
+    case "member_not_found":
+    case "invitation_not_found":
+      return 404;
+    case "invitation_email_mismatch":
+      return 403;
+    case "invitation_expired":
+    case "invitation_used":
+      return 410;
+    default:
+      return 409;
+  }
+}
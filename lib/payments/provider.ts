@@ -0,0 +1,86 @@
+// lib/payments/provider.ts
+/**
+ * Payment provider adapter (Stripe-style hosted checkout + signed webhooks).
+ * Providers translate their webhook payloads into PaymentEvent so billing logic
+ * (lib/billing/payments.ts) doesn't depend on a provider's object shapes.
+ */
+
+import type { CreditPack, Plan } from "@/lib/billing/plans";
+
+export type PaymentProviderErrorCode = "not_configured" | "provider_error";
+
+export class PaymentProviderError extends Error {
+  constructor(
+    public code: PaymentProviderErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "PaymentProviderError";
+  }
+}
+
+/** Bad/missing signature or a timestamp outside the tolerance window (replay). */
+export class WebhookVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookVerificationError";
+  }
+}
+
+export type CheckoutItem = { kind: "credits"; pack: CreditPack } | { kind: "subscription"; plan: Plan };
+
+/** Set on the checkout session (and the provider subscription) so webhooks can find the org. */
+export type CheckoutMetadata = {
+  organizationId?: string;
+  kind?: string; // "credits" | "subscription"
+  packCode?: string;
+  planCode?: string;
+};
+
+export type SubscriptionStatus = "active" | "past_due" | "canceled";
+
+export type PaymentEventData =
+  | {
+      kind: "checkout_completed";
+      sessionId: string;
+      mode: "payment" | "subscription";
+      paid: boolean;
+      amountTotal: number | null; // minor units
+      currency: string | null;
+      customerId: string | null;
+      subscriptionId: string | null;
+      metadata: CheckoutMetadata;
+    }
+  | {
+      kind: "invoice_paid";
+      subscriptionId: string;
+      customerId: string | null;
+      periodStart: Date;
+      periodEnd: Date;
+      metadata: CheckoutMetadata;
+    }
+  | { kind: "invoice_payment_failed"; subscriptionId: string; metadata: CheckoutMetadata }
+  | { kind: "subscription_status"; subscriptionId: string; status: SubscriptionStatus; metadata: CheckoutMetadata }
+  | { kind: "ignored" };
+
+export type PaymentEvent = {
+  id: string; // provider event id (dedupe key)
+  type: string; // provider event type, e.g. "checkout.session.completed"
+  createdAt: Date;
+  payload: unknown; // raw event, stored as-is
+  data: PaymentEventData;
+};
+
+export type PaymentProvider = {
+  name: string;
+  createCheckoutSession(params: {
+    organizationId: string;
+    item: CheckoutItem;
+    customerId: string | null;
+    successUrl: string;
+    cancelUrl: string;
+    idempotencyKey: string;
+  }): Promise<{ id: string; url: string }>;
+  /** Verify signature + timestamp, then parse. Throws WebhookVerificationError. */
+  parseWebhook(rawBody: string, headers: Headers, now?: Date): PaymentEvent;
+};
@@ -0,0 +1,50 @@
+// lib/payments/stripe.test.ts
+import { createHmac } from "crypto";
+import { describe, expect, it } from "vitest";
+
+import { WebhookVerificationError } from "@/lib/payments/provider";
+import { verifyStripeSignature } from "@/lib/payments/stripe";
+
+const SECRET = "whsec_test";
+const BODY = JSON.stringify({ id: "evt_1", type: "invoice.paid" });
+const NOW = new Date("2026-10-18T12:00:00Z");
+const T = Math.floor(NOW.getTime() / 1000);
+
+function sign(body: string, t: number, secret = SECRET) {
+  return createHmac("sha256", secret).update(`${t}.${body}`).digest("hex");
+}
+
+describe("verifyStripeSignature", () => {
+  it("accepts a valid signature", () => {
+    expect(() => verifyStripeSignature(BODY, `t=${T},v1=${sign(BODY, T)}`, SECRET, NOW)).not.toThrow();
+  });
+
+  it("accepts any matching v1 entry (secret rotation sends several)", () => {
+    const header = `t=${T},v1=${sign(BODY, T, "whsec_old")},v1=${sign(BODY, T)}`;
+    expect(() => verifyStripeSignature(BODY, header, SECRET, NOW)).not.toThrow();
+  });
+
+  it("rejects a missing or malformed header", () => {
+    expect(() => verifyStripeSignature(BODY, null, SECRET, NOW)).toThrow(WebhookVerificationError);
+    expect(() => verifyStripeSignature(BODY, `v1=${sign(BODY, T)}`, SECRET, NOW)).toThrow(/Malformed/);
+    expect(() => verifyStripeSignature(BODY, `t=${T}`, SECRET, NOW)).toThrow(/Malformed/);
+  });
+
+  it("rejects a tampered body or the wrong secret", () => {
+    const header = `t=${T},v1=${sign(BODY, T)}`;
+    expect(() => verifyStripeSignature(BODY.replace("paid", "failed"), header, SECRET, NOW)).toThrow(/mismatch/);
+    expect(() => verifyStripeSignature(BODY, header, "whsec_other", NOW)).toThrow(/mismatch/);
+  });
+
+  it("rejects a signature whose timestamp was altered", () => {
+    const header = `t=${T + 1},v1=${sign(BODY, T)}`;
+    expect(() => verifyStripeSignature(BODY, header, SECRET, NOW)).toThrow(/mismatch/);
+  });
+
+  it("rejects timestamps outside the tolerance window (replays)", () => {
+    const old = T - 301;
+    expect(() => verifyStripeSignature(BODY, `t=${old},v1=${sign(BODY, old)}`, SECRET, NOW)).toThrow(/tolerance/);
+    const edge = T - 300;
+    expect(() => verifyStripeSignature(BODY, `t=${edge},v1=${sign(BODY, edge)}`, SECRET, NOW)).not.toThrow();
+  });
+});
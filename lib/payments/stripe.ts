@@ -0,0 +1,254 @@
+// lib/payments/stripe.ts
+/**
+ * Stripe adapter over the REST API (no SDK dependency).
+ * - Checkout: POST /v1/checkout/sessions with inline price_data (catalog lives in lib/billing/plans.ts)
+ * - Webhooks: "Stripe-Signature: t=<unix>,v1=<hex HMAC-SHA256(secret, `${t}.${rawBody}`)>"
+ *   Signatures older/newer than STRIPE_WEBHOOK_TOLERANCE_SEC (default 300) are rejected,
+ *   so a captured delivery can't be replayed later; event-id dedupe covers replays inside the window.
+ *
+ * Env: STRIPE_SECRET_KEY (checkout), STRIPE_WEBHOOK_SECRET (webhooks).
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import {
+  PaymentProviderError,
+  WebhookVerificationError,
+  type CheckoutMetadata,
+  type PaymentEvent,
+  type PaymentEventData,
+  type PaymentProvider,
+  type SubscriptionStatus,
+} from "@/lib/payments/provider";
+
+const STRIPE_API = "https://api.stripe.com/v1";
+const STRIPE_TIMEOUT_MS = 10_000;
+
+function toleranceSec() {
+  const v = Number(process.env.STRIPE_WEBHOOK_TOLERANCE_SEC);
+  return Number.isFinite(v) && v > 0 ? v : 300;
+}
+
+/** Stripe's form encoding for nested params: a[b][0][c]=v */
+function formEncode(params: Record<string, unknown>, prefix = "", out = new URLSearchParams()) {
+  for (const [k, v] of Object.entries(params)) {
+    if (v === undefined || v === null) continue;
+    const key = prefix ? `${prefix}[${k}]` : k;
+    if (Array.isArray(v)) {
+      v.forEach((item, i) => {
+        if (item && typeof item === "object") formEncode(item as Record<string, unknown>, `${key}[${i}]`, out);
+        else out.append(`${key}[${i}]`, String(item));
+      });
+    } else if (typeof v === "object") {
+      formEncode(v as Record<string, unknown>, key, out);
+    } else {
+      out.append(key, String(v));
+    }
+  }
+  return out;
+}
+
+export function verifyStripeSignature(rawBody: string, header: string | null, secret: string, now = new Date()) {
+  if (!header) throw new WebhookVerificationError("Missing Stripe-Signature header");
+
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+  for (const part of header.split(",")) {
+    const [k, v] = part.split("=", 2).map((s) => s.trim());
+    if (k === "t") timestamp = Number(v);
+    else if (k === "v1" && v) signatures.push(v);
+  }
+  if (timestamp === null || !Number.isFinite(timestamp) || signatures.length === 0) {
+    throw new WebhookVerificationError("Malformed Stripe-Signature header");
+  }
+
+  const expected = createHmac("sha256", secret).update(`${timestamp}.${rawBody}`).digest();
+  const matches = signatures.some((s) => {
+    const given = Buffer.from(s, "hex");
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  });
+  if (!matches) throw new WebhookVerificationError("Signature mismatch");
+
+  if (Math.abs(now.getTime() / 1000 - timestamp) > toleranceSec()) {
+    throw new WebhookVerificationError("Signature timestamp outside tolerance");
+  }
+}
+
+type StripeObject = Record<string, unknown>;
+
+function asObject(v: unknown): StripeObject | null {
+  return v && typeof v === "object" && !Array.isArray(v) ? (v as StripeObject) : null;
+}
+
+function str(v: unknown): string | null {
+  if (typeof v === "string" && v) return v;
+  // Expanded objects ({ id: "cus_..." }) are accepted too
+  if (v && typeof v === "object" && typeof (v as { id?: unknown }).id === "string") return (v as { id: string }).id;
+  return null;
+}
+
+function metadataOf(v: unknown): CheckoutMetadata {
+  if (!v || typeof v !== "object") return {};
+  const m = v as Record<string, unknown>;
+  const pick = (k: string) => (typeof m[k] === "string" ? (m[k] as string) : undefined);
+  return { organizationId: pick("organizationId"), kind: pick("kind"), packCode: pick("packCode"), planCode: pick("planCode") };
+}
+
+function subscriptionStatus(status: unknown): SubscriptionStatus | null {
+  switch (status) {
+    case "active":
+    case "trialing":
+      return "active";
+    case "past_due":
+    case "unpaid":
+    case "incomplete":
+      return "past_due";
+    case "canceled":
+    case "incomplete_expired":
+      return "canceled";
+    default:
+      return null;
+  }
+}
+
+/** Invoice → subscription id / metadata (API versions moved these under `parent`). */
+function invoiceSubscription(invoice: StripeObject) {
+  const details = asObject(asObject(invoice.parent)?.subscription_details) ?? asObject(invoice.subscription_details);
+  return {
+    subscriptionId: str(details?.subscription) ?? str(invoice.subscription),
+    metadata: metadataOf(details?.metadata),
+  };
+}
+
+function eventData(type: string, obj: StripeObject): PaymentEventData {
+  switch (type) {
+    case "checkout.session.completed":
+    case "checkout.session.async_payment_succeeded": {
+      const mode = obj.mode;
+      if (mode !== "payment" && mode !== "subscription") return { kind: "ignored" };
+      return {
+        kind: "checkout_completed",
+        sessionId: String(obj.id),
+        mode,
+        paid: obj.payment_status === "paid" || obj.payment_status === "no_payment_required",
+        amountTotal: typeof obj.amount_total === "number" ? obj.amount_total : null,
+        currency: typeof obj.currency === "string" ? obj.currency : null,
+        customerId: str(obj.customer),
+        subscriptionId: str(obj.subscription),
+        metadata: metadataOf(obj.metadata),
+      };
+    }
+    case "invoice.paid": {
+      const { subscriptionId, metadata } = invoiceSubscription(obj);
+      const lines = asObject(obj.lines)?.data;
+      const period = asObject(asObject(Array.isArray(lines) ? lines[0] : null)?.period) ?? {
+        start: obj.period_start,
+        end: obj.period_end,
+      };
+      if (!subscriptionId || typeof period.start !== "number" || typeof period.end !== "number") {
+        return { kind: "ignored" };
+      }
+      return {
+        kind: "invoice_paid",
+        subscriptionId,
+        customerId: str(obj.customer),
+        periodStart: new Date(period.start * 1000),
+        periodEnd: new Date(period.end * 1000),
+        metadata,
+      };
+    }
+    case "invoice.payment_failed": {
+      const { subscriptionId, metadata } = invoiceSubscription(obj);
+      return subscriptionId ? { kind: "invoice_payment_failed", subscriptionId, metadata } : { kind: "ignored" };
+    }
+    case "customer.subscription.updated":
+    case "customer.subscription.deleted": {
+      const status = type === "customer.subscription.deleted" ? "canceled" : subscriptionStatus(obj.status);
+      if (!status) return { kind: "ignored" };
+      return { kind: "subscription_status", subscriptionId: String(obj.id), status, metadata: metadataOf(obj.metadata) };
+    }
+    default:
+      return { kind: "ignored" };
+  }
+}
+
+export function createStripeProvider(config: { secretKey?: string; webhookSecret?: string }): PaymentProvider {
+  return {
+    name: "stripe",
+
+    async createCheckoutSession({ organizationId, item, customerId, successUrl, cancelUrl, idempotencyKey }) {
+      if (!config.secretKey) throw new PaymentProviderError("not_configured", "STRIPE_SECRET_KEY is not set");
+
+      const metadata: CheckoutMetadata =
+        item.kind === "credits"
+          ? { organizationId, kind: "credits", packCode: item.pack.code }
+          : { organizationId, kind: "subscription", planCode: item.plan.code };
+
+      const product = item.kind === "credits" ? item.pack : item.plan;
+      const params = {
+        mode: item.kind === "credits" ? "payment" : "subscription",
+        success_url: successUrl,
+        cancel_url: cancelUrl,
+        client_reference_id: organizationId,
+        metadata,
+        ...(customerId ? { customer: customerId } : item.kind === "credits" ? { customer_creation: "always" } : {}),
+        ...(item.kind === "subscription" ? { subscription_data: { metadata } } : {}),
+        line_items: [
+          {
+            quantity: 1,
+            price_data: {
+              currency: product.currency,
+              unit_amount: product.priceCents,
+              product_data: { name: product.name },
+              ...(item.kind === "subscription" ? { recurring: { interval: "month" } } : {}),
+            },
+          },
+        ],
+      };
+
+      const res = await fetch(`${STRIPE_API}/checkout/sessions`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${config.secretKey}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+          "Idempotency-Key": idempotencyKey,
+        },
+        body: formEncode(params).toString(),
+        signal: AbortSignal.timeout(STRIPE_TIMEOUT_MS),
+      });
+      const data = asObject(await res.json().catch(() => null));
+
+      if (!res.ok || typeof data?.url !== "string") {
+        const message = asObject(data?.error)?.message;
+        throw new PaymentProviderError(
+          "provider_error",
+          typeof message === "string" ? message : `Stripe responded ${res.status}`
+        );
+      }
+      return { id: String(data.id), url: data.url };
+    },
+
+    parseWebhook(rawBody, headers, now = new Date()) {
+      if (!config.webhookSecret) throw new PaymentProviderError("not_configured", "STRIPE_WEBHOOK_SECRET is not set");
+      verifyStripeSignature(rawBody, headers.get("stripe-signature"), config.webhookSecret, now);
+
+      let event: StripeObject | null;
+      try {
+        event = asObject(JSON.parse(rawBody));
+      } catch {
+        throw new WebhookVerificationError("Invalid JSON body");
+      }
+      const object = asObject(asObject(event?.data)?.object);
+      if (!event || typeof event.id !== "string" || typeof event.type !== "string" || !object) {
+        throw new WebhookVerificationError("Not a Stripe event");
+      }
+
+      return {
+        id: event.id,
+        type: event.type,
+        createdAt: typeof event.created === "number" ? new Date(event.created * 1000) : now,
+        payload: event,
+        data: eventData(event.type, object),
+      } satisfies PaymentEvent;
+    },
+  };
+}
@@ -0,0 +1,123 @@
+// lib/telemetry/register.ts
+/**
+ * OpenTelemetry SDK setup, run once per Node.js server from instrumentation.ts.
+ *
+ * Env:
+ * - OTEL_TRACES_EXPORTER: "otlp" | "console" | "memory" | "none"
+ *   (default "otlp" when an OTLP endpoint is set, otherwise "none": tracing stays a no-op)
+ * - OTEL_EXPORTER_OTLP_ENDPOINT / OTEL_EXPORTER_OTLP_TRACES_ENDPOINT / OTEL_EXPORTER_OTLP_HEADERS:
+ *   read by the OTLP/HTTP exporter itself (e.g. http://localhost:4318)
+ * - OTEL_SERVICE_NAME: default "stefans-mvp"
+ * - OTEL_TRACES_SAMPLER / OTEL_TRACES_SAMPLER_ARG: read by the SDK (default parentbased_always_on)
+ *
+ * "console" prints each finished span to stdout; "memory" keeps the last MEMORY_SPAN_LIMIT spans
+ * for GET /api/admin/traces. Both are for local testing.
+ * The provider registers the W3C trace-context propagator, so inbound `traceparent` is continued.
+ */
+
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+  type SpanExporter,
+  type SpanProcessor,
+} from "@opentelemetry/sdk-trace-node";
+import { SpanStatusCode, type HrTime } from "@opentelemetry/api";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+
+export type TracesExporter = "otlp" | "console" | "memory" | "none";
+
+const MEMORY_SPAN_LIMIT = 500;
+
+/** Keeps the most recent finished spans (InMemorySpanExporter grows without bound). */
+class RecentSpanExporter implements SpanExporter {
+  private spans: ReadableSpan[] = [];
+
+  export(spans: ReadableSpan[], resultCallback: Parameters<SpanExporter["export"]>[1]) {
+    this.spans.push(...spans);
+    if (this.spans.length > MEMORY_SPAN_LIMIT) this.spans.splice(0, this.spans.length - MEMORY_SPAN_LIMIT);
+    resultCallback({ code: 0 }); // ExportResultCode.SUCCESS
+  }
+
+  async shutdown() {
+    this.spans = [];
+  }
+
+  recent() {
+    return [...this.spans];
+  }
+}
+
+// instrumentation.ts and route handlers are bundled separately; share state through globalThis
+const globalForTracing = globalThis as unknown as {
+  tracing?: { exporter: TracesExporter; memory: RecentSpanExporter | null };
+};
+
+export function tracesExporterFromEnv(): TracesExporter {
+  const configured = process.env.OTEL_TRACES_EXPORTER?.trim().toLowerCase();
+  switch (configured) {
+    case "otlp":
+    case "console":
+    case "memory":
+    case "none":
+      return configured;
+    default: {
+      const hasEndpoint = Boolean(
+        process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT || process.env.OTEL_EXPORTER_OTLP_ENDPOINT
+      );
+      return hasEndpoint ? "otlp" : "none";
+    }
+  }
+}
+
+export function registerTracing() {
+  if (globalForTracing.tracing) return globalForTracing.tracing.exporter;
+
+  const exporter = tracesExporterFromEnv();
+  const memory = exporter === "memory" ? new RecentSpanExporter() : null;
+  globalForTracing.tracing = { exporter, memory };
+  if (exporter === "none") return exporter;
+
+  let processor: SpanProcessor;
+  if (exporter === "otlp") processor = new BatchSpanProcessor(new OTLPTraceExporter());
+  else processor = new SimpleSpanProcessor(memory ?? new ConsoleSpanExporter());
+
+  const provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ "service.name": process.env.OTEL_SERVICE_NAME || "stefans-mvp" }),
+    spanProcessors: [processor],
+  });
+  provider.register();
+
+  return exporter;
+}
+
+function hrTimeMs([sec, nanos]: HrTime) {
+  return sec * 1000 + nanos / 1e6;
+}
+
+/** JSON-friendly view of a finished span. */
+function spanSummary(span: ReadableSpan) {
+  const ctx = span.spanContext();
+  return {
+    traceId: ctx.traceId,
+    spanId: ctx.spanId,
+    parentSpanId: span.parentSpanContext?.spanId ?? null,
+    name: span.name,
+    startTime: new Date(hrTimeMs(span.startTime)).toISOString(),
+    durationMs: Math.round(hrTimeMs(span.duration) * 100) / 100,
+    status: span.status.code === SpanStatusCode.ERROR ? "error" : "ok",
+    error: span.status.message ?? null,
+    attributes: span.attributes,
+  };
+}
+
+export type SpanSummary = ReturnType<typeof spanSummary>;
+
+/** Finished spans held by the "memory" exporter, oldest first (null when another exporter is active). */
+export function recentSpans(): SpanSummary[] | null {
+  const memory = globalForTracing.tracing?.memory;
+  return memory ? memory.recent().map(spanSummary) : null;
+}
@@ -0,0 +1,129 @@
+// lib/telemetry/tracing.ts
+/**
+ * Span helpers over the OpenTelemetry API. They are no-ops until lib/telemetry/register.ts
+ * installs a tracer provider (see instrumentation.ts), so call sites don't need to check.
+ *
+ * - traced: wraps a route handler in one span per request. Under `next start` Next.js' own server
+ *   span is the parent; otherwise an inbound W3C `traceparent`/`tracestate` is continued.
+ *   The span gets `request.id` (from setRequestId, or the response's X-Request-Id) and the HTTP status.
+ * - withSpan: child span for one stage of a request (auth, org, rate limit, Prisma, model call …);
+ *   it inherits `request.id` from the enclosing traced() request.
+ * - startSpan/runInSpan: for work that outlives the handler (SSE streams).
+ * Errors are recorded on the span and rethrown unchanged.
+ */
+
+import {
+  context,
+  createContextKey,
+  propagation,
+  trace,
+  SpanKind,
+  SpanStatusCode,
+  type Attributes,
+  type Span,
+  type TextMapGetter,
+} from "@opentelemetry/api";
+
+const tracer = trace.getTracer("stefans-mvp");
+
+export const ATTR_REQUEST_ID = "request.id";
+
+/** Mutable per-request scope: the id is only known once the handler has read its headers. */
+type RequestScope = { span: Span; requestId?: string };
+const REQUEST_SCOPE = createContextKey("stefans-mvp.request");
+
+const headerGetter: TextMapGetter<Headers> = {
+  get: (headers, key) => headers.get(key) ?? undefined,
+  keys: (headers) => [...headers.keys()],
+};
+
+function requestScope() {
+  return context.active().getValue(REQUEST_SCOPE) as RequestScope | undefined;
+}
+
+function recordError(span: Span, e: unknown) {
+  if (e instanceof Error) span.recordException(e);
+  span.setStatus({ code: SpanStatusCode.ERROR, message: e instanceof Error ? e.message : String(e) });
+}
+
+/** Tag the current request span (and every stage span after this call) with the request id. */
+export function setRequestId(requestId: string) {
+  const scope = requestScope();
+  if (!scope) return;
+  scope.requestId = requestId;
+  scope.span.setAttribute(ATTR_REQUEST_ID, requestId);
+}
+
+/** Extra attributes on the request span (user, mode, org …). Undefined values are skipped. */
+export function annotateRequest(attributes: Attributes) {
+  requestScope()?.span.setAttributes(attributes);
+}
+
+export function traced<A extends [Request, ...unknown[]]>(
+  name: string,
+  handler: (...args: A) => Promise<Response>
+): (...args: A) => Promise<Response> {
+  return async (...args: A) => {
+    const [req] = args;
+    const active = context.active();
+    const hasParent = trace.getSpan(active) !== undefined;
+    const parent = hasParent ? active : propagation.extract(active, req.headers, headerGetter);
+
+    const span = tracer.startSpan(
+      name,
+      {
+        kind: hasParent ? SpanKind.INTERNAL : SpanKind.SERVER,
+        attributes: { "http.request.method": req.method, "url.path": new URL(req.url).pathname },
+      },
+      parent
+    );
+    const scope: RequestScope = { span };
+
+    return context.with(trace.setSpan(parent, span).setValue(REQUEST_SCOPE, scope), async () => {
+      try {
+        const res = await handler(...args);
+        if (!scope.requestId) {
+          const requestId = res.headers.get("x-request-id");
+          if (requestId) span.setAttribute(ATTR_REQUEST_ID, requestId);
+        }
+        span.setAttribute("http.response.status_code", res.status);
+        if (res.status >= 500) span.setStatus({ code: SpanStatusCode.ERROR });
+        return res;
+      } catch (e) {
+        recordError(span, e);
+        throw e;
+      } finally {
+        span.end();
+      }
+    });
+  };
+}
+
+/** Child of the active span; carries the request id when one is set. */
+export function startSpan(name: string, attributes: Attributes = {}) {
+  const requestId = requestScope()?.requestId;
+  return tracer.startSpan(name, { attributes: { ...(requestId ? { [ATTR_REQUEST_ID]: requestId } : {}), ...attributes } });
+}
+
+/** Run `fn` with `span` active (its async continuations included). */
+export function runInSpan<T>(span: Span, fn: () => T): T {
+  return context.with(trace.setSpan(context.active(), span), fn);
+}
+
+/** Finish a span started with startSpan, marking it failed when `error` is given. */
+export function endSpan(span: Span, error?: unknown) {
+  if (error !== undefined) recordError(span, error);
+  span.end();
+}
+
+export async function withSpan<T>(name: string, fn: (span: Span) => Promise<T>, attributes: Attributes = {}): Promise<T> {
+  const span = startSpan(name, attributes);
+  try {
+    return await runInSpan(span, () => fn(span));
+  } catch (e) {
+    recordError(span, e);
+    throw e;
+  } finally {
+    span.end();
+  }
+}
@@ -12,6 +12,9 @@ export async function middleware(request: NextRequest) {
   // Allow public paths (tweak as you want)
   const isPublic =
     pathname.startsWith("/auth") ||
+    pathname.startsWith("/api/cron") || // shared-secret auth in the route
+    pathname.startsWith("/api/webhooks") || // provider signature auth in the route
+    pathname === "/api/metrics" || // scrape token auth in the route
     pathname.startsWith("/_next") ||
     pathname === "/favicon.ico";
 
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ChatSession" ADD COLUMN     "summary" TEXT,
+ADD COLUMN     "summaryThrough" TIMESTAMP(3);
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "CreditLedger" ADD COLUMN     "completionTokens" INTEGER,
+ADD COLUMN     "model" TEXT,
+ADD COLUMN     "promptTokens" INTEGER;
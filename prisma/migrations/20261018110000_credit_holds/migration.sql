@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "CreditWallet" ADD COLUMN     "reserved" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "CreditHold" (
+    "id" TEXT NOT NULL,
+    "walletId" TEXT NOT NULL,
+    "auth0Sub" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "settledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CreditHold_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CreditHold_walletId_status_expiresAt_idx" ON "CreditHold"("walletId", "status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "CreditHold_requestId_idx" ON "CreditHold"("requestId");
+
+-- AddForeignKey
+ALTER TABLE "CreditHold" ADD CONSTRAINT "CreditHold_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "CreditWallet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "ChatMessage" ADD COLUMN     "rubricVersionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ReviewRubric" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "currentVersion" INTEGER NOT NULL DEFAULT 1,
+    "archivedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReviewRubric_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReviewRubricVersion" (
+    "id" TEXT NOT NULL,
+    "rubricId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "criteria" JSONB NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReviewRubricVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReviewRubric_organizationId_isDefault_idx" ON "ReviewRubric"("organizationId", "isDefault");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReviewRubricVersion_rubricId_version_key" ON "ReviewRubricVersion"("rubricId", "version");
+
+-- AddForeignKey
+ALTER TABLE "ChatMessage" ADD CONSTRAINT "ChatMessage_rubricVersionId_fkey" FOREIGN KEY ("rubricVersionId") REFERENCES "ReviewRubricVersion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewRubric" ADD CONSTRAINT "ReviewRubric_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewRubricVersion" ADD CONSTRAINT "ReviewRubricVersion_rubricId_fkey" FOREIGN KEY ("rubricId") REFERENCES "ReviewRubric"("id") ON DELETE CASCADE ON UPDATE CASCADE;
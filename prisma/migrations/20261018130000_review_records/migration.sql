@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "Review" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "auth0Sub" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "requestId" TEXT,
+    "rubricVersionId" TEXT,
+    "score" INTEGER NOT NULL,
+    "verdict" TEXT NOT NULL,
+    "breakdown" JSONB NOT NULL,
+    "riskGaps" TEXT[],
+    "antiPatterns" TEXT[],
+    "improvements" TEXT[],
+    "repaired" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Review_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Review_messageId_key" ON "Review"("messageId");
+
+-- CreateIndex
+CREATE INDEX "Review_organizationId_createdAt_idx" ON "Review"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Review_auth0Sub_createdAt_idx" ON "Review"("auth0Sub", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Review_organizationId_score_idx" ON "Review"("organizationId", "score");
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "ChatSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "ChatMessage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_rubricVersionId_fkey" FOREIGN KEY ("rubricVersionId") REFERENCES "ReviewRubricVersion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ChatSession" ADD COLUMN     "organizationId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ChatSession_auth0Sub_organizationId_createdAt_idx" ON "ChatSession"("auth0Sub", "organizationId", "createdAt");
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "periodCreditsGranted" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "CreditLedger" ADD COLUMN     "idempotencyKey" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Subscription_status_currentPeriodEnd_idx" ON "Subscription"("status", "currentPeriodEnd");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CreditLedger_idempotencyKey_key" ON "CreditLedger"("idempotencyKey");
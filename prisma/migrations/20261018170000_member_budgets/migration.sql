@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN     "defaultMemberBudget" INTEGER;
+
+-- AlterTable
+ALTER TABLE "OrgMember" ADD COLUMN     "creditBudget" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "CreditLedger_walletId_auth0Sub_createdAt_idx" ON "CreditLedger"("walletId", "auth0Sub", "createdAt");
@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN     "alertEmails" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "alertWebhookUrl" TEXT;
+
+-- CreateTable
+CREATE TABLE "BalanceAlertRule" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "threshold" INTEGER NOT NULL,
+    "triggeredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BalanceAlertRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrgNotification" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "ruleId" TEXT,
+    "message" TEXT NOT NULL,
+    "data" JSONB,
+    "resolvedAt" TIMESTAMP(3),
+    "dismissedBy" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "deliveredAt" TIMESTAMP(3),
+    "deliveryError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrgNotification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BalanceAlertRule_organizationId_idx" ON "BalanceAlertRule"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "OrgNotification_organizationId_resolvedAt_createdAt_idx" ON "OrgNotification"("organizationId", "resolvedAt", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "BalanceAlertRule" ADD CONSTRAINT "BalanceAlertRule_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrgNotification" ADD CONSTRAINT "OrgNotification_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN     "paymentCustomerId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "providerSubscriptionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "PaymentEvent" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "organizationId" TEXT,
+    "payload" JSONB NOT NULL,
+    "processedAt" TIMESTAMP(3),
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Organization_paymentCustomerId_key" ON "Organization"("paymentCustomerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Subscription_providerSubscriptionId_key" ON "Subscription"("providerSubscriptionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentEvent_provider_eventId_key" ON "PaymentEvent"("provider", "eventId");
+
+-- CreateIndex
+CREATE INDEX "PaymentEvent_organizationId_createdAt_idx" ON "PaymentEvent"("organizationId", "createdAt");
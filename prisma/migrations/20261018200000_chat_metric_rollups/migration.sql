@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "ChatMetricRollup" (
+    "id" TEXT NOT NULL,
+    "granularity" TEXT NOT NULL,
+    "bucketStart" TIMESTAMP(3) NOT NULL,
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "modeCoach" INTEGER NOT NULL DEFAULT 0,
+    "modeReview" INTEGER NOT NULL DEFAULT 0,
+    "modeUnknown" INTEGER NOT NULL DEFAULT 0,
+    "status200" INTEGER NOT NULL DEFAULT 0,
+    "status400" INTEGER NOT NULL DEFAULT 0,
+    "status401" INTEGER NOT NULL DEFAULT 0,
+    "status402" INTEGER NOT NULL DEFAULT 0,
+    "status403" INTEGER NOT NULL DEFAULT 0,
+    "status409" INTEGER NOT NULL DEFAULT 0,
+    "status429" INTEGER NOT NULL DEFAULT 0,
+    "status500" INTEGER NOT NULL DEFAULT 0,
+    "rateLimited" INTEGER NOT NULL DEFAULT 0,
+    "latencySumMs" BIGINT NOT NULL DEFAULT 0,
+    "latencyCount" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChatMetricRollup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChatMetricRollup_granularity_bucketStart_key" ON "ChatMetricRollup"("granularity", "bucketStart");
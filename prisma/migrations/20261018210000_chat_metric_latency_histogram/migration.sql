@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ChatMetricRollup" ADD COLUMN     "latencyHistogram" JSONB NOT NULL DEFAULT '{}';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ChatMetricRollup" ADD COLUMN     "usage" JSONB NOT NULL DEFAULT '{}';
@@ -0,0 +1,71 @@
+// scripts/replay-payment-webhook.mjs
+/**
+ * Replay a recorded payment webhook fixture against a running app: `npm run payments:replay -- <fixture> [options]`.
+ * Signs the body like Stripe (t=<unix>,v1=HMAC-SHA256(STRIPE_WEBHOOK_SECRET, `${t}.${body}`)) and POSTs it
+ * to APP_BASE_URL (default http://localhost:3000)/api/webhooks/payments. No live provider needed.
+ *
+ * Options:
+ *   --org <organizationId>  replaces {{ORG_ID}} in the fixture (required by most fixtures)
+ *   --new-id                fresh event id (fixtures otherwise reuse theirs → second send is a duplicate)
+ *   --stale                 sign with a timestamp 1h old → expect 400 (replay protection)
+ *   --bad-signature         sign with the wrong secret → expect 400
+ *
+ * Fixtures live in scripts/fixtures/payments (a bare name like "invoice.paid" is resolved there).
+ */
+
+import "dotenv/config";
+import { createHmac, randomUUID } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+
+const args = process.argv.slice(2);
+const flag = (name) => args.includes(name);
+const option = (name) => {
+  const i = args.indexOf(name);
+  return i >= 0 ? args[i + 1] : undefined;
+};
+const fixtureArg = args.find((a, i) => !a.startsWith("--") && args[i - 1] !== "--org");
+
+if (!fixtureArg) {
+  console.error("Usage: npm run payments:replay -- <fixture> [--org <id>] [--new-id] [--stale] [--bad-signature]");
+  process.exit(1);
+}
+
+const secret = process.env.STRIPE_WEBHOOK_SECRET;
+if (!secret) {
+  console.error("STRIPE_WEBHOOK_SECRET is not set");
+  process.exit(1);
+}
+
+const fixtureDir = path.join(path.dirname(new URL(import.meta.url).pathname), "fixtures", "payments");
+const fixturePath = existsSync(fixtureArg) ? fixtureArg : path.join(fixtureDir, `${fixtureArg.replace(/\.json$/, "")}.json`);
+
+let body = readFileSync(fixturePath, "utf8");
+const org = option("--org");
+if (body.includes("{{ORG_ID}}")) {
+  if (!org) {
+    console.error("This fixture needs --org <organizationId>");
+    process.exit(1);
+  }
+  body = body.replaceAll("{{ORG_ID}}", org);
+}
+if (flag("--new-id")) {
+  const event = JSON.parse(body);
+  event.id = `evt_replay_${randomUUID()}`;
+  body = JSON.stringify(event);
+}
+
+const timestamp = Math.floor(Date.now() / 1000) - (flag("--stale") ? 3600 : 0);
+const signingSecret = flag("--bad-signature") ? `${secret}-wrong` : secret;
+const signature = createHmac("sha256", signingSecret).update(`${timestamp}.${body}`).digest("hex");
+
+const baseUrl = process.env.APP_BASE_URL || "http://localhost:3000";
+const res = await fetch(new URL("/api/webhooks/payments", baseUrl), {
+  method: "POST",
+  headers: { "Content-Type": "application/json", "Stripe-Signature": `t=${timestamp},v1=${signature}` },
+  body,
+});
+const result = await res.json().catch(() => null);
+
+console.log(res.status, JSON.stringify(result ?? {}, null, 2));
+process.exit(res.ok ? 0 : 1);
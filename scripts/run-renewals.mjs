@@ -0,0 +1,25 @@
+// scripts/run-renewals.mjs
+/**
+ * CLI trigger for the subscription renewal job: `npm run renewals`.
+ * Calls the cron route of a running app (APP_BASE_URL, default http://localhost:3000)
+ * with CRON_SECRET, so the job always runs with the app's own config and Prisma client.
+ */
+
+import "dotenv/config";
+
+const baseUrl = process.env.APP_BASE_URL || "http://localhost:3000";
+const secret = process.env.CRON_SECRET;
+
+if (!secret) {
+  console.error("CRON_SECRET is not set");
+  process.exit(1);
+}
+
+const res = await fetch(new URL("/api/cron/renewals", baseUrl), {
+  method: "POST",
+  headers: { Authorization: `Bearer ${secret}` },
+});
+const body = await res.json().catch(() => null);
+
+console.log(JSON.stringify(body ?? { status: res.status }, null, 2));
+process.exit(res.ok && body?.failed?.length === 0 ? 0 : 1);